@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { CheckCircle2, KeyRound } from 'lucide-react';
+import SecurePaySDK, { ReverificationRequiredError, TotpSetup, VerificationCodeError } from '@/sdk/SecurePaySDK';
+import IdentityCheck from './IdentityCheck';
+
+const AuthenticatorEnrollment = () => {
+  const { toast } = useToast();
+  const [isEnrolled, setIsEnrolled] = useState(SecurePaySDK.isTotpEnrolled());
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+  // Change to make once the user has proved a factor
+  const [pendingChange, setPendingChange] = useState<(() => void) | null>(null);
+
+  const withIdentityCheck = (change: () => void) => {
+    if (SecurePaySDK.isReverificationRequired()) {
+      setPendingChange(() => change);
+    } else {
+      change();
+    }
+  };
+
+  const completeIdentityCheck = () => {
+    const change = pendingChange;
+    setPendingChange(null);
+    change?.();
+  };
+
+  const startEnrollment = () => {
+    setSetup(SecurePaySDK.beginTotpEnrollment());
+    setCode("");
+  };
+
+  const confirmEnrollment = async () => {
+    let confirmed: boolean;
+    try {
+      confirmed = await SecurePaySDK.confirmTotpEnrollment(code);
+    } catch (error) {
+      if (error instanceof ReverificationRequiredError) {
+        // The earlier check expired while the app was being set up
+        setPendingChange(() => confirmEnrollment);
+        return;
+      }
+      if (!(error instanceof VerificationCodeError)) {
+        throw error;
+      }
+      toast({
+        variant: "destructive",
+        title: "Authenticator Locked",
+        description: `${error.message} (${Math.ceil(error.retryAfterMs / 60000)} min).`,
+      });
+      setCode("");
+      return;
+    }
+    if (confirmed) {
+      setIsEnrolled(true);
+      setSetup(null);
+      toast({
+        title: "Authenticator Added",
+        description: "High-value transactions can now be approved with a code from your authenticator app.",
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Invalid Code",
+        description: "The code does not match. Check the time on your phone and try the current code.",
+      });
+    }
+    setCode("");
+  };
+
+  const removeEnrollment = () => {
+    SecurePaySDK.removeTotpEnrollment();
+    setIsEnrolled(false);
+    toast({
+      title: "Authenticator Removed",
+      description: "High-value transactions will be verified by phone call.",
+    });
+  };
+
+  if (pendingChange) {
+    return <IdentityCheck onVerified={completeIdentityCheck} onCancel={() => setPendingChange(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4 p-4 border rounded-md">
+        <p className="text-sm text-muted-foreground">
+          Scan this code with Google Authenticator, 1Password or a similar app, then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center bg-white p-4 rounded-md">
+          <QRCodeSVG value={setup.uri} size={180} />
+        </div>
+        <p className="text-xs text-center text-muted-foreground break-all">
+          Or enter this key manually: <span className="font-mono">{setup.secret}</span>
+        </p>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              <InputOTPSlot index={0} />
+              <InputOTPSlot index={1} />
+              <InputOTPSlot index={2} />
+              <InputOTPSlot index={3} />
+              <InputOTPSlot index={4} />
+              <InputOTPSlot index={5} />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" size="sm" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={confirmEnrollment} disabled={code.length !== 6}>
+            Confirm
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return isEnrolled ? (
+    <div className="flex items-center justify-between p-4 border rounded-md">
+      <div className="flex items-center gap-2">
+        <CheckCircle2 className="h-5 w-5 text-green-600" />
+        <span className="text-sm">Authenticator app enrolled</span>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => withIdentityCheck(startEnrollment)}>
+          Replace
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => withIdentityCheck(removeEnrollment)}>
+          Remove
+        </Button>
+      </div>
+    </div>
+  ) : (
+    <Button variant="outline" onClick={() => withIdentityCheck(startEnrollment)}>
+      <KeyRound className="h-4 w-4 mr-2" />
+      Set Up Authenticator App
+    </Button>
+  );
+};
+
+export default AuthenticatorEnrollment;
@@ -4,8 +4,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { Fingerprint, Camera, CheckCircle2 } from 'lucide-react';
-import SecurePaySDK, { BiometricType } from '@/sdk/SecurePaySDK';
+import { Input } from "@/components/ui/input";
+import { Fingerprint, Camera, KeyRound, Pencil, Trash2, Plus } from 'lucide-react';
+import SecurePaySDK, {
+  BiometricCredential,
+  BiometricError,
+  BiometricType,
+  GestureStroke,
+  PasskeyError,
+  ReverificationRequiredError,
+} from '@/sdk/SecurePaySDK';
+import IdentityCheck from './IdentityCheck';
 
 interface BiometricRegistrationProps {
   onRegistered?: (type: BiometricType) => void;
@@ -19,33 +28,33 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
   const fingerprintCanvasRef = useRef<HTMLCanvasElement>(null);
   const [biometricType, setBiometricType] = useState<BiometricType>('face');
   const [isCameraOn, setIsCameraOn] = useState(false);
-  const [isRegistered, setIsRegistered] = useState(false);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [fingerprintData, setFingerprintData] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState<BiometricCredential[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
   const [isDrawing, setIsDrawing] = useState(false);
+  const [gestureSamples, setGestureSamples] = useState<GestureStroke[]>([]);
+  const strokeRef = useRef<GestureStroke>([]);
+  const strokeStartRef = useRef(0);
+  const [isPasskeyAvailable, setIsPasskeyAvailable] = useState(false);
+  // Change to make once the user has proved a factor
+  const [pendingChange, setPendingChange] = useState<(() => void) | null>(null);
   
-  // Check if biometric is already registered
   useEffect(() => {
-    const type = SecurePaySDK.getBiometricType();
-    if (type && type !== 'none') {
-      setBiometricType(type);
-      setIsRegistered(true);
-      
-      // If we have a stored face image, load it
-      const biometricData = SecurePaySDK.getBiometricData();
-      if (biometricData) {
-        if (type === 'face') {
-          setCapturedImage(biometricData);
-        } else if (type === 'fingerprint') {
-          setFingerprintData(biometricData);
-        }
-      }
-    }
+    SecurePaySDK.isPasskeyAvailable().then(setIsPasskeyAvailable);
+  }, []);
+  
+  // Load what is already enrolled; offer to add one straight away when nothing is
+  useEffect(() => {
+    const existing = SecurePaySDK.getBiometrics();
+    setEnrollments(existing);
+    setIsAdding(existing.length === 0);
   }, []);
   
-  // Start/stop camera based on biometric type and registration status
+  // Start/stop camera based on biometric type and whether an enrollment is being added
   useEffect(() => {
-    if (biometricType === 'face' && !isRegistered) {
+    if (biometricType === 'face' && isAdding) {
       startCamera();
     } else {
       stopCamera();
@@ -54,14 +63,14 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
     return () => {
       stopCamera();
     };
-  }, [biometricType, isRegistered]);
+  }, [biometricType, isAdding]);
   
   // Setup fingerprint canvas
   useEffect(() => {
-    if (biometricType === 'fingerprint' && !isRegistered && fingerprintCanvasRef.current) {
+    if (biometricType === 'fingerprint' && isAdding && fingerprintCanvasRef.current) {
       initializeFingerprintCanvas();
     }
-  }, [biometricType, isRegistered]);
+  }, [biometricType, isAdding]);
   
   const initializeFingerprintCanvas = () => {
     const canvas = fingerprintCanvasRef.current;
@@ -150,19 +159,25 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
     const imageData = canvas.toDataURL('image/png');
     console.log("Captured image data length:", imageData.length);
     
-    setCapturedImage(imageData);
-    
-    // Register biometric with the SDK
-    const success = SecurePaySDK.registerBiometric(imageData, 'face');
-    
-    if (success) {
-      setIsRegistered(true);
+    // Enroll with the SDK; the pixels are used to build the face template
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    try {
+      const credential = SecurePaySDK.addBiometric({ type: 'face', frame }, { label: newLabel, preview: imageData });
       stopCamera();
+      finishAdding(credential);
+    } catch (error) {
+      if (error instanceof ReverificationRequiredError) {
+        restartAfterIdentityCheck();
+        return;
+      }
+      if (!(error instanceof BiometricError)) {
+        throw error;
+      }
       toast({
-        title: "Face Registered",
-        description: "Your face has been registered successfully.",
+        variant: "destructive",
+        title: error.reason === 'no_face_detected' ? "No Face Detected" : "Face Not Enrolled",
+        description: error.message,
       });
-      if (onRegistered) onRegistered('face');
     }
   };
   
@@ -186,6 +201,10 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
           y = e.clientY - rect.top;
         }
         
+        // Record the stroke with timings, for gesture matching
+        strokeStartRef.current = performance.now();
+        strokeRef.current = [{ x, y, t: 0 }];
+        
         ctx.beginPath();
         ctx.moveTo(x, y);
         
@@ -219,6 +238,7 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
           y = e.clientY - rect.top;
         }
         
+        strokeRef.current.push({ x, y, t: performance.now() - strokeStartRef.current });
         ctx.lineTo(x, y);
         ctx.stroke();
       }
@@ -232,36 +252,155 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
       
       // Get fingerprint data as base64 string
       const fingerprintData = canvas.toDataURL('image/png');
-      setFingerprintData(fingerprintData);
       
-      // Register biometric with the SDK
-      const success = SecurePaySDK.registerBiometric(fingerprintData, 'fingerprint');
+      // The pattern is drawn several times, so the template captures how it varies
+      const samples = [...gestureSamples, strokeRef.current];
+      const required = SecurePaySDK.getGestureEnrollmentSamples();
+      if (samples.length < required) {
+        setGestureSamples(samples);
+        initializeFingerprintCanvas();
+        toast({
+          title: `Pattern ${samples.length} of ${required} Recorded`,
+          description: "Draw the same pattern again.",
+        });
+        return;
+      }
       
-      if (success) {
-        setIsRegistered(true);
+      // Enroll with the SDK
+      setGestureSamples([]);
+      try {
+        const credential = SecurePaySDK.addBiometric(
+          { type: 'fingerprint', strokes: samples },
+          { label: newLabel, preview: fingerprintData }
+        );
+        finishAdding(credential);
+      } catch (error) {
+        if (error instanceof ReverificationRequiredError) {
+          restartAfterIdentityCheck();
+          return;
+        }
+        if (!(error instanceof BiometricError)) {
+          throw error;
+        }
+        initializeFingerprintCanvas();
         toast({
-          title: "Fingerprint Registered",
-          description: "Your fingerprint has been registered successfully.",
+          variant: "destructive",
+          title: "Fingerprint Not Enrolled",
+          description: `${error.message}. Start again from the first drawing.`,
         });
-        if (onRegistered) onRegistered('fingerprint');
       }
     }
   };
   
-  const resetBiometric = () => {
-    SecurePaySDK.registerBiometric('', 'none');
-    setIsRegistered(false);
-    setCapturedImage(null);
-    setFingerprintData(null);
-    if (biometricType === 'face') {
-      startCamera();
+  const createPasskey = async () => {
+    try {
+      const credential = await SecurePaySDK.registerPasskey({ label: newLabel });
+      finishAdding(credential);
+    } catch (error) {
+      if (error instanceof ReverificationRequiredError) {
+        restartAfterIdentityCheck();
+        return;
+      }
+      if (!(error instanceof PasskeyError)) {
+        throw error;
+      }
+      toast({
+        variant: "destructive",
+        title: "Passkey Not Created",
+        description: error.reason === 'cancelled' ? "The passkey prompt was cancelled." : error.message,
+      });
     }
+  };
+  
+  const finishAdding = (credential: BiometricCredential) => {
+    setEnrollments(SecurePaySDK.getBiometrics());
+    setIsAdding(false);
+    setNewLabel('');
     toast({
-      title: "Biometric Reset",
-      description: "Your biometric data has been reset.",
+      title: `${credential.label} Enrolled`,
+      description: credential.type === 'passkey'
+        ? "Transactions can now be approved with this device's screen lock or biometrics."
+        : "It can now be used to approve transactions on this device.",
     });
+    if (onRegistered) onRegistered(credential.type);
+  };
+  
+  const startRename = (credential: BiometricCredential) => {
+    setEditingId(credential.id);
+    setEditingLabel(credential.label);
+  };
+  
+  const saveRename = () => {
+    if (!editingId) return;
+    try {
+      SecurePaySDK.renameBiometric(editingId, editingLabel);
+      setEnrollments(SecurePaySDK.getBiometrics());
+      setEditingId(null);
+    } catch (error) {
+      if (!(error instanceof BiometricError)) {
+        throw error;
+      }
+      toast({
+        variant: "destructive",
+        title: "Rename Failed",
+        description: error.message,
+      });
+    }
   };
   
+  const revokeEnrollment = (credential: BiometricCredential) => {
+    if (!SecurePaySDK.revokeBiometric(credential.id)) return;
+    const remaining = SecurePaySDK.getBiometrics();
+    setEnrollments(remaining);
+    if (remaining.length === 0) {
+      setIsAdding(true);
+    }
+    toast({
+      title: "Biometric Removed",
+      description: `${credential.label} can no longer approve transactions on this device.`,
+    });
+  };
+  
+  const cancelAdding = () => {
+    setIsAdding(false);
+    setNewLabel('');
+    setGestureSamples([]);
+  };
+  
+  // Once something is enrolled, adding or removing an enrollment needs a factor proved first
+  const withIdentityCheck = (change: () => void) => {
+    if (enrollments.length > 0 && SecurePaySDK.isReverificationRequired()) {
+      setPendingChange(() => change);
+    } else {
+      change();
+    }
+  };
+  
+  // The earlier check expired while the biometric was being captured: check again, then start over
+  const restartAfterIdentityCheck = () => {
+    cancelAdding();
+    setPendingChange(() => () => setIsAdding(true));
+  };
+  
+  const completeIdentityCheck = () => {
+    const change = pendingChange;
+    setPendingChange(null);
+    change?.();
+  };
+  
+  if (pendingChange) {
+    return (
+      <Card className="overflow-hidden">
+        <CardContent className="p-6">
+          {showTitle && (
+            <h3 className="text-lg font-medium mb-4">Biometric Registration</h3>
+          )}
+          <IdentityCheck onVerified={completeIdentityCheck} onCancel={() => setPendingChange(null)} />
+        </CardContent>
+      </Card>
+    );
+  }
+  
   return (
     <Card className="overflow-hidden">
       <CardContent className="p-6">
@@ -269,8 +408,73 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
           <h3 className="text-lg font-medium mb-4">Biometric Registration</h3>
         )}
         
-        {!isRegistered ? (
-          <>
+        {enrollments.length > 0 && (
+          <ul className="space-y-3 mb-4">
+            {enrollments.map(credential => (
+              <li key={credential.id} className="border rounded-md p-3 flex items-center gap-3">
+                {credential.preview ? (
+                  <img
+                    src={credential.preview}
+                    alt={credential.label}
+                    className="h-12 w-12 rounded object-cover bg-gray-100"
+                  />
+                ) : (
+                  <div className="h-12 w-12 rounded bg-gray-100 flex items-center justify-center">
+                    <BiometricIcon type={credential.type} />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  {editingId === credential.id ? (
+                    <div className="flex gap-2">
+                      <Input
+                        value={editingLabel}
+                        onChange={(e) => setEditingLabel(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveRename()}
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button size="sm" onClick={saveRename}>Save</Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <p className="font-medium flex items-center gap-1 truncate">
+                      <BiometricIcon type={credential.type} />
+                      {credential.label}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDate(credential.createdAt)} · {credential.lastUsedAt
+                      ? `Last used ${formatDate(credential.lastUsedAt)}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                {editingId !== credential.id && (
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" onClick={() => startRename(credential)} aria-label="Rename">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => withIdentityCheck(() => revokeEnrollment(credential))} aria-label="Revoke">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        
+        {isAdding ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="biometricLabel">Name (Optional)</Label>
+              <Input
+                id="biometricLabel"
+                placeholder="e.g. Left index finger"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+              />
+            </div>
+            
             <RadioGroup
               value={biometricType}
               onValueChange={(value) => setBiometricType(value as BiometricType)}
@@ -288,8 +492,16 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
                   <Fingerprint size={16} /> Fingerprint
                 </Label>
               </div>
+              {isPasskeyAvailable && (
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="passkey" id="passkey" />
+                  <Label htmlFor="passkey" className="flex items-center gap-1">
+                    <KeyRound size={16} /> Passkey
+                  </Label>
+                </div>
+              )}
             </RadioGroup>
-            
+          
             {biometricType === 'face' && (
               <div className="space-y-4">
                 <div className="rounded-md overflow-hidden bg-gray-100 relative">
@@ -316,7 +528,7 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
                 </Button>
               </div>
             )}
-            
+          
             {biometricType === 'fingerprint' && (
               <div className="space-y-4">
                 <canvas
@@ -334,56 +546,49 @@ const BiometricRegistration = ({ onRegistered, showTitle = true }: BiometricRegi
                 />
                 <p className="text-sm text-muted-foreground">
                   Draw your fingerprint pattern in the area above
+                  ({gestureSamples.length} of {SecurePaySDK.getGestureEnrollmentSamples()} drawings)
                 </p>
               </div>
             )}
-          </>
-        ) : (
-          <div className="space-y-4">
-            <div className="bg-green-50 border border-green-200 rounded-md p-4 flex items-center gap-3">
-              <CheckCircle2 className="h-5 w-5 text-green-600" />
-              <div>
-                <p className="text-green-800 font-medium">
-                  {biometricType === 'face' ? 'Face' : 'Fingerprint'} Registered
-                </p>
-                <p className="text-green-700 text-sm">
-                  Your biometric data has been registered successfully
+          
+            {biometricType === 'passkey' && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  A passkey uses this device's built-in Touch ID, Face ID, Windows Hello or screen lock.
+                  Your biometric never leaves the device; each transaction is signed with a key only it holds.
                 </p>
-              </div>
-            </div>
-            
-            {biometricType === 'face' && capturedImage && (
-              <div className="rounded-md overflow-hidden bg-gray-100 relative">
-                <img
-                  src={capturedImage}
-                  alt="Registered face"
-                  className="w-full h-[150px] object-contain"
-                />
+                <Button onClick={createPasskey} className="w-full">
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Create Passkey
+                </Button>
               </div>
             )}
-            
-            {biometricType === 'fingerprint' && fingerprintData && (
-              <div className="rounded-md overflow-hidden bg-gray-100 relative">
-                <img
-                  src={fingerprintData}
-                  alt="Registered fingerprint"
-                  className="w-full h-[150px] object-contain"
-                />
-              </div>
+          
+            {enrollments.length > 0 && (
+              <Button variant="outline" onClick={cancelAdding} className="w-full">
+                Cancel
+              </Button>
             )}
-            
-            <Button
-              variant="outline"
-              onClick={resetBiometric}
-              className="w-full"
-            >
-              Reset Biometric
-            </Button>
           </div>
+        ) : (
+          <Button variant="outline" onClick={() => withIdentityCheck(() => setIsAdding(true))} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Biometric
+          </Button>
         )}
       </CardContent>
     </Card>
   );
 };
 
+const BiometricIcon = ({ type }: { type: BiometricCredential['type'] }) => {
+  if (type === 'face') return <Camera size={16} />;
+  if (type === 'passkey') return <KeyRound size={16} />;
+  return <Fingerprint size={16} />;
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
 export default BiometricRegistration;
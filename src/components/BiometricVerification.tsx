@@ -2,29 +2,31 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-import { Fingerprint, Camera, X, Check } from 'lucide-react';
-import SecurePaySDK, { BiometricType } from '@/sdk/SecurePaySDK';
+import { Fingerprint, Camera, X } from 'lucide-react';
+import SecurePaySDK, { BiometricFallbackReason, BiometricLockoutStatus, BiometricMatchResult, BiometricSample, BiometricType, GestureStroke, LivenessCapture, LivenessPrompt, LivenessResult } from '@/sdk/SecurePaySDK';
 
 interface BiometricVerificationProps {
   biometricType: BiometricType;
-  onVerified: () => void;
+  onVerified: (sample: BiometricSample) => void;
+  /**
+   * Biometrics cannot be used: the camera is unavailable or too many attempts failed
+   */
+  onUnavailable: (reason: BiometricFallbackReason) => void;
   onCancel: () => void;
 }
 
-const BiometricVerification = ({ biometricType, onVerified, onCancel }: BiometricVerificationProps) => {
+const BiometricVerification = ({ biometricType, onVerified, onUnavailable, onCancel }: BiometricVerificationProps) => {
   const { toast } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fingerprintCanvasRef = useRef<HTMLCanvasElement>(null);
   const [isCameraOn, setIsCameraOn] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [storedBiometricData, setStoredBiometricData] = useState<string | null>(null);
+  const [livenessPrompt, setLivenessPrompt] = useState<LivenessPrompt | null>(null);
+  const strokeRef = useRef<GestureStroke>([]);
+  const strokeStartRef = useRef(0);
   
   useEffect(() => {
-    // Get stored biometric data for comparison
-    const data = SecurePaySDK.getBiometricData();
-    setStoredBiometricData(data);
-    
     if (biometricType === 'face') {
       startCamera();
     } else if (biometricType === 'fingerprint' && fingerprintCanvasRef.current) {
@@ -78,9 +80,25 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
       toast({
         variant: "destructive",
         title: "Camera Error",
-        description: "Could not access the camera. Please check permissions.",
+        description: "Could not access the camera. Another way to approve the transaction will be offered.",
       });
+      onUnavailable('camera_unavailable');
+    }
+  };
+  
+  // Failed attempts count towards a lockout; once locked, hand over to the fallback factor
+  const reportFailure = (title: string, description: string) => {
+    const lockout = SecurePaySDK.getBiometricLockout();
+    if (lockout.locked) {
+      stopCamera();
+      onUnavailable('locked_out');
+      return;
     }
+    toast({
+      variant: "destructive",
+      title,
+      description: `${description} ${describeAttemptsRemaining(lockout)}`,
+    });
   };
   
   const stopCamera = () => {
@@ -97,7 +115,7 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
     }
   };
   
-  const verifyFace = () => {
+  const verifyFace = async () => {
     if (!videoRef.current || !canvasRef.current) {
       console.error("Video or canvas element not found");
       return;
@@ -112,35 +130,46 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
       return;
     }
     
-    // Make sure we have proper dimensions
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    // Draw video frame to canvas
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-    
-    // Get image data as base64 string
-    const imageData = canvas.toDataURL('image/png');
+    // Liveness: record the user acting out each random prompt, so a photo or replayed video fails
+    const challenge = SecurePaySDK.createLivenessChallenge();
+    const steps: LivenessCapture['steps'] = [];
+    // The frame to match opens the capture, before any prompt so the face is looking straight ahead;
+    // the face that is matched is then the one seen acting out the prompts
+    const frame = captureFrame(video, canvas, ctx, 1);
+    try {
+      for (const prompt of challenge.prompts) {
+        setLivenessPrompt(prompt);
+        const frames = steps.length === 0 ? [frame] : [];
+        for (let i = 0; i < LIVENESS_FRAMES; i++) {
+          await wait(LIVENESS_FRAME_INTERVAL_MS);
+          frames.push(captureFrame(video, canvas, ctx, LIVENESS_FRAME_SCALE));
+        }
+        steps.push({ prompt, frames });
+      }
+    } finally {
+      setLivenessPrompt(null);
+    }
     
-    console.log("Captured image data length:", imageData.length);
-    console.log("Stored biometric data length:", storedBiometricData?.length);
+    const liveness: LivenessCapture = { challengeId: challenge.id, steps };
+    const livenessResult = SecurePaySDK.checkLiveness(liveness, frame);
+    if (!livenessResult.passed) {
+      reportFailure("Liveness Check Failed", describeLivenessFailure(livenessResult));
+      return;
+    }
     
     // Verify with SDK
-    const isVerified = SecurePaySDK.verifyBiometric(imageData);
+    const sample: BiometricSample = { type: 'face', frame, liveness };
+    const match = SecurePaySDK.verifyBiometric(sample);
     
-    if (isVerified) {
+    if (match.matched) {
       stopCamera();
       toast({
         title: "Face Verified",
-        description: "Face verification successful.",
+        description: `Face verification successful (score ${formatScore(match)}).`,
       });
-      onVerified();
+      onVerified(sample);
     } else {
-      toast({
-        variant: "destructive",
-        title: "Verification Failed",
-        description: "Face does not match. Please try again.",
-      });
+      reportFailure("Verification Failed", describeMatchFailure(match));
     }
   };
   
@@ -164,6 +193,10 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
           y = e.clientY - rect.top;
         }
         
+        // Record the stroke with timings, for gesture matching
+        strokeStartRef.current = performance.now();
+        strokeRef.current = [{ x, y, t: 0 }];
+        
         ctx.beginPath();
         ctx.moveTo(x, y);
         
@@ -197,6 +230,7 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
           y = e.clientY - rect.top;
         }
         
+        strokeRef.current.push({ x, y, t: performance.now() - strokeStartRef.current });
         ctx.lineTo(x, y);
         ctx.stroke();
       }
@@ -206,39 +240,28 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
   const handleFingerprintEnd = () => {
     if (isDrawing && fingerprintCanvasRef.current) {
       setIsDrawing(false);
-      const canvas = fingerprintCanvasRef.current;
       
-      // Get fingerprint data as base64 string
-      const fingerprintData = canvas.toDataURL('image/png');
+      const sample: BiometricSample = { type: 'fingerprint', stroke: strokeRef.current };
+      const match = SecurePaySDK.verifyBiometric(sample);
       
-      // In a real implementation, this would use fingerprint matching algorithms
-      // For this demo, we'll simulate by comparing to stored data
-      const isVerified = SecurePaySDK.verifyBiometric(fingerprintData);
-      
-      if (isVerified) {
+      if (match.matched) {
         toast({
           title: "Fingerprint Verified",
           description: "Fingerprint verification successful.",
         });
-        onVerified();
+        onVerified(sample);
       } else {
-        toast({
-          variant: "destructive",
-          title: "Verification Failed",
-          description: "Fingerprint does not match. Please try again.",
-        });
+        initializeFingerprintCanvas();
+        reportFailure(
+          "Verification Failed",
+          match.reason === 'low_quality'
+            ? "The pattern was too short. Draw it larger and try again."
+            : `Fingerprint pattern does not match (score ${formatScore(match)}). Please try again.`
+        );
       }
     }
   };
   
-  const simulateSuccessfulVerification = () => {
-    toast({
-      title: "Demo Mode",
-      description: "Biometric verification simulated successfully.",
-    });
-    onVerified();
-  };
-  
   return (
     <Card>
       <CardContent className="p-6 space-y-4">
@@ -265,14 +288,19 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
                 className="w-full h-[200px] object-cover"
               />
               <canvas ref={canvasRef} className="hidden" />
+              {livenessPrompt && (
+                <div className="absolute inset-x-0 bottom-0 bg-black/60 text-white text-center py-2 font-medium">
+                  {describeLivenessPrompt(livenessPrompt)}
+                </div>
+              )}
             </div>
             <Button
               onClick={verifyFace}
               className="w-full"
-              disabled={!isCameraOn}
+              disabled={!isCameraOn || !!livenessPrompt}
             >
               <Camera className="h-4 w-4 mr-2" />
-              Verify Face
+              {livenessPrompt ? 'Checking Liveness...' : 'Verify Face'}
             </Button>
           </div>
         )}
@@ -302,17 +330,73 @@ const BiometricVerification = ({ biometricType, onVerified, onCancel }: Biometri
           <Button variant="outline" size="sm" onClick={onCancel}>
             <X className="h-4 w-4 mr-1" /> Cancel
           </Button>
-          <Button size="sm" onClick={simulateSuccessfulVerification}>
-            <Check className="h-4 w-4 mr-1" /> Demo: Simulate Successful Match
-          </Button>
         </div>
-        
-        <p className="text-xs text-gray-500 text-center">
-          Demo Note: In a real application, actual biometric matching algorithms would be used.
-        </p>
       </CardContent>
     </Card>
   );
 };
 
+// Frames recorded per liveness prompt, how far apart, and at what fraction of the camera resolution
+const LIVENESS_FRAMES = 12;
+const LIVENESS_FRAME_INTERVAL_MS = 150;
+const LIVENESS_FRAME_SCALE = 0.5;
+
+function captureFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, scale: number): ImageData {
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function describeLivenessPrompt(prompt: LivenessPrompt): string {
+  switch (prompt) {
+    case 'turn_left':
+      return "Slowly turn your head to your left";
+    case 'turn_right':
+      return "Slowly turn your head to your right";
+    case 'blink':
+      return "Blink your eyes";
+  }
+}
+
+function describeLivenessFailure(result: LivenessResult): string {
+  switch (result.reason) {
+    case 'no_face_detected':
+      return "Your face left the frame. Keep it in view and try again.";
+    case 'static_image':
+      return "No movement was seen. Follow the prompts on screen.";
+    case 'expired':
+      return "The check took too long. Please try again.";
+    case 'face_changed':
+      return "The face changed during the check. Keep the same face in view throughout.";
+    default:
+      return "The prompts were not followed. Watch the instructions on screen and try again.";
+  }
+}
+
+function formatScore(match: BiometricMatchResult): string {
+  return `${Math.round(match.score * 100)}%, needs ${Math.round(match.threshold * 100)}%`;
+}
+
+function describeAttemptsRemaining(lockout: BiometricLockoutStatus): string {
+  return `${lockout.attemptsRemaining} attempt${lockout.attemptsRemaining === 1 ? '' : 's'} remaining.`;
+}
+
+function describeMatchFailure(match: BiometricMatchResult): string {
+  switch (match.reason) {
+    case 'no_face_detected':
+      return "No face was found. Face the camera and try again.";
+    case 'low_quality':
+      return "The image is too dark or blurry. Move to better lighting and try again.";
+    case 'not_enrolled':
+      return "No face is registered on this device.";
+    default:
+      return `Face does not match (score ${formatScore(match)}). Please try again.`;
+  }
+}
+
 export default BiometricVerification;
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import SecurePaySDK, { TrustedDevice } from '@/sdk/SecurePaySDK';
-import { Laptop, Smartphone, Trash2, RefreshCw, Monitor } from 'lucide-react';
+import { Laptop, Smartphone, Tablet, Trash2, RefreshCw, Monitor, Chrome, Compass, Globe } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -69,10 +69,30 @@ const DeviceList = () => {
   };
 
   const getDeviceIcon = (device: TrustedDevice) => {
-    if (device.platform === 'Web') {
-      return <Laptop className="h-5 w-5" />;
+    // Devices registered before their type was recorded only have a platform
+    const deviceType = device.deviceType || (device.platform === 'Web' ? 'desktop' : 'mobile');
+    if (deviceType === 'tablet') {
+      return <Tablet className="h-5 w-5" />;
+    }
+    if (deviceType === 'mobile') {
+      return <Smartphone className="h-5 w-5" />;
+    }
+    return <Laptop className="h-5 w-5" />;
+  };
+
+  const getBrowserIcon = (device: TrustedDevice) => {
+    switch (device.browserName) {
+      case 'Chrome':
+      case 'Chromium':
+      case 'Edge':
+      case 'Opera':
+      case 'Samsung Internet':
+        return <Chrome className="h-3 w-3" />;
+      case 'Safari':
+        return <Compass className="h-3 w-3" />;
+      default:
+        return <Globe className="h-3 w-3" />;
     }
-    return <Smartphone className="h-5 w-5" />;
   };
 
   if (!isRegistered) {
@@ -135,6 +155,12 @@ const DeviceList = () => {
                   {getDeviceIcon(device)}
                   <div>
                     <p className="font-medium">{device.name}</p>
+                    {(device.browserName || device.osName) && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        {getBrowserIcon(device)}
+                        {describeDevice(device)}
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       ID: {device.deviceId.substring(0, 8)}... • {device.platform}
                     </p>
@@ -195,4 +221,18 @@ const DeviceList = () => {
   );
 };
 
+/**
+ * e.g. "Chrome 130 • Android 14 • Pixel 8"
+ */
+function describeDevice(device: TrustedDevice): string {
+  const withVersion = (name?: string | null, version?: string | null) => name && version ? `${name} ${version}` : name;
+  // Full browser versions from Client Hints are long; the major version is enough to tell them apart
+  const browserVersion = device.browserVersion?.split('.')[0];
+  return [
+    withVersion(device.browserName, browserVersion),
+    withVersion(device.osName, device.osVersion),
+    device.deviceModel,
+  ].filter(Boolean).join(' • ');
+}
+
 export default DeviceList;
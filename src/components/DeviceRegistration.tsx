@@ -6,8 +6,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
 import SecurePaySDK, { BiometricType } from '@/sdk/SecurePaySDK';
-import { ShieldCheck, Smartphone, Phone, Fingerprint } from 'lucide-react';
+import { ShieldCheck, Smartphone, Phone, Fingerprint, KeyRound } from 'lucide-react';
 import BiometricRegistration from './BiometricRegistration';
+import AuthenticatorEnrollment from './AuthenticatorEnrollment';
 
 const DeviceRegistration = () => {
   const { toast } = useToast();
@@ -36,8 +37,9 @@ const DeviceRegistration = () => {
       if (currentDevice?.phoneNumber) {
         setPhoneNumber(currentDevice.phoneNumber);
       }
-      if (currentDevice?.biometricType) {
-        setBiometricType(currentDevice.biometricType);
+      const preferredBiometric = SecurePaySDK.getBiometricType();
+      if (preferredBiometric) {
+        setBiometricType(preferredBiometric);
       }
     }
   }, []);
@@ -130,6 +132,14 @@ const DeviceRegistration = () => {
                 showTitle={false}
               />
             </div>
+            
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <KeyRound className="h-4 w-4 text-primary" />
+                <Label>Authenticator App</Label>
+              </div>
+              <AuthenticatorEnrollment />
+            </div>
           </div>
         ) : (
           <div className="space-y-6">
@@ -139,6 +149,12 @@ const DeviceRegistration = () => {
                 <p><strong>Device ID:</strong> {deviceInfo?.deviceId?.substring(0, 8)}...</p>
                 <p><strong>Platform:</strong> {deviceInfo?.platform}</p>
                 <p><strong>Type:</strong> {deviceInfo?.deviceName}</p>
+                {deviceInfo?.signals && (
+                  <p>
+                    <strong>Fingerprint:</strong> {deviceInfo.signals.hash.substring(0, 8)}...
+                    {' '}({Object.keys(deviceInfo.signals.components).length} signals)
+                  </p>
+                )}
               </div>
             </div>
             <div className="space-y-2">
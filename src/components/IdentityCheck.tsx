@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { KeyRound, ShieldAlert } from 'lucide-react';
+import SecurePaySDK, { PasskeyError } from '@/sdk/SecurePaySDK';
+import BiometricVerification from './BiometricVerification';
+
+interface IdentityCheckProps {
+  /**
+   * The user proved a factor; the change that needed it can go ahead
+   */
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+const IdentityCheck = ({ onVerified, onCancel }: IdentityCheckProps) => {
+  const { toast } = useToast();
+  const [biometricType] = useState(SecurePaySDK.getBiometricType());
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  const verifyWithPasskey = async () => {
+    try {
+      if (await SecurePaySDK.reverifyWithPasskey()) {
+        onVerified();
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Passkey Not Accepted",
+        description: "The passkey could not be verified.",
+      });
+    } catch (error) {
+      if (!(error instanceof PasskeyError)) {
+        throw error;
+      }
+      toast({
+        variant: "destructive",
+        title: error.reason === 'cancelled' ? "Passkey Cancelled" : "Passkey Unavailable",
+        description: error.reason === 'cancelled' ? "The passkey prompt was cancelled." : error.message,
+      });
+    }
+  };
+
+  if ((biometricType === 'face' || biometricType === 'fingerprint') && !isUnavailable) {
+    return (
+      <BiometricVerification
+        biometricType={biometricType}
+        onVerified={() => onVerified()}
+        onUnavailable={() => setIsUnavailable(true)}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-md">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-5 w-5 text-yellow-600" />
+        <span className="text-sm font-medium">Confirm it's you</span>
+      </div>
+      {biometricType === 'passkey' ? (
+        <p className="text-sm text-muted-foreground">Use your passkey to continue.</p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Approve a transaction with a code sent to your phone, then try again.
+        </p>
+      )}
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        {biometricType === 'passkey' && (
+          <Button size="sm" onClick={verifyWithPasskey}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Use Passkey
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IdentityCheck;
@@ -5,16 +5,31 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
 import { QRCodeSVG } from 'qrcode.react';
-import SecurePaySDK, { TrustedDevice } from '@/sdk/SecurePaySDK';
-import { QrCode, Scan, AlertTriangle, RefreshCw } from 'lucide-react';
+import SecurePaySDK, { QRCodeError, QRCodeErrorReason, PairingHostSession, PairingGuestSession, PairingSnapshot } from '@/sdk/SecurePaySDK';
+import { QrCode, Scan, AlertTriangle, RefreshCw, Ban, ShieldCheck, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import QrScanner from 'qr-scanner';
 
+const QR_ERROR_TITLES: Record<QRCodeErrorReason, string> = {
+  malformed: "Invalid QR Code",
+  unsigned: "Unsigned QR Code",
+  invalid_signature: "Tampered QR Code",
+  key_mismatch: "Untrusted QR Code",
+  untrusted_issuer: "Unknown Device",
+  expired: "QR Code Expired",
+  already_used: "QR Already Used",
+  revoked: "QR Code Revoked",
+  decryption_failed: "Unreadable QR Code",
+};
+
 const QRLinking = () => {
   const { toast } = useToast();
-  const [qrData, setQrData] = useState<string>('');
+  const [hostSession, setHostSession] = useState<PairingHostSession | null>(null);
+  const [hostPairing, setHostPairing] = useState<PairingSnapshot | null>(null);
+  const [guestSession, setGuestSession] = useState<PairingGuestSession | null>(null);
+  const [guestPairing, setGuestPairing] = useState<PairingSnapshot | null>(null);
   const [isRegistered, setIsRegistered] = useState(false);
   const [scanMode, setScanMode] = useState(false);
   const [manualCode, setManualCode] = useState('');
@@ -37,11 +52,54 @@ const QRLinking = () => {
     };
   }, []);
 
-  const generateNewQRCode = () => {
+  // Follow the active pairing sessions, closing them when replaced or on unmount
+  useEffect(() => {
+    if (!hostSession) return;
+    const unsubscribe = hostSession.onChange((snapshot) => {
+      setHostPairing(snapshot);
+      if (snapshot.state === 'completed') {
+        toast({
+          title: "Device Linked",
+          description: `${snapshot.peerDevice?.deviceName || 'The device'} has been linked as a trusted device.`,
+        });
+      }
+    });
+    return () => {
+      unsubscribe();
+      hostSession.cancel();
+    };
+  }, [hostSession, toast]);
+
+  useEffect(() => {
+    if (!guestSession) return;
+    const unsubscribe = guestSession.onChange((snapshot) => {
+      setGuestPairing(snapshot);
+      if (snapshot.state === 'completed') {
+        toast({
+          title: "Device Linked",
+          description: `${snapshot.peerDevice?.deviceName || 'The device'} has been linked as a trusted device.`,
+        });
+      } else if (snapshot.state !== 'awaiting_confirmation') {
+        toast({
+          variant: "destructive",
+          title: "Linking Failed",
+          description: snapshot.error || "The device was not linked.",
+        });
+      }
+    });
+    return () => {
+      unsubscribe();
+      guestSession.cancel();
+    };
+  }, [guestSession, toast]);
+
+  const generateNewQRCode = async () => {
     try {
-      const newQrData = SecurePaySDK.generateQRCodeData();
-      setQrData(newQrData);
-      console.log("Generated QR data:", newQrData);
+      // Replacing the session revokes the previous code, so only the code on screen is usable
+      const session = await SecurePaySDK.hostPairing();
+      setHostSession(session);
+      setHostPairing(session.getSnapshot());
+      console.log("Generated QR data:", session.qrData);
     } catch (error) {
       console.error("Failed to generate QR code:", error);
       toast({
@@ -52,6 +110,41 @@ const QRLinking = () => {
     }
   };
 
+  const revokeQRCode = () => {
+    if (hostSession && hostPairing?.state === 'waiting_for_peer') {
+      hostSession.reject('QR code revoked');
+      toast({
+        title: "QR Code Revoked",
+        description: "This QR code can no longer be used to link a device.",
+      });
+    }
+    setHostSession(null);
+    setHostPairing(null);
+  };
+
+  const confirmPairing = async () => {
+    if (!hostSession) return;
+    try {
+      await hostSession.confirm();
+    } catch (error) {
+      console.error("Failed to confirm pairing:", error);
+      toast({
+        variant: "destructive",
+        title: "Linking Failed",
+        description: "Could not link the device. Please try again.",
+      });
+    }
+  };
+
+  const rejectPairing = () => {
+    hostSession?.reject('Codes did not match');
+    toast({
+      variant: "destructive",
+      title: "Pairing Rejected",
+      description: "The device was not linked.",
+    });
+  };
+
   const handleScanQRCode = () => {
     setScanMode(true);
     
@@ -124,30 +217,22 @@ const QRLinking = () => {
     processCode(code);
   };
 
-  const processCode = (code: string) => {
+  const processCode = async (code: string) => {
     try {
       console.log("Processing QR code data:", code);
-      const result = SecurePaySDK.processQRCodeData(code);
-      
-      if (result) {
-        console.log("Device linked successfully:", result);
-        toast({
-          title: "Device Linked",
-          description: `${result.name} has been linked as a trusted device.`,
-        });
-        
-        // Force refresh of trusted devices list 
-        const event = new CustomEvent('trustedDevicesUpdated');
-        window.dispatchEvent(event);
-      } else {
-        console.error("Invalid QR code data:", code);
+      const session = await SecurePaySDK.joinPairing(code);
+      setGuestSession(session);
+      setGuestPairing(session.getSnapshot());
+    } catch (error) {
+      if (error instanceof QRCodeError) {
+        console.error("Rejected QR code:", error.reason);
         toast({
           variant: "destructive",
-          title: "Invalid QR Code",
-          description: "The QR code is invalid or has expired.",
+          title: QR_ERROR_TITLES[error.reason],
+          description: error.message,
         });
+        return;
       }
-    } catch (error) {
       console.error("Failed to process QR code:", error);
       toast({
         variant: "destructive",
@@ -209,23 +294,59 @@ const QRLinking = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col items-center">
-            <div className="bg-white p-4 rounded-md border mb-4">
-              {qrData ? (
-                <QRCodeSVG value={qrData} size={200} />
-              ) : (
-                <div className="h-[200px] w-[200px] flex items-center justify-center bg-gray-100">
-                  <p className="text-gray-500">QR code not generated</p>
+            {hostPairing?.state === 'awaiting_confirmation' ? (
+              <div className="w-full space-y-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  {hostPairing.peerDevice?.deviceName || 'A device'} wants to link. Check that it shows the same code:
+                </p>
+                <p className="text-4xl font-mono font-bold tracking-widest">{hostPairing.shortAuthString}</p>
+                <div className="flex gap-2 justify-center">
+                  <Button variant="outline" onClick={rejectPairing}>
+                    Codes Don't Match
+                  </Button>
+                  <Button onClick={confirmPairing}>
+                    <ShieldCheck className="h-4 w-4 mr-2" /> Codes Match
+                  </Button>
                 </div>
-              )}
-            </div>
-            <p className="text-sm text-muted-foreground text-center mb-4">
-              This QR code will expire in 5 minutes for security
-            </p>
+              </div>
+            ) : hostPairing?.state === 'completed' ? (
+              <div className="bg-green-50 border border-green-200 rounded-md p-4 flex items-center gap-3 mb-4">
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+                <p className="text-green-800">
+                  {hostPairing.peerDevice?.deviceName || 'The device'} has been linked.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="bg-white p-4 rounded-md border mb-4">
+                  {hostSession && hostPairing?.state === 'waiting_for_peer' ? (
+                    <QRCodeSVG value={hostSession.qrData} size={200} />
+                  ) : (
+                    <div className="h-[200px] w-[200px] flex items-center justify-center bg-gray-100">
+                      <p className="text-gray-500">
+                        {hostPairing?.state === 'expired' ? 'QR code expired' : 'QR code not generated'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground text-center mb-4">
+                  This QR code can link one device and will expire in 5 minutes for security
+                </p>
+              </>
+            )}
           </CardContent>
-          <CardFooter className="flex justify-center">
+          <CardFooter className="flex justify-center gap-2">
             <Button onClick={generateNewQRCode} className="w-full flex items-center gap-2">
               <RefreshCw className="h-4 w-4" /> Generate New QR Code
             </Button>
+            <Button
+              variant="outline"
+              onClick={revokeQRCode}
+              disabled={hostPairing?.state !== 'waiting_for_peer'}
+              className="flex items-center gap-2"
+            >
+              <Ban className="h-4 w-4" /> Revoke
+            </Button>
           </CardFooter>
         </Card>
       </TabsContent>
@@ -242,7 +363,41 @@ const QRLinking = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {scanMode ? (
+            {guestPairing?.state === 'waiting_for_peer' ? (
+              <div className="space-y-4 text-center">
+                <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Exchanging keys with {guestPairing.peerDevice?.deviceName || 'your other device'}...
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setGuestSession(null);
+                    setGuestPairing(null);
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ) : guestPairing?.state === 'awaiting_confirmation' ? (
+              <div className="space-y-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Check that {guestPairing.peerDevice?.deviceName || 'your other device'} shows the same code, then confirm there:
+                </p>
+                <p className="text-4xl font-mono font-bold tracking-widest">{guestPairing.shortAuthString}</p>
+                <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Waiting for confirmation...
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setGuestSession(null);
+                    setGuestPairing(null);
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ) : scanMode ? (
               <div className="text-center">
                 <div className="bg-gray-100 rounded-md mb-4 overflow-hidden relative">
                   <video 
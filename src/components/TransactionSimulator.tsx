@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,8 +7,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
-import SecurePaySDK, { Transaction, TransactionVerificationResult, BiometricType } from '@/sdk/SecurePaySDK';
-import { CreditCard, ShieldCheck, ShieldAlert, AlertTriangle, Phone, Lock, Fingerprint, Scan } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import SecurePaySDK, { Money, MoneyError, MockVerificationChannelProvider, PasskeyError, VerificationChannel, VerificationCodeError, VerificationCodeResult, TotpVerificationResult, VerificationDeliveryError, getCurrencyExponent, Payee, PayeeStatus, Transaction, TransactionVerificationResult, BiometricType, BiometricSample, BiometricFallback, BiometricFallbackReason, BehaviorAssessment, BehaviorSignalType, DeviceDriftReport, EnvironmentRiskReport } from '@/sdk/SecurePaySDK';
+import { CreditCard, ShieldCheck, ShieldAlert, AlertTriangle, Phone, Lock, Fingerprint, Scan, UserPlus, UserMinus, KeyRound, MessageSquare } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import BiometricVerification from './BiometricVerification';
 
@@ -20,13 +21,28 @@ const TransactionSimulator = () => {
   const [verificationResult, setVerificationResult] = useState<TransactionVerificationResult | null>(null);
   const [isRegistered, setIsRegistered] = useState(SecurePaySDK.isDeviceRegistered());
   const [isCallVerified, setIsCallVerified] = useState(false);
+  const [isTotpVerified, setIsTotpVerified] = useState(false);
+  const [verificationFactor, setVerificationFactor] = useState<'call' | 'totp'>('call');
   const [isBiometricVerified, setIsBiometricVerified] = useState(false);
   const [verificationCode, setVerificationCode] = useState("");
+  const [outboxMessage, setOutboxMessage] = useState<string | null>(null);
   const [showVerificationInput, setShowVerificationInput] = useState(false);
   const [showBiometricVerification, setShowBiometricVerification] = useState(false);
   const [currentDevice, setCurrentDevice] = useState<any>(null);
   const [currentTransaction, setCurrentTransaction] = useState<Transaction | null>(null);
   const [biometricType, setBiometricType] = useState<BiometricType>('none');
+  const highValueThreshold = SecurePaySDK.getHighValueThreshold(currency);
+  const parsedAmount = parseAmount(amount, currency);
+  const isHighValue = parsedAmount !== null && SecurePaySDK.isHighValueTransaction(parsedAmount);
+  const [payees, setPayees] = useState<Payee[]>(SecurePaySDK.getPayees());
+  const payeeStatus = SecurePaySDK.getPayeeStatus(recipient);
+  const awaitingCall = !!verificationResult?.requiresCallVerification && !isCallVerified;
+  const awaitingTotp = !!verificationResult?.requiresTotpVerification && !isTotpVerified;
+  const awaitingStepUp = awaitingCall || awaitingTotp;
+  const formRef = useRef<HTMLDivElement>(null);
+  const amountRef = useRef<HTMLInputElement>(null);
+  const recipientRef = useRef<HTMLInputElement>(null);
+  const behaviorRef = useRef(SecurePaySDK.createBehaviorRecorder());
 
   useEffect(() => {
     // Check if device is already registered
@@ -37,30 +53,57 @@ const TransactionSimulator = () => {
     const device = SecurePaySDK.getCurrentDevice();
     setCurrentDevice(device);
     
-    if (device?.biometricType) {
-      setBiometricType(device.biometricType);
+    const preferredBiometric = SecurePaySDK.getBiometricType();
+    if (preferredBiometric) {
+      setBiometricType(preferredBiometric);
     }
   }, []);
 
+  // Record how the form is filled in; the form is not shown during biometric verification
+  useEffect(() => {
+    if (showBiometricVerification || !formRef.current || !amountRef.current || !recipientRef.current) {
+      return;
+    }
+    const recorder = behaviorRef.current;
+    const stops = [
+      recorder.observePointer(formRef.current),
+      recorder.observeField(amountRef.current, 'amount'),
+      recorder.observeField(recipientRef.current, 'recipient'),
+    ];
+    return () => stops.forEach(stop => stop());
+  }, [showBiometricVerification]);
+
   const simulateTransaction = () => {
     try {
       // Create a transaction object
       const transaction: Transaction = {
         id: `TXN-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
-        amount: parseFloat(amount),
-        currency,
+        amount: Money.parse(amount, currency),
         timestamp: new Date().toISOString(),
         recipient,
+        behavior: behaviorRef.current.summarize(),
       };
+      behaviorRef.current.reset();
       
       setCurrentTransaction(transaction);
       setIsBiometricVerified(false);
       setIsCallVerified(false);
+      setIsTotpVerified(false);
       setVerificationResult(null);
 
       // Check if biometric verification is required
       const bioType = SecurePaySDK.getBiometricType();
-      if (bioType && bioType !== 'none') {
+      if (bioType === 'passkey') {
+        // The browser shows its own passkey prompt
+        setBiometricType(bioType);
+        verifyWithPasskey(transaction);
+        return;
+      } else if (bioType && SecurePaySDK.getBiometricLockout().locked) {
+        // Biometrics are locked after failed attempts; the SDK picks another factor
+        setBiometricType(bioType);
+        performVerification(transaction);
+        return;
+      } else if (bioType && bioType !== 'none') {
         setBiometricType(bioType);
         setShowBiometricVerification(true);
         toast({
@@ -73,6 +116,14 @@ const TransactionSimulator = () => {
         performVerification(transaction);
       }
     } catch (error) {
+      if (error instanceof MoneyError) {
+        toast({
+          variant: "destructive",
+          title: "Invalid Amount",
+          description: error.message,
+        });
+        return;
+      }
       console.error("Transaction verification failed:", error);
       toast({
         variant: "destructive",
@@ -82,16 +133,33 @@ const TransactionSimulator = () => {
     }
   };
   
-  const performVerification = (transaction: Transaction) => {
-    const result = SecurePaySDK.verifyTransaction(transaction);
+  const performVerification = (transaction: Transaction, biometricUnavailable?: Exclude<BiometricFallbackReason, 'locked_out'>) => {
+    const result = SecurePaySDK.verifyTransaction(transaction, { biometricUnavailable });
     setVerificationResult(result);
+    setPayees(SecurePaySDK.getPayees());
     
-    if (result.requiresCallVerification) {
+    if (result.fallback) {
+      toast({
+        title: result.fallback.reason === 'locked_out' ? "Biometrics Locked" : "Camera Unavailable",
+        description: describeFallback(result.fallback),
+        variant: result.fallback.factor ? "default" : "destructive",
+      });
+      if (result.requiresPasskeyVerification) {
+        verifyWithPasskey(transaction);
+      }
+    } else if (result.requiresTotpVerification) {
+      toast({
+        title: "Authenticator Code Required",
+        description: "Enter the code from your authenticator app to approve this transaction.",
+      });
+    } else if (result.requiresCallVerification) {
       toast({
         title: "Call Verification Required",
         description: "This high-value transaction requires phone verification.",
         variant: "default",
       });
+    } else if (result.requiresBiometricVerification && biometricType === 'passkey') {
+      verifyWithPasskey(transaction);
     } else if (result.requiresBiometricVerification) {
       setShowBiometricVerification(true);
       toast({
@@ -107,7 +175,8 @@ const TransactionSimulator = () => {
     }
   };
 
-  const initiateCallVerification = () => {
+  const initiateCallVerification = async (channel: VerificationChannel) => {
+    if (!currentTransaction) return;
     if (!currentDevice?.phoneNumber) {
       toast({
         variant: "destructive",
@@ -117,18 +186,61 @@ const TransactionSimulator = () => {
       return;
     }
 
-    const code = SecurePaySDK.generateVerificationCode();
-    console.log(`Verification code generated: ${code}`); // In real app, this would be sent via API
+    let maskedDestination: string;
+    try {
+      ({ maskedDestination } = await SecurePaySDK.sendVerificationCode(currentTransaction, {
+        channel,
+        locale: navigator.language,
+      }));
+    } catch (error) {
+      if (error instanceof VerificationDeliveryError) {
+        toast({
+          variant: "destructive",
+          title: "Code Not Sent",
+          description: error.message,
+        });
+        return;
+      }
+      if (error instanceof VerificationCodeError) {
+        const seconds = Math.ceil(error.retryAfterMs / 1000);
+        toast({
+          variant: "destructive",
+          title: error.reason === 'locked_out' ? "Verification Locked" : "Code Already Sent",
+          description: `${error.message} (${seconds}s).`,
+        });
+        // A throttled resend leaves the earlier code usable
+        if (error.reason === 'resend_throttled') {
+          setVerificationFactor('call');
+          setShowVerificationInput(true);
+        }
+        return;
+      }
+      throw error;
+    }
+
+    // The demo has no real SMS or voice gateway; show what the mock provider recorded instead
+    const mockProvider = SecurePaySDK.getInstance().config.verificationProviders
+      .find(provider => provider instanceof MockVerificationChannelProvider) as MockVerificationChannelProvider | undefined;
+    setOutboxMessage(mockProvider?.getLatestMessage(currentDevice.phoneNumber)?.body || null);
 
     toast({
       title: "Verification Code Sent",
-      description: `A verification code has been sent to your phone ${currentDevice.phoneNumber.substring(0, 3)}***${currentDevice.phoneNumber.slice(-4)}`,
+      description: channel === 'voice'
+        ? `You will receive a call on ${maskedDestination} with your verification code`
+        : `A verification code has been sent to your phone ${maskedDestination}`,
     });
 
+    setVerificationFactor('call');
+    setShowVerificationInput(true);
+  };
+
+  const requestTotpCode = () => {
+    setVerificationFactor('totp');
+    setVerificationCode("");
     setShowVerificationInput(true);
   };
 
-  const verifyCode = () => {
+  const verifyCode = async () => {
     if (verificationCode.length !== 6) {
       toast({
         variant: "destructive",
@@ -138,20 +250,35 @@ const TransactionSimulator = () => {
       return;
     }
 
-    const isValid = SecurePaySDK.verifyCode(verificationCode);
+    if (!currentTransaction) return;
+    const result = verificationFactor === 'totp'
+      ? await SecurePaySDK.verifyTotp(verificationCode, currentTransaction)
+      : await SecurePaySDK.verifyCode(verificationCode, currentTransaction);
+    setVerificationCode("");
     
-    if (isValid) {
-      setIsCallVerified(true);
+    if (result.valid) {
+      if (verificationFactor === 'totp') {
+        setIsTotpVerified(true);
+      } else {
+        setIsCallVerified(true);
+      }
       setShowVerificationInput(false);
+      const stillAwaiting = verificationFactor === 'totp' ? awaitingCall : awaitingTotp;
       toast({
         title: "Verification Successful",
-        description: "Your transaction has been approved.",
+        description: stillAwaiting
+          ? "Code accepted. One more verification step is required."
+          : "Your transaction has been approved.",
       });
     } else {
+      // Codes that can no longer succeed send the user back to request a new one
+      if (result.reason !== 'incorrect') {
+        setShowVerificationInput(false);
+      }
       toast({
         variant: "destructive",
-        title: "Invalid Code",
-        description: "The verification code is incorrect. Please try again.",
+        title: result.reason === 'locked_out' ? "Verification Locked" : "Invalid Code",
+        description: describeCodeFailure(result),
       });
     }
   };
@@ -161,37 +288,88 @@ const TransactionSimulator = () => {
     setVerificationCode("");
   };
   
-  const handleBiometricVerified = () => {
+  const handleBiometricVerified = (sample: BiometricSample) => {
     setIsBiometricVerified(true);
     setShowBiometricVerification(false);
     
     if (currentTransaction) {
-      // Set the transaction as verified with biometrics
-      const updatedResult = {
-        verified: true,
-        riskLevel: 'low',
-        reason: 'Biometric verification successful',
-        recommendation: 'Allow transaction',
-        requiresCallVerification: parseFloat(amount) >= 10000, // Still require call verification for high amounts
-      };
-      
-      setVerificationResult(updatedResult);
-      
-      // If high value transaction, still need phone verification
-      if (parseFloat(amount) >= 10000) {
-        toast({
-          title: "Call Verification Required",
-          description: "Biometric verification successful. High-value transaction still requires phone verification.",
-        });
-      } else {
-        toast({
-          title: "Transaction Verified",
-          description: "Biometric verification successful. Transaction approved.",
-        });
+      // Re-run the risk rules now that the biometric check has passed
+      showBiometricOutcome(SecurePaySDK.verifyTransactionWithBiometric(currentTransaction, sample));
+    }
+  };
+  
+  const handleBiometricUnavailable = (reason: BiometricFallbackReason) => {
+    setShowBiometricVerification(false);
+    if (currentTransaction) {
+      performVerification(currentTransaction, reason === 'locked_out' ? undefined : reason);
+    }
+  };
+  
+  const verifyWithPasskey = async (transaction: Transaction) => {
+    try {
+      const updatedResult = await SecurePaySDK.verifyTransactionWithPasskey(transaction);
+      setIsBiometricVerified(updatedResult.verified);
+      showBiometricOutcome(updatedResult);
+    } catch (error) {
+      if (!(error instanceof PasskeyError)) {
+        throw error;
       }
+      setCurrentTransaction(null);
+      toast({
+        variant: "destructive",
+        title: error.reason === 'cancelled' ? "Passkey Cancelled" : "Passkey Unavailable",
+        description: error.reason === 'cancelled'
+          ? "The transaction was not approved. Simulate it again to retry."
+          : error.message,
+      });
     }
   };
   
+  const showBiometricOutcome = (updatedResult: TransactionVerificationResult) => {
+    setVerificationResult(updatedResult);
+    setPayees(SecurePaySDK.getPayees());
+    
+    // If high value transaction, still need a second factor
+    if (updatedResult.requiresTotpVerification) {
+      toast({
+        title: "Authenticator Code Required",
+        description: "Biometric verification successful. High-value transaction still requires an authenticator code.",
+      });
+    } else if (updatedResult.requiresCallVerification) {
+      toast({
+        title: "Call Verification Required",
+        description: "Biometric verification successful. High-value transaction still requires phone verification.",
+      });
+    } else {
+      toast({
+        title: updatedResult.verified ? "Transaction Verified" : "Transaction Blocked",
+        description: updatedResult.verified ? "Biometric verification successful. Transaction approved." : updatedResult.reason,
+        variant: updatedResult.verified ? "default" : "destructive",
+      });
+    }
+  };
+  
+  const togglePayee = () => {
+    if (!recipient.trim()) {
+      return;
+    }
+
+    if (payeeStatus === 'new') {
+      SecurePaySDK.addTrustedPayee(recipient);
+      toast({
+        title: "Payee Added",
+        description: `${recipient} is in its cooling-off period. Larger payments are limited until it ends.`,
+      });
+    } else {
+      SecurePaySDK.removeTrustedPayee(recipient);
+      toast({
+        title: "Payee Removed",
+        description: `The next payment to ${recipient} will be treated as a payment to a new payee.`,
+      });
+    }
+    setPayees(SecurePaySDK.getPayees());
+  };
+
   const cancelBiometricVerification = () => {
     setShowBiometricVerification(false);
     setVerificationResult(null);
@@ -244,20 +422,27 @@ const TransactionSimulator = () => {
           <BiometricVerification
             biometricType={biometricType}
             onVerified={handleBiometricVerified}
+            onUnavailable={handleBiometricUnavailable}
             onCancel={cancelBiometricVerification}
           />
         ) : (
-          <div className="space-y-4">
+          <div className="space-y-4" ref={formRef}>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="amount">Amount</Label>
                 <Input
+                  ref={amountRef}
                   id="amount"
                   type="number"
-                  step="0.01"
+                  step={Math.pow(10, -getCurrencyExponent(currency))}
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
                 />
+                <p className={`text-xs ${isHighValue ? "text-yellow-700" : "text-muted-foreground"}`}>
+                  {highValueThreshold === null
+                    ? `No exchange rate for ${currency}; call verification required`
+                    : `Call verification from ${highValueThreshold.format()}`}
+                </p>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="currency">Currency</Label>
@@ -276,24 +461,59 @@ const TransactionSimulator = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="recipient">Recipient</Label>
-              <Input
-                id="recipient"
-                value={recipient}
-                onChange={(e) => setRecipient(e.target.value)}
-              />
+              <div className="flex items-center justify-between">
+                <Label htmlFor="recipient">Recipient</Label>
+                <Badge variant={payeeStatus === 'established' ? "outline" : "secondary"}>
+                  {PAYEE_STATUS_LABELS[payeeStatus]}
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  ref={recipientRef}
+                  id="recipient"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  list="saved-payees"
+                />
+                <datalist id="saved-payees">
+                  {payees.map(payee => (
+                    <option key={payee.id} value={payee.name} />
+                  ))}
+                </datalist>
+                <Button variant="outline" onClick={togglePayee} disabled={!recipient.trim()}>
+                  {payeeStatus === 'new' ? (
+                    <>
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Add Payee
+                    </>
+                  ) : (
+                    <>
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Remove Payee
+                    </>
+                  )}
+                </Button>
+              </div>
             </div>
 
             {showVerificationInput && (
               <div className="mt-6 p-4 rounded-lg border bg-yellow-50 border-yellow-200 space-y-4">
                 <div className="flex items-center gap-2">
                   <Lock className="h-5 w-5 text-yellow-600" />
-                  <h3 className="font-medium text-yellow-800">Enter Verification Code</h3>
+                  <h3 className="font-medium text-yellow-800">
+                    {verificationFactor === 'totp' ? "Enter Authenticator Code" : "Enter Verification Code"}
+                  </h3>
                 </div>
                 <p className="text-sm text-yellow-700">
-                  A 6-digit verification code has been sent to your registered phone number.
-                  Please enter it below to verify this transaction.
+                  {verificationFactor === 'totp'
+                    ? "Open your authenticator app and enter the current 6-digit code for SecurePay to verify this transaction."
+                    : "A 6-digit verification code has been sent to your registered phone number. Please enter it below to verify this transaction."}
                 </p>
+                {verificationFactor === 'call' && outboxMessage && (
+                  <p className="text-xs text-muted-foreground border rounded-md p-2 bg-white">
+                    Demo outbox: {outboxMessage}
+                  </p>
+                )}
                 
                 <div className="flex justify-center py-2">
                   <InputOTP maxLength={6} value={verificationCode} onChange={setVerificationCode}>
@@ -321,14 +541,16 @@ const TransactionSimulator = () => {
 
             {verificationResult && !showVerificationInput && (
               <div className={`mt-6 p-4 rounded-lg border ${
-                verificationResult.requiresCallVerification && !isCallVerified 
+                awaitingStepUp
                   ? "bg-yellow-50 border-yellow-200"
                   : verificationResult.verified 
                     ? "bg-green-50 border-green-200" 
                     : "bg-red-50 border-red-200"
               }`}>
                 <div className="flex items-start gap-3">
-                  {verificationResult.requiresCallVerification && !isCallVerified ? (
+                  {awaitingTotp ? (
+                    <KeyRound className="h-6 w-6 text-yellow-600 mt-1" />
+                  ) : awaitingCall ? (
                     <Phone className="h-6 w-6 text-yellow-600 mt-1" />
                   ) : verificationResult.verified ? (
                     <ShieldCheck className="h-6 w-6 text-green-600 mt-1" />
@@ -337,20 +559,24 @@ const TransactionSimulator = () => {
                   )}
                   <div>
                     <h3 className={`font-medium ${
-                      verificationResult.requiresCallVerification && !isCallVerified
+                      awaitingStepUp
                         ? "text-yellow-800"
                         : verificationResult.verified 
                           ? "text-green-800" 
                           : "text-red-800"
                     }`}>
-                      {verificationResult.requiresCallVerification && !isCallVerified
+                      {awaitingTotp
+                        ? "Authenticator Code Required"
+                        : awaitingCall
                         ? "Call Verification Required"
                         : verificationResult.verified 
                           ? "Transaction Approved" 
-                          : "Transaction Blocked"}
+                          : verificationResult.action === 'review'
+                            ? "Transaction Held for Review"
+                            : "Transaction Blocked"}
                     </h3>
                     <p className={
-                      verificationResult.requiresCallVerification && !isCallVerified
+                      awaitingStepUp
                         ? "text-yellow-700"
                         : verificationResult.verified 
                           ? "text-green-700" 
@@ -358,24 +584,71 @@ const TransactionSimulator = () => {
                     }>
                       {verificationResult.reason}
                     </p>
+                    {verificationResult.fallback && (
+                      <p className="text-sm mt-2">
+                        {describeFallback(verificationResult.fallback)}
+                      </p>
+                    )}
                     <p className="text-sm mt-2">
                       Risk Level: <span className="font-medium">{verificationResult.riskLevel.toUpperCase()}</span>
                     </p>
                     <p className="text-sm">
                       Recommendation: {verificationResult.recommendation}
                     </p>
+                    {verificationResult.firedRules.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Rules fired: {verificationResult.firedRules.map(rule => rule.id).join(', ')}
+                      </p>
+                    )}
+                    {verificationResult.behavior && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeBehavior(verificationResult.behavior)}
+                      </p>
+                    )}
+                    {verificationResult.deviceDrift && verificationResult.deviceDrift.drift !== 'none' && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeDeviceDrift(verificationResult.deviceDrift, !!verificationResult.deviceTrustDowngraded)}
+                      </p>
+                    )}
+                    {verificationResult.environment && verificationResult.environment.score > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeEnvironment(verificationResult.environment)}
+                      </p>
+                    )}
                     
-                    {verificationResult.requiresCallVerification && !isCallVerified && (
+                    {awaitingTotp && (
                       <Button 
                         className="mt-3 bg-yellow-500 hover:bg-yellow-600" 
                         size="sm"
-                        onClick={initiateCallVerification}
-                        disabled={!currentDevice?.phoneNumber}
+                        onClick={requestTotpCode}
                       >
-                        <Phone className="h-4 w-4 mr-2" />
-                        Receive Verification Code
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        Enter Authenticator Code
                       </Button>
                     )}
+
+                    {awaitingCall && !awaitingTotp && (
+                      <div className="flex gap-2 mt-3">
+                        <Button 
+                          className="bg-yellow-500 hover:bg-yellow-600" 
+                          size="sm"
+                          onClick={() => initiateCallVerification('sms')}
+                          disabled={!currentDevice?.phoneNumber}
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Text Me a Code
+                        </Button>
+                        <Button 
+                          className="bg-yellow-500 hover:bg-yellow-600" 
+                          size="sm"
+                          onClick={() => initiateCallVerification('voice')}
+                          disabled={!currentDevice?.phoneNumber}
+                        >
+                          <Phone className="h-4 w-4 mr-2" />
+                          Call Me With a Code
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -399,4 +672,93 @@ const TransactionSimulator = () => {
   );
 };
 
+const PAYEE_STATUS_LABELS: Record<PayeeStatus, string> = {
+  new: "New payee",
+  cooling_off: "Cooling off",
+  established: "Known payee",
+};
+
+function parseAmount(amount: string, currency: string): Money | null {
+  try {
+    return Money.parse(amount, currency);
+  } catch {
+    return null;
+  }
+}
+
+function describeCodeFailure(result: VerificationCodeResult | TotpVerificationResult): string {
+  switch (result.reason) {
+    case 'not_enrolled':
+      return "No authenticator app is enrolled on this device.";
+    case 'expired':
+      return "The verification code has expired. Request a new one.";
+    case 'no_code':
+      return "No verification code is outstanding. Request a new one.";
+    case 'transaction_mismatch':
+      return "This code was issued for a different transaction. Request a new one.";
+    case 'locked_out':
+      return `Too many incorrect codes. Try again in ${Math.ceil((result.retryAfterMs || 0) / 60000)} minutes.`;
+    default:
+      return result.attemptsRemaining !== undefined
+        ? `The verification code is incorrect. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining.`
+        : "The verification code is incorrect. Please try again.";
+  }
+}
+
+const BEHAVIOR_SIGNAL_LABELS: Record<BehaviorSignalType, string> = {
+  paste: "pasted",
+  untyped_input: "input without typing",
+  duration: "entry time",
+  key_hold: "key press length",
+  key_interval: "typing speed",
+  key_rhythm: "typing rhythm",
+  corrections: "corrections",
+  pointer_speed: "pointer speed",
+  field_dwell: "time in field",
+};
+
+function describeBehavior(behavior: BehaviorAssessment): string {
+  const signals = behavior.signals
+    .map(s => s.field ? `${BEHAVIOR_SIGNAL_LABELS[s.signal]} (${s.field})` : BEHAVIOR_SIGNAL_LABELS[s.signal])
+    .join(', ');
+  return `Behaviour score: ${Math.round(behavior.score * 100)}%${signals ? ` from ${signals}` : ''}; `
+    + `baseline learned from ${behavior.baselineSamples} transaction${behavior.baselineSamples === 1 ? '' : 's'}`;
+}
+
+function describeDeviceDrift(drift: DeviceDriftReport, trustDowngraded: boolean): string {
+  const changed = `${drift.changed.join(', ')} changed; ${Math.round(drift.score * 100)}% similar`;
+  if (trustDowngraded) {
+    return `This device no longer matches its registration (${changed}). Register it again to trust it.`;
+  }
+  return drift.drift === 'benign'
+    ? `Device updated since it was registered (${changed}).`
+    : `Device changed significantly since it was registered (${changed}).`;
+}
+
+function describeEnvironment(environment: EnvironmentRiskReport): string {
+  const kinds = [
+    environment.automated && "automated",
+    environment.headless && "headless",
+    environment.emulated && "emulated",
+  ].filter(Boolean).join(", ");
+  const detected = environment.checks.filter(check => check.detected).map(check => check.detail || check.id).join("; ");
+  return `Environment risk: ${Math.round(environment.score * 100)}% (${kinds}): ${detected}`;
+}
+
+function describeFallback(fallback: BiometricFallback): string {
+  const cause = fallback.reason === 'locked_out'
+    ? `Too many failed biometric attempts; biometrics unlock in ${Math.ceil((fallback.retryAfterMs || 0) / 60000)} minutes.`
+    : "The camera could not be used for biometric verification.";
+  switch (fallback.factor) {
+    case 'passkey':
+      return `${cause} Approve the transaction with your passkey instead.`;
+    case 'totp':
+      return `${cause} Enter the code from your authenticator app instead.`;
+    case 'otp':
+      return `${cause} Verify with a code sent to your phone instead.`;
+    default:
+      return `${cause} No other verification method is set up on this device.`;
+  }
+}
+
 export default TransactionSimulator;
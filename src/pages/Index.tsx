@@ -17,25 +17,28 @@ import { ShieldCheck, ShieldAlert } from 'lucide-react';
 const Index = () => {
   const { toast } = useToast();
   const [isInitialized, setIsInitialized] = useState(false);
+  const [initFailed, setInitFailed] = useState(false);
   
   useEffect(() => {
     // Initialize the SDK
-    try {
-      SecurePaySDK.init();
-      setIsInitialized(true);
-      toast({
-        title: "SDK Initialized",
-        description: "SecurePay SDK has been successfully initialized.",
+    SecurePaySDK.init()
+      .then(() => {
+        setIsInitialized(true);
+        toast({
+          title: "SDK Initialized",
+          description: "SecurePay SDK has been successfully initialized.",
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to initialize SDK:", error);
+        setInitFailed(true);
+        toast({
+          variant: "destructive",
+          title: "Initialization Failed",
+          description: "Could not initialize the SecurePay SDK.",
+        });
       });
-    } catch (error) {
-      console.error("Failed to initialize SDK:", error);
-      toast({
-        variant: "destructive",
-        title: "Initialization Failed",
-        description: "Could not initialize the SecurePay SDK.",
-      });
-    }
-  }, []);
+  }, [toast]);
 
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
@@ -50,7 +53,7 @@ const Index = () => {
           </p>
         </header>
 
-        {!isInitialized ? (
+        {initFailed ? (
           <div className="flex justify-center">
             <Alert variant="destructive">
               <ShieldAlert className="h-4 w-4" />
@@ -60,6 +63,10 @@ const Index = () => {
               </AlertDescription>
             </Alert>
           </div>
+        ) : !isInitialized ? (
+          <div className="flex justify-center">
+            <p className="text-muted-foreground">Initializing SecurePay SDK...</p>
+          </div>
         ) : (
           <Tabs defaultValue="register" className="w-full">
             <TabsList className="grid grid-cols-4 mb-8">
@@ -0,0 +1,212 @@
+/**
+ * BehaviorBaseline.ts
+ * Learns how the account holder usually fills in payments and scores how far a new entry departs from it
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Logger } from './SecurePayConfig';
+import { BehaviorFeatures } from './BehaviorRecorder';
+
+export interface BehaviorBaselineOptions {
+  /**
+   * Entries learned before departures from the baseline count towards the score
+   */
+  minSamples: number;
+  logger: Logger;
+}
+
+/**
+ * paste: something was pasted into `field` by someone who does not usually paste
+ * untyped_input: a field changed without typing or pasting, as when input is injected remotely
+ * The others are measurements that differ from the baseline
+ */
+export type BehaviorSignalType =
+  | 'paste'
+  | 'untyped_input'
+  | 'duration'
+  | 'key_hold'
+  | 'key_interval'
+  | 'key_rhythm'
+  | 'corrections'
+  | 'pointer_speed'
+  | 'field_dwell';
+
+export interface BehaviorSignal {
+  signal: BehaviorSignalType;
+  field?: string;
+  /**
+   * Share of the score this signal accounts for
+   */
+  contribution: number;
+}
+
+export interface BehaviorAssessment {
+  /**
+   * 0 for an entry like the account holder's usual ones, up to 1 for a very different one
+   */
+  score: number;
+  /**
+   * What raised the score, largest first
+   */
+  signals: BehaviorSignal[];
+  /**
+   * Entries the baseline has learned from
+   */
+  baselineSamples: number;
+}
+
+/**
+ * Running mean and sum of squared deviations (Welford)
+ */
+interface RunningStat {
+  count: number;
+  mean: number;
+  m2: number;
+}
+
+interface StoredBaseline {
+  samples: number;
+  /**
+   * Entries that included a paste
+   */
+  pastes: number;
+  measurements: Record<string, RunningStat>;
+  /**
+   * Transactions already learned from, newest last, so re-checking one does not count it twice
+   */
+  learned: string[];
+}
+
+// Share of the score that departures from the baseline can account for
+const DEVIATION_WEIGHT = 0.6;
+// Standard deviations at which a measurement counts as fully unusual, and from which it is reported
+const FULL_DEVIATION = 4;
+const REPORTED_DEVIATION = 2;
+// Smallest spread assumed, so a very consistent baseline does not make every small change look extreme
+const MIN_SPREAD = 0.1;
+const PASTE_WEIGHT = 0.35;
+const UNTYPED_INPUT_WEIGHT = 0.35;
+// Account holders who paste at least this often are not flagged for it
+const HABITUAL_PASTE_RATE = 0.25;
+const LEARNED_HISTORY = 20;
+
+export class BehaviorBaseline {
+  private static readonly BASELINE_KEY = 'behavior_baseline';
+
+  /**
+   * Storage keys holding the account holder's typing and pointer profile; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [BehaviorBaseline.BASELINE_KEY];
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: BehaviorBaselineOptions
+  ) {}
+
+  public assess(features: BehaviorFeatures): BehaviorAssessment {
+    const baseline = this.readBaseline();
+    const established = baseline.samples >= this.options.minSamples;
+    const signals: BehaviorSignal[] = [];
+
+    const pasteRate = established ? baseline.pastes / baseline.samples : 0;
+    if (pasteRate < HABITUAL_PASTE_RATE) {
+      features.pastedFields.forEach(field => signals.push({ signal: 'paste', field, contribution: PASTE_WEIGHT }));
+    }
+    if (features.untypedInputs > 0) {
+      signals.push({ signal: 'untyped_input', contribution: UNTYPED_INPUT_WEIGHT });
+    }
+
+    if (established) {
+      const deviations: { key: string; deviation: number }[] = [];
+      Object.entries(measure(features)).forEach(([key, value]) => {
+        const stat = baseline.measurements[key];
+        if (!stat || stat.count < this.options.minSamples) {
+          return;
+        }
+        const spread = Math.max(Math.sqrt(stat.m2 / (stat.count - 1)), MIN_SPREAD);
+        deviations.push({ key, deviation: Math.min(1, Math.abs(value - stat.mean) / spread / FULL_DEVIATION) });
+      });
+      deviations.forEach(({ key, deviation }) => {
+        if (deviation * FULL_DEVIATION >= REPORTED_DEVIATION) {
+          const [signal, field] = key.split(':') as [BehaviorSignalType, string | undefined];
+          signals.push({ signal, ...(field ? { field } : {}), contribution: round(DEVIATION_WEIGHT * deviation / deviations.length) });
+        }
+      });
+    }
+
+    return {
+      score: round(Math.min(1, signals.reduce((sum, s) => sum + s.contribution, 0))),
+      signals: signals.sort((a, b) => b.contribution - a.contribution),
+      baselineSamples: baseline.samples,
+    };
+  }
+
+  /**
+   * Add an approved entry to the baseline. An entry is learned once however often its transaction is checked
+   */
+  public learn(transactionId: string, features: BehaviorFeatures): void {
+    const baseline = this.readBaseline();
+    if (baseline.learned.includes(transactionId)) {
+      return;
+    }
+
+    Object.entries(measure(features)).forEach(([key, value]) => {
+      const stat = baseline.measurements[key] || { count: 0, mean: 0, m2: 0 };
+      const count = stat.count + 1;
+      const delta = value - stat.mean;
+      const mean = stat.mean + delta / count;
+      baseline.measurements[key] = { count, mean, m2: stat.m2 + delta * (value - mean) };
+    });
+    baseline.samples += 1;
+    baseline.pastes += features.pastedFields.length > 0 ? 1 : 0;
+    baseline.learned = [...baseline.learned, transactionId].slice(-LEARNED_HISTORY);
+    this.storage.setItem(BehaviorBaseline.BASELINE_KEY, JSON.stringify(baseline));
+  }
+
+  /**
+   * Forget the baseline, e.g. when the account changes hands
+   */
+  public reset(): void {
+    this.storage.removeItem(BehaviorBaseline.BASELINE_KEY);
+  }
+
+  private readBaseline(): StoredBaseline {
+    const empty: StoredBaseline = { samples: 0, pastes: 0, measurements: {}, learned: [] };
+    const stored = this.storage.getItem(BehaviorBaseline.BASELINE_KEY);
+    if (!stored) {
+      return empty;
+    }
+
+    try {
+      return { ...empty, ...JSON.parse(stored) };
+    } catch (error) {
+      this.options.logger.error("Failed to parse behavior baseline:", error);
+      return empty;
+    }
+  }
+}
+
+/**
+ * Measurements compared against the baseline, keyed by signal and, for per-field ones, field.
+ * Times and speeds are compared on a log scale, where a change by the same factor weighs the same
+ */
+function measure(features: BehaviorFeatures): Record<string, number> {
+  const measurements: Record<string, number> = {};
+  const add = (key: string, value: number | null) => {
+    if (value !== null && Number.isFinite(value)) {
+      measurements[key] = value;
+    }
+  };
+
+  add('duration', features.durationMs > 0 ? Math.log(features.durationMs) : null);
+  add('key_hold', features.meanKeyHoldMs !== null ? Math.log1p(features.meanKeyHoldMs) : null);
+  add('key_interval', features.meanKeyIntervalMs !== null ? Math.log1p(features.meanKeyIntervalMs) : null);
+  add('key_rhythm', features.keyIntervalVariation);
+  add('corrections', features.keystrokes > 0 ? features.corrections / features.keystrokes : null);
+  add('pointer_speed', features.meanPointerSpeed !== null ? Math.log1p(features.meanPointerSpeed) : null);
+  Object.entries(features.fieldDwellMs).forEach(([field, ms]) => add(`field_dwell:${field}`, Math.log1p(ms)));
+  return measurements;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,219 @@
+/**
+ * BehaviorRecorder.ts
+ * Passively records how a payment form is filled in: keystroke timing, pastes, pointer movement
+ * and time spent in each field. Which keys were pressed and what the fields contain are never recorded
+ */
+
+/**
+ * Times are milliseconds on the page's event clock (`Event.timeStamp`)
+ */
+export type BehaviorEvent =
+  | { type: 'keystroke'; field: string; t: number; holdMs: number; correction: boolean }
+  | { type: 'paste'; field: string; t: number }
+  /**
+   * The field's value changed. `typed` is false when no keystroke came before it, as with autofill or injected input
+   */
+  | { type: 'input'; field: string; t: number; typed: boolean }
+  | { type: 'focus' | 'blur'; field: string; t: number }
+  | { type: 'pointer'; t: number; x: number; y: number; touch: boolean };
+
+/**
+ * Summary of one form entry, attached to the transaction it produced
+ */
+export interface BehaviorFeatures {
+  /**
+   * From the first recorded event to the last
+   */
+  durationMs: number;
+  keystrokes: number;
+  meanKeyHoldMs: number | null;
+  meanKeyIntervalMs: number | null;
+  /**
+   * Spread of the intervals between keystrokes relative to their mean. Scripted input is unnaturally even
+   */
+  keyIntervalVariation: number | null;
+  /**
+   * Backspace and Delete presses
+   */
+  corrections: number;
+  /**
+   * Fields something was pasted into
+   */
+  pastedFields: string[];
+  /**
+   * Value changes without a keystroke or paste
+   */
+  untypedInputs: number;
+  pointerMoves: number;
+  /**
+   * Pixels per millisecond
+   */
+  meanPointerSpeed: number | null;
+  touch: boolean;
+  /**
+   * Time each field had focus
+   */
+  fieldDwellMs: Record<string, number>;
+}
+
+// Events kept per entry; a long session stops recording rather than growing without bound
+const MAX_EVENTS = 5000;
+// Pauses longer than this are thinking, not typing rhythm
+const MAX_KEY_INTERVAL_MS = 2000;
+// Pointer samples further apart than this start a new movement
+const MAX_POINTER_GAP_MS = 200;
+
+export class BehaviorRecorder {
+  private events: BehaviorEvent[] = [];
+
+  public record(event: BehaviorEvent): void {
+    if (this.events.length < MAX_EVENTS) {
+      this.events.push(event);
+    }
+  }
+
+  /**
+   * Record typing, pastes and focus on an input. Returns a function that stops recording
+   */
+  public observeField(element: HTMLElement, field: string): () => void {
+    const pressed = new Map<string, number>();
+    // Whether a key went down since the field's value last changed
+    let keyed = false;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!event.repeat) {
+        pressed.set(event.code, event.timeStamp);
+      }
+      keyed = true;
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      const down = pressed.get(event.code);
+      if (down === undefined) {
+        return;
+      }
+      pressed.delete(event.code);
+      this.record({
+        type: 'keystroke',
+        field,
+        t: down,
+        holdMs: event.timeStamp - down,
+        correction: event.key === 'Backspace' || event.key === 'Delete',
+      });
+    };
+    const onPaste = (event: Event) => {
+      keyed = false;
+      this.record({ type: 'paste', field, t: event.timeStamp });
+    };
+    const onInput = (event: Event) => {
+      const inputType = (event as InputEvent).inputType;
+      if (inputType !== 'insertFromPaste' && inputType !== 'insertFromDrop') {
+        this.record({ type: 'input', field, t: event.timeStamp, typed: keyed });
+      }
+      keyed = false;
+    };
+    const onFocus = (event: Event) => this.record({ type: 'focus', field, t: event.timeStamp });
+    const onBlur = (event: Event) => this.record({ type: 'blur', field, t: event.timeStamp });
+
+    const listeners: [string, EventListener][] = [
+      ['keydown', onKeyDown as EventListener],
+      ['keyup', onKeyUp as EventListener],
+      ['paste', onPaste],
+      ['input', onInput],
+      ['focus', onFocus],
+      ['blur', onBlur],
+    ];
+    listeners.forEach(([type, listener]) => element.addEventListener(type, listener));
+    return () => listeners.forEach(([type, listener]) => element.removeEventListener(type, listener));
+  }
+
+  /**
+   * Record mouse, pen and touch movement over an element, usually the whole form.
+   * Returns a function that stops recording
+   */
+  public observePointer(element: HTMLElement): () => void {
+    const onPointerMove = (event: PointerEvent) => this.record({
+      type: 'pointer',
+      t: event.timeStamp,
+      x: event.clientX,
+      y: event.clientY,
+      touch: event.pointerType === 'touch',
+    });
+    element.addEventListener('pointermove', onPointerMove);
+    return () => element.removeEventListener('pointermove', onPointerMove);
+  }
+
+  public summarize(): BehaviorFeatures {
+    const events = [...this.events].sort((a, b) => a.t - b.t);
+
+    const keystrokes = events.filter((e): e is Extract<BehaviorEvent, { type: 'keystroke' }> => e.type === 'keystroke');
+    const intervals: number[] = [];
+    for (let i = 1; i < keystrokes.length; i++) {
+      const interval = keystrokes[i].t - keystrokes[i - 1].t;
+      if (interval <= MAX_KEY_INTERVAL_MS) {
+        intervals.push(interval);
+      }
+    }
+    const meanKeyIntervalMs = mean(intervals);
+
+    const pointer = events.filter((e): e is Extract<BehaviorEvent, { type: 'pointer' }> => e.type === 'pointer');
+    const speeds: number[] = [];
+    for (let i = 1; i < pointer.length; i++) {
+      const gap = pointer[i].t - pointer[i - 1].t;
+      if (gap > 0 && gap <= MAX_POINTER_GAP_MS) {
+        speeds.push(Math.hypot(pointer[i].x - pointer[i - 1].x, pointer[i].y - pointer[i - 1].y) / gap);
+      }
+    }
+
+    return {
+      durationMs: events.length > 1 ? events[events.length - 1].t - events[0].t : 0,
+      keystrokes: keystrokes.length,
+      meanKeyHoldMs: mean(keystrokes.map(k => k.holdMs)),
+      meanKeyIntervalMs,
+      keyIntervalVariation: intervals.length > 1 && meanKeyIntervalMs ? standardDeviation(intervals) / meanKeyIntervalMs : null,
+      corrections: keystrokes.filter(k => k.correction).length,
+      pastedFields: [...new Set(events.flatMap(e => e.type === 'paste' ? [e.field] : []))],
+      untypedInputs: events.filter(e => e.type === 'input' && !e.typed).length,
+      pointerMoves: pointer.length,
+      meanPointerSpeed: mean(speeds),
+      touch: pointer.some(p => p.touch),
+      fieldDwellMs: fieldDwell(events),
+    };
+  }
+
+  /**
+   * Forget everything recorded, e.g. once the entry has been submitted
+   */
+  public reset(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Focus to blur per field; a field still focused counts up to the last event
+ */
+function fieldDwell(events: BehaviorEvent[]): Record<string, number> {
+  const dwell: Record<string, number> = {};
+  const focusedAt = new Map<string, number>();
+  for (const event of events) {
+    if (event.type === 'focus') {
+      focusedAt.set(event.field, event.t);
+    } else if (event.type === 'blur' && focusedAt.has(event.field)) {
+      dwell[event.field] = (dwell[event.field] || 0) + event.t - focusedAt.get(event.field)!;
+      focusedAt.delete(event.field);
+    }
+  }
+  const last = events.length ? events[events.length - 1].t : 0;
+  focusedAt.forEach((t, field) => {
+    dwell[field] = (dwell[field] || 0) + last - t;
+  });
+  return dwell;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values) || 0;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+}
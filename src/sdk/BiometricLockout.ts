@@ -0,0 +1,127 @@
+/**
+ * BiometricLockout.ts
+ * Counts consecutive failed biometric attempts per device and locks biometrics after too many
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+
+/**
+ * Factors that can stand in for biometrics, in the order the config lists them.
+ * otp is a code sent to the device's phone number
+ */
+export const BIOMETRIC_FALLBACK_FACTORS = ['passkey', 'totp', 'otp'] as const;
+
+export type BiometricFallbackFactor = typeof BIOMETRIC_FALLBACK_FACTORS[number];
+
+/**
+ * locked_out: too many failed attempts; biometrics are locked for a while
+ * camera_unavailable: the camera was denied or is missing, so a face cannot be captured
+ */
+export type BiometricFallbackReason = 'locked_out' | 'camera_unavailable';
+
+export interface BiometricLockoutOptions {
+  /**
+   * Consecutive failures allowed before biometrics lock
+   */
+  maxAttempts: number;
+  lockoutMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+export interface BiometricLockoutStatus {
+  locked: boolean;
+  /**
+   * Failures left before locking; 0 while locked
+   */
+  attemptsRemaining: number;
+  /**
+   * While locked, how long until biometrics can be tried again
+   */
+  retryAfterMs?: number;
+}
+
+interface StoredLockoutState {
+  /**
+   * Failures since the last success or lockout
+   */
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+export class BiometricLockout {
+  private static readonly LOCKOUT_KEY = 'biometric_lockout';
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: BiometricLockoutOptions
+  ) {}
+
+  public getStatus(deviceId: string): BiometricLockoutStatus {
+    const state = this.readStates()[deviceId] || { failedAttempts: 0 };
+    const lockedFor = this.lockedFor(state);
+    if (lockedFor > 0) {
+      return { locked: true, attemptsRemaining: 0, retryAfterMs: lockedFor };
+    }
+    // A lockout that has run out leaves a fresh set of attempts
+    const failedAttempts = state.lockedUntil ? 0 : state.failedAttempts;
+    return { locked: false, attemptsRemaining: this.options.maxAttempts - failedAttempts };
+  }
+
+  /**
+   * Count a failed attempt, locking biometrics once `maxAttempts` is reached
+   */
+  public recordFailure(deviceId: string): BiometricLockoutStatus {
+    const { clock, maxAttempts, lockoutMs, logger } = this.options;
+    const states = this.readStates();
+    const state = states[deviceId];
+    const failedAttempts = (state && !state.lockedUntil ? state.failedAttempts : 0) + 1;
+
+    if (failedAttempts >= maxAttempts) {
+      logger.warn("Biometric verification locked after too many failed attempts");
+      states[deviceId] = { failedAttempts: 0, lockedUntil: new Date(clock.now() + lockoutMs).toISOString() };
+      this.saveStates(states);
+      return { locked: true, attemptsRemaining: 0, retryAfterMs: lockoutMs };
+    }
+
+    states[deviceId] = { failedAttempts };
+    this.saveStates(states);
+    return { locked: false, attemptsRemaining: maxAttempts - failedAttempts };
+  }
+
+  /**
+   * A successful attempt clears the count
+   */
+  public recordSuccess(deviceId: string): void {
+    const states = this.readStates();
+    if (states[deviceId]) {
+      delete states[deviceId];
+      this.saveStates(states);
+    }
+  }
+
+  private lockedFor(state: StoredLockoutState): number {
+    if (!state.lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, new Date(state.lockedUntil).getTime() - this.options.clock.now());
+  }
+
+  private readStates(): Record<string, StoredLockoutState> {
+    const stored = this.storage.getItem(BiometricLockout.LOCKOUT_KEY);
+    if (!stored) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.options.logger.error("Failed to parse biometric lockout state:", error);
+      return {};
+    }
+  }
+
+  private saveStates(states: Record<string, StoredLockoutState>): void {
+    this.storage.setItem(BiometricLockout.LOCKOUT_KEY, JSON.stringify(states));
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * CryptoUtils.ts
+ * Encoding helpers shared by the SDK's WebCrypto based features
+ */
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function utf8Encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+export function utf8Decode(bytes: ArrayBuffer | Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Whether the runtime exposes WebCrypto (browsers in a secure context, Node 19+)
+ */
+export function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * RFC 4648 base32 without padding, as used by authenticator apps
+ */
+export function bytesToBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32ToBytes(base32: string): Uint8Array {
+  const clean = base32.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * RFC 4648 base64url without padding, as used by WebAuthn
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlToBytes(base64url: string): Uint8Array {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+/**
+ * Convert an ECDSA signature from WebCrypto's r||s form to the ASN.1 DER form WebAuthn uses
+ */
+export function ecdsaRawToDer(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  const encodeInteger = (value: Uint8Array): Uint8Array => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) {
+      start++;
+    }
+    const trimmed = value.slice(start);
+    // A leading high bit would make the integer negative
+    const body = trimmed[0] & 0x80 ? concatBytes(new Uint8Array([0]), trimmed) : trimmed;
+    return concatBytes(new Uint8Array([0x02, body.length]), body);
+  };
+  const sequence = concatBytes(encodeInteger(raw.slice(0, half)), encodeInteger(raw.slice(half)));
+  return concatBytes(new Uint8Array([0x30, sequence.length]), sequence);
+}
+
+/**
+ * Convert an ASN.1 DER ECDSA signature to the fixed-length r||s form WebCrypto verifies
+ */
+export function ecdsaDerToRaw(der: Uint8Array, componentLength: number): Uint8Array {
+  if (der[0] !== 0x30) {
+    throw new Error("Signature is not a DER sequence");
+  }
+  let offset = 2;
+  const readInteger = (): Uint8Array => {
+    if (der[offset] !== 0x02) {
+      throw new Error("Signature component is not a DER integer");
+    }
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (value.length > componentLength && value[0] === 0) {
+      value = value.slice(1);
+    }
+    if (value.length > componentLength) {
+      throw new Error("Signature component is too long");
+    }
+    const padded = new Uint8Array(componentLength);
+    padded.set(value, componentLength - value.length);
+    return padded;
+  };
+  return concatBytes(readInteger(), readInteger());
+}
@@ -0,0 +1,175 @@
+/**
+ * DeviceDetails.ts
+ * Works out the browser, operating system and device model, from User-Agent Client Hints
+ * where the browser offers them and from the user agent string otherwise
+ */
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export interface DeviceDetails {
+  browserName: string | null;
+  browserVersion: string | null;
+  osName: string | null;
+  osVersion: string | null;
+  /**
+   * e.g. "Pixel 8" or "iPhone"; null when the browser does not reveal it, as desktop browsers do not
+   */
+  deviceModel: string | null;
+  deviceType: DeviceType;
+}
+
+interface UserAgentBrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * The parts of `navigator.userAgentData` used here; only Chromium-based browsers provide it
+ */
+interface UserAgentData {
+  brands: UserAgentBrand[];
+  mobile: boolean;
+  platform: string;
+  getHighEntropyValues(hints: string[]): Promise<{
+    platformVersion?: string;
+    model?: string;
+    fullVersionList?: UserAgentBrand[];
+  }>;
+}
+
+const UNKNOWN_DETAILS: DeviceDetails = {
+  browserName: null,
+  browserVersion: null,
+  osName: null,
+  osVersion: null,
+  deviceModel: null,
+  deviceType: 'unknown',
+};
+
+// In order, since Chromium-based browsers also identify as Chrome and Safari, and Chrome as Safari
+const USER_AGENT_BROWSERS: [RegExp, string][] = [
+  [/(?:Edg|EdgA|EdgiOS)\/([\d.]+)/, 'Edge'],
+  [/(?:OPR|OPiOS)\/([\d.]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d.]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d.]+)/, 'Firefox'],
+  [/(?:CriOS|Chrome)\/([\d.]+)/, 'Chrome'],
+  [/Version\/([\d.]+).*Safari\//, 'Safari'],
+];
+
+// Windows NT versions in user agents, by release name
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+};
+
+// Client Hints brand names shown under their usual short names
+const BRAND_NAMES: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Microsoft Edge': 'Edge',
+};
+
+// Where the model would be, reduced user agents put K and Firefox puts the form factor
+const ANDROID_MODEL_PLACEHOLDERS = ['K', 'Mobile', 'Tablet'];
+
+/**
+ * Details of the current browser. Falls back to the user agent string when Client Hints are
+ * unavailable or refused, and to unknown details outside a browser
+ */
+export async function detectDeviceDetails(): Promise<DeviceDetails> {
+  if (typeof navigator === 'undefined') {
+    return { ...UNKNOWN_DETAILS };
+  }
+
+  const parsed = parseUserAgent(navigator.userAgent || '');
+  const userAgentData = (navigator as Navigator & { userAgentData?: unknown }).userAgentData as UserAgentData | undefined;
+  if (!userAgentData?.getHighEntropyValues) {
+    return parsed;
+  }
+
+  try {
+    const hints = await userAgentData.getHighEntropyValues(['platformVersion', 'model', 'fullVersionList']);
+    const brand = pickBrand(hints.fullVersionList || userAgentData.brands);
+    const osName = userAgentData.platform || parsed.osName;
+    return {
+      browserName: brand ? BRAND_NAMES[brand.brand] || brand.brand : parsed.browserName,
+      browserVersion: brand ? brand.version : parsed.browserVersion,
+      osName,
+      osVersion: hints.platformVersion ? hintedOsVersion(osName, hints.platformVersion) : parsed.osVersion,
+      deviceModel: hints.model || parsed.deviceModel,
+      deviceType: userAgentData.mobile ? 'mobile' : parsed.deviceType === 'unknown' ? 'desktop' : parsed.deviceType,
+    };
+  } catch {
+    return parsed;
+  }
+}
+
+/**
+ * Browser, OS and model from a user agent string. Browsers freeze parts of it, so desktop
+ * OS versions may be stale, e.g. Windows 11 reports itself as Windows 10
+ */
+export function parseUserAgent(userAgent: string): DeviceDetails {
+  const details: DeviceDetails = { ...UNKNOWN_DETAILS };
+
+  for (const [pattern, name] of USER_AGENT_BROWSERS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      details.browserName = name;
+      details.browserVersion = match[1];
+      break;
+    }
+  }
+
+  let match: RegExpExecArray | null;
+  if ((match = /Windows NT ([\d.]+)/.exec(userAgent))) {
+    details.osName = 'Windows';
+    details.osVersion = WINDOWS_VERSIONS[match[1]] || match[1];
+    details.deviceType = 'desktop';
+  } else if ((match = /(iPhone|iPad|iPod).*? OS ([\d_]+)/.exec(userAgent))) {
+    details.osName = match[1] === 'iPad' ? 'iPadOS' : 'iOS';
+    details.osVersion = match[2].replace(/_/g, '.');
+    details.deviceModel = match[1];
+    details.deviceType = match[1] === 'iPad' ? 'tablet' : 'mobile';
+  } else if ((match = /Android ([\d.]+)(?:; ([^;)]+))?/.exec(userAgent))) {
+    details.osName = 'Android';
+    details.osVersion = match[1];
+    const model = match[2]?.replace(/\s*Build\/.*$/, '').trim();
+    details.deviceModel = model && !ANDROID_MODEL_PLACEHOLDERS.includes(model) ? model : null;
+    // Android tablets leave "Mobile" out of the user agent
+    details.deviceType = /Mobile/.test(userAgent) ? 'mobile' : 'tablet';
+  } else if ((match = /Mac OS X ([\d_.]+)/.exec(userAgent))) {
+    details.osName = 'macOS';
+    details.osVersion = match[1].replace(/_/g, '.');
+    details.deviceModel = 'Mac';
+    details.deviceType = 'desktop';
+  } else if (/CrOS/.test(userAgent)) {
+    details.osName = 'Chrome OS';
+    details.deviceType = 'desktop';
+  } else if (/Linux|X11/.test(userAgent)) {
+    details.osName = 'Linux';
+    details.deviceType = 'desktop';
+  }
+
+  return details;
+}
+
+/**
+ * The brand naming the browser rather than its engine or a GREASE entry like "Not A(Brand"
+ */
+function pickBrand(brands: UserAgentBrand[]): UserAgentBrand | null {
+  const named = brands.filter(brand => !/Not.?A.?Brand/i.test(brand.brand));
+  return named.find(brand => brand.brand !== 'Chromium') || named[0] || null;
+}
+
+/**
+ * Client Hints give Windows its internal platform version: 13 and above is Windows 11, 1 to 12 Windows 10
+ */
+function hintedOsVersion(osName: string, platformVersion: string): string {
+  if (osName === 'Windows') {
+    const major = parseInt(platformVersion, 10);
+    return major >= 13 ? '11' : major > 0 ? '10' : platformVersion;
+  }
+  // Trailing zero components carry no information, e.g. 14.0.0
+  return platformVersion.replace(/(\.0)+$/, '');
+}
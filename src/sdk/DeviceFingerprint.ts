@@ -1,43 +1,72 @@
-
 /**
  * DeviceFingerprint.ts
  * Provides functionality for device identification and fingerprinting
  */
 import { v4 as uuidv4 } from 'uuid';
+import { StorageAdapter } from './StorageAdapter';
+import { Clock } from './SecurePayConfig';
+import { DeviceSignals, collectDeviceSignals } from './DeviceSignals';
+import { DeviceDetails, detectDeviceDetails, parseUserAgent } from './DeviceDetails';
 
 export class DeviceFingerprint {
   // In a real implementation, this would use platform-specific APIs
   // For Android: Android ID
   // For iOS: IDFV (Identifier for Vendor)
   
-  private static deviceId: string | null = null;
-
+  private static readonly DEVICE_ID_KEY = 'trusted_device_id';
+  private deviceId: string | null = null;
+  private signals: DeviceSignals | null = null;
+  private details: DeviceDetails | null = null;
+  
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly clock: Clock
+  ) {}
+  
   /**
    * Get the unique identifier for this device
    * In a real implementation, this would use platform-specific code
    */
-  public static getDeviceId(): string {
+  public getDeviceId(): string {
     if (!this.deviceId) {
       // Check if we have a stored ID
-      const storedId = localStorage.getItem('trusted_device_id');
+      const storedId = this.storage.getItem(DeviceFingerprint.DEVICE_ID_KEY);
       if (storedId) {
         this.deviceId = storedId;
       } else {
         // Generate a new ID (simulating device-specific ID)
         this.deviceId = uuidv4();
-        localStorage.setItem('trusted_device_id', this.deviceId);
+        this.storage.setItem(DeviceFingerprint.DEVICE_ID_KEY, this.deviceId);
       }
     }
     return this.deviceId;
   }
-
+  
+  /**
+   * Collect the device's signals and details. Until this has run, fingerprints carry no signals
+   * and their details come from the user agent string alone
+   */
+  public async load(): Promise<void> {
+    [this.signals, this.details] = await Promise.all([collectDeviceSignals(), detectDeviceDetails()]);
+  }
+  
+  public getSignals(): DeviceSignals | null {
+    return this.signals;
+  }
+  
+  /**
+   * Take on the ID of a trusted device this one was recognised as, e.g. after its stored ID was wiped
+   */
+  public adoptDeviceId(deviceId: string): void {
+    this.deviceId = deviceId;
+    this.storage.setItem(DeviceFingerprint.DEVICE_ID_KEY, deviceId);
+  }
+  
   /**
    * Generate a device fingerprint with additional information
    */
-  public static generateFingerprint(): DeviceInfo {
-    // In a real implementation, we would collect:
-    // - Hardware information
-    // - OS version
+  public generateFingerprint(): DeviceInfo {
+    // In a real implementation, we would also collect:
     // - App installation ID
     // - Network information (with user permission)
     
@@ -45,24 +74,39 @@ export class DeviceFingerprint {
       deviceId: this.getDeviceId(),
       platform: this.detectPlatform(),
       deviceName: this.getDeviceName(),
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(this.clock.now()).toISOString(),
+      ...this.getDetails(),
+      ...(this.signals ? { signals: this.signals } : {}),
     };
   }
-
-  private static detectPlatform(): string {
+  
+  private getDetails(): DeviceDetails {
+    return this.details || parseUserAgent(typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  }
+  
+  private detectPlatform(): string {
     // Detect if running on Android, iOS, or web
-    const userAgent = navigator.userAgent;
-    if (/android/i.test(userAgent)) {
+    const { osName } = this.getDetails();
+    if (osName === 'Android') {
       return 'Android';
     }
-    if (/iPad|iPhone|iPod/.test(userAgent)) {
+    if (osName === 'iOS' || osName === 'iPadOS') {
       return 'iOS';
     }
     return 'Web';
   }
-
-  private static getDeviceName(): string {
-    // In a real SDK, we would get the actual device model
+  
+  /**
+   * e.g. "Pixel 8 (Chrome)" for phones and tablets, "Firefox on Windows" for desktops
+   */
+  private getDeviceName(): string {
+    const { browserName, osName, deviceModel, deviceType } = this.getDetails();
+    if (deviceModel && deviceType !== 'desktop') {
+      return browserName ? `${deviceModel} (${browserName})` : deviceModel;
+    }
+    if (browserName && osName) {
+      return `${browserName} on ${osName}`;
+    }
     const platform = this.detectPlatform();
     if (platform === 'Web') {
       return 'Web Browser';
@@ -71,9 +115,16 @@ export class DeviceFingerprint {
   }
 }
 
-export interface DeviceInfo {
+/**
+ * Browser, OS and model details are missing from devices registered before they were collected
+ */
+export interface DeviceInfo extends Partial<DeviceDetails> {
   deviceId: string;
   platform: string;
   deviceName: string;
   timestamp: string;
+  /**
+   * Signals the device was recognised by when this was generated
+   */
+  signals?: DeviceSignals;
 }
@@ -0,0 +1,139 @@
+/**
+ * DeviceKeyManager.ts
+ * Owns the current device's signing (ECDSA) and key agreement (ECDH) keypairs
+ */
+import { KeyStore } from './KeyStore';
+import { SecurePayError } from './SecurePayError';
+import { base64ToBytes, bytesToBase64, utf8Encode } from './CryptoUtils';
+
+/**
+ * Public halves of a device's keypairs, shared with other devices
+ */
+export interface DevicePublicKeys {
+  signing: JsonWebKey;
+  agreement: JsonWebKey;
+}
+
+const SIGNING_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const AGREEMENT_ALGORITHM: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export class DeviceKeyManager {
+  private signingKey: CryptoKey | null = null;
+  private agreementKey: CryptoKey | null = null;
+  private publicKeys: DevicePublicKeys | null = null;
+
+  constructor(
+    private readonly keyStore: KeyStore,
+    private readonly keyPrefix: string
+  ) {}
+
+  /**
+   * Load the device keypairs from the key store, generating them on first use.
+   * Private keys are generated non-extractable and never leave the key store.
+   */
+  public async load(): Promise<void> {
+    const signing = await this.loadOrGenerate('signing', SIGNING_ALGORITHM, ['sign', 'verify']);
+    const agreement = await this.loadOrGenerate('agreement', AGREEMENT_ALGORITHM, ['deriveBits']);
+
+    this.signingKey = signing.privateKey;
+    this.agreementKey = agreement.privateKey;
+    this.publicKeys = {
+      signing: await crypto.subtle.exportKey('jwk', signing.publicKey),
+      agreement: await crypto.subtle.exportKey('jwk', agreement.publicKey),
+    };
+  }
+
+  /**
+   * Public keys of this device
+   */
+  public getPublicKeys(): DevicePublicKeys {
+    if (!this.publicKeys) {
+      throw new SecurePayError("Device keys are not loaded; call init() first", 'keys_not_loaded');
+    }
+    return this.publicKeys;
+  }
+
+  /**
+   * Sign `data` with this device's private signing key, returning a base64 signature
+   */
+  public async sign(data: string): Promise<string> {
+    if (!this.signingKey) {
+      throw new SecurePayError("Device keys are not loaded; call init() first", 'keys_not_loaded');
+    }
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, this.signingKey, utf8Encode(data));
+    return bytesToBase64(new Uint8Array(signature));
+  }
+
+  /**
+   * Check a base64 signature produced by `sign()` on any device
+   */
+  public static async verify(publicKey: JsonWebKey, data: string, signature: string): Promise<boolean> {
+    try {
+      const key = await crypto.subtle.importKey('jwk', publicKey, SIGNING_ALGORITHM, false, ['verify']);
+      return await crypto.subtle.verify(SIGNATURE_PARAMS, key, base64ToBytes(signature), utf8Encode(data));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Derive an AES-GCM key shared with the holder of `peerPublicKey`
+   */
+  public async deriveSharedKey(peerPublicKey: JsonWebKey, info: string): Promise<CryptoKey> {
+    if (!this.agreementKey) {
+      throw new SecurePayError("Device keys are not loaded; call init() first", 'keys_not_loaded');
+    }
+    return DeviceKeyManager.deriveKey(this.agreementKey, peerPublicKey, info);
+  }
+
+  /**
+   * ECDH + HKDF-SHA-256 key derivation shared by device and ephemeral keys
+   */
+  public static async deriveKey(privateKey: CryptoKey, peerPublicKey: JsonWebKey, info: string): Promise<CryptoKey> {
+    const peerKey = await crypto.subtle.importKey('jwk', peerPublicKey, AGREEMENT_ALGORITHM, false, []);
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: utf8Encode(info) },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Generate a one-off ECDH keypair, e.g. for encrypting a single QR payload
+   */
+  public static generateEphemeralKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(AGREEMENT_ALGORITHM, false, ['deriveBits']) as Promise<CryptoKeyPair>;
+  }
+
+  /**
+   * Whether two public keys are the same key
+   */
+  public static isSameKey(a: JsonWebKey, b: JsonWebKey): boolean {
+    return a.crv === b.crv && a.x === b.x && a.y === b.y;
+  }
+
+  private async loadOrGenerate(
+    purpose: string,
+    algorithm: EcKeyGenParams,
+    usages: KeyUsage[]
+  ): Promise<CryptoKeyPair> {
+    const privateName = `${this.keyPrefix}:device_${purpose}_private`;
+    const publicName = `${this.keyPrefix}:device_${purpose}_public`;
+
+    const privateKey = await this.keyStore.getKey(privateName);
+    const publicKey = await this.keyStore.getKey(publicName);
+    if (privateKey && publicKey) {
+      return { privateKey, publicKey };
+    }
+
+    const keyPair = await crypto.subtle.generateKey(algorithm, false, usages) as CryptoKeyPair;
+    await this.keyStore.saveKey(privateName, keyPair.privateKey);
+    await this.keyStore.saveKey(publicName, keyPair.publicKey);
+    return keyPair;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * DeviceSignals.ts
+ * Collects browser and hardware characteristics that together tell one device from another,
+ * and compares two sets of them so a device can be recognised without its stored ID, or its changes noticed
+ */
+import { bytesToBase64Url, sha256, utf8Encode } from './CryptoUtils';
+
+export type DeviceSignalName =
+  | 'screen'
+  | 'timezone'
+  | 'languages'
+  | 'hardware'
+  | 'canvas'
+  | 'webgl'
+  | 'audio'
+  | 'fonts'
+  | 'touch';
+
+export interface DeviceSignals {
+  /**
+   * Hash over every collected signal; changes when any of them does
+   */
+  hash: string;
+  /**
+   * Hash of each signal that could be collected. Signals the runtime does not expose are left out
+   */
+  components: Partial<Record<DeviceSignalName, string>>;
+}
+
+export interface DeviceSimilarity {
+  /**
+   * 0 for unrelated devices, 1 when every signal either side collected matches
+   */
+  score: number;
+  matching: DeviceSignalName[];
+  /**
+   * Signals that differ, or that only one side collected
+   */
+  changed: DeviceSignalName[];
+}
+
+/**
+ * none: every signal matches the ones on record
+ * benign: only signals that browser and OS updates or settings change have moved, as after an update
+ * suspicious: hardware signals changed, or too much changed at once, as when the device ID is copied to another device
+ */
+export type DeviceDrift = 'none' | 'benign' | 'suspicious';
+
+export interface DeviceDriftReport extends DeviceSimilarity {
+  drift: DeviceDrift;
+}
+
+/**
+ * How much each signal says about the device. Rendering and audio output depend on the GPU,
+ * drivers and OS build, so they weigh more than settings many devices share, like the timezone
+ */
+const SIGNAL_WEIGHTS: Record<DeviceSignalName, number> = {
+  canvas: 3,
+  webgl: 3,
+  audio: 2,
+  fonts: 2,
+  screen: 1.5,
+  hardware: 1,
+  timezone: 1,
+  languages: 1,
+  touch: 0.5,
+};
+
+// Signals that only change with the hardware; browser updates, zoom and settings leave them alone
+const HARDWARE_SIGNALS: DeviceSignalName[] = ['hardware', 'touch'];
+
+// Fonts probed for; each is installed on some systems and missing on others
+const PROBED_FONTS = [
+  'Arial', 'Calibri', 'Cambria', 'Consolas', 'Courier New', 'Segoe UI', 'Tahoma', 'Verdana',
+  'Helvetica Neue', 'Menlo', 'Monaco', 'San Francisco', 'Avenir', 'Futura', 'Gill Sans',
+  'Roboto', 'Noto Sans', 'Ubuntu', 'DejaVu Sans', 'Liberation Sans', 'Cantarell', 'Droid Sans',
+];
+const BASE_FONTS = ['monospace', 'sans-serif', 'serif'];
+const FONT_PROBE_TEXT = 'mmmmmmmmmmlli10OWQ@';
+// Audio rendering that takes longer than this is abandoned; some browsers suspend offline contexts
+const AUDIO_TIMEOUT_MS = 1000;
+
+/**
+ * Collect this device's signals. Outside a browser most signals are unavailable and left out
+ */
+export async function collectDeviceSignals(): Promise<DeviceSignals> {
+  const values: Partial<Record<DeviceSignalName, string | null>> = {
+    screen: readSignal(screenSignal),
+    timezone: readSignal(() => Intl.DateTimeFormat().resolvedOptions().timeZone || null),
+    languages: readSignal(() => navigator.languages?.join(',') || navigator.language || null),
+    hardware: readSignal(hardwareSignal),
+    canvas: readSignal(canvasSignal),
+    webgl: readSignal(webglSignal),
+    audio: await audioSignal().catch(() => null),
+    fonts: readSignal(fontsSignal),
+    touch: readSignal(touchSignal),
+  };
+
+  const components: Partial<Record<DeviceSignalName, string>> = {};
+  for (const [name, value] of Object.entries(values) as [DeviceSignalName, string | null][]) {
+    if (value) {
+      components[name] = (await hash(`${name}:${value}`)).slice(0, 16);
+    }
+  }
+  const composite = (Object.keys(components) as DeviceSignalName[])
+    .sort()
+    .map(name => `${name}=${components[name]}`)
+    .join(';');
+
+  return { hash: await hash(composite), components };
+}
+
+/**
+ * Weighted share of the signals that match. A signal only one side has counts against the match
+ */
+export function compareDeviceSignals(a: DeviceSignals, b: DeviceSignals): DeviceSimilarity {
+  const names = [...new Set([...Object.keys(a.components), ...Object.keys(b.components)])] as DeviceSignalName[];
+  const matching = names.filter(name => a.components[name] === b.components[name]);
+  const changed = names.filter(name => a.components[name] !== b.components[name]);
+
+  const weigh = (list: DeviceSignalName[]) => list.reduce((sum, name) => sum + (SIGNAL_WEIGHTS[name] || 0), 0);
+  const total = weigh(names);
+  return {
+    score: total > 0 ? Math.round(weigh(matching) / total * 1000) / 1000 : 0,
+    matching,
+    changed,
+  };
+}
+
+/**
+ * How far `current` has drifted from the signals on record. Drift counts as benign when no hardware
+ * signal changed and the similarity is still at least `benignSimilarity`
+ */
+export function classifyDeviceDrift(recorded: DeviceSignals, current: DeviceSignals, benignSimilarity: number): DeviceDriftReport {
+  const similarity = compareDeviceSignals(recorded, current);
+  let drift: DeviceDrift = 'none';
+  if (similarity.changed.length > 0) {
+    const hardwareChanged = similarity.changed.some(name => HARDWARE_SIGNALS.includes(name));
+    drift = !hardwareChanged && similarity.score >= benignSimilarity ? 'benign' : 'suspicious';
+  }
+  return { drift, ...similarity };
+}
+
+async function hash(text: string): Promise<string> {
+  return bytesToBase64Url(await sha256(utf8Encode(text)));
+}
+
+function readSignal(read: () => string | null): string | null {
+  try {
+    return read();
+  } catch {
+    return null;
+  }
+}
+
+function screenSignal(): string | null {
+  if (typeof screen === 'undefined') {
+    return null;
+  }
+  // Sorted so rotating the device does not change it
+  const [short, long] = [screen.width, screen.height].sort((x, y) => x - y);
+  return `${short}x${long}x${screen.colorDepth}@${window.devicePixelRatio || 1}`;
+}
+
+function hardwareSignal(): string | null {
+  if (typeof navigator === 'undefined' || !navigator.hardwareConcurrency) {
+    return null;
+  }
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return `${navigator.hardwareConcurrency}/${memory ?? '?'}`;
+}
+
+function touchSignal(): string | null {
+  if (typeof navigator === 'undefined' || typeof window === 'undefined') {
+    return null;
+  }
+  return `${navigator.maxTouchPoints || 0}/${'ontouchstart' in window}`;
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Text and blended shapes render slightly differently across GPUs, drivers and font rasterisers
+ */
+function canvasSignal(): string | null {
+  const context = createCanvas(240, 60)?.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  context.textBaseline = 'top';
+  context.font = '16px "Arial"';
+  context.fillStyle = '#f60';
+  context.fillRect(120, 4, 60, 24);
+  context.fillStyle = '#069';
+  context.fillText('SecurePay \u{1F512} 0.1', 4, 8);
+  context.globalCompositeOperation = 'multiply';
+  context.fillStyle = 'rgba(102, 204, 0, 0.7)';
+  context.beginPath();
+  context.arc(60, 40, 18, 0, Math.PI * 2);
+  context.fill();
+  return context.canvas.toDataURL();
+}
+
+function webglSignal(): string | null {
+  const gl = createCanvas(1, 1)?.getContext('webgl');
+  if (!gl) {
+    return null;
+  }
+  const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+  return [
+    debugInfo ? gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL) : gl.getParameter(gl.VENDOR),
+    debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER),
+    gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE),
+    gl.getParameter(gl.MAX_VERTEX_ATTRIBS),
+    (gl.getSupportedExtensions() || []).join(','),
+  ].join('|');
+}
+
+/**
+ * An oscillator through a compressor, rendered offline; the output differs with the audio stack
+ */
+async function audioSignal(): Promise<string | null> {
+  const AudioContext = typeof window !== 'undefined'
+    ? window.OfflineAudioContext || (window as Window & { webkitOfflineAudioContext?: typeof OfflineAudioContext }).webkitOfflineAudioContext
+    : undefined;
+  if (!AudioContext) {
+    return null;
+  }
+  const context = new AudioContext(1, 5000, 44100);
+  const oscillator = context.createOscillator();
+  oscillator.type = 'triangle';
+  oscillator.frequency.value = 10000;
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = -50;
+  compressor.knee.value = 40;
+  compressor.ratio.value = 12;
+  compressor.attack.value = 0;
+  compressor.release.value = 0.25;
+  oscillator.connect(compressor);
+  compressor.connect(context.destination);
+  oscillator.start(0);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), AUDIO_TIMEOUT_MS);
+  });
+  const rendered = await Promise.race([context.startRendering(), timeout]);
+  clearTimeout(timer);
+  if (!rendered) {
+    return null;
+  }
+  const samples = rendered.getChannelData(0);
+  let sum = 0;
+  for (let i = 4500; i < samples.length; i++) {
+    sum += Math.abs(samples[i]);
+  }
+  return sum.toString();
+}
+
+/**
+ * Installed fonts, found by whether text set in them measures differently from the generic families
+ */
+function fontsSignal(): string | null {
+  const context = createCanvas(1, 1)?.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  const measure = (family: string) => {
+    context.font = `72px ${family}`;
+    return context.measureText(FONT_PROBE_TEXT).width;
+  };
+  const baseWidths = BASE_FONTS.map(measure);
+  return PROBED_FONTS
+    .filter(font => BASE_FONTS.some((base, i) => measure(`"${font}", ${base}`) !== baseWidths[i]))
+    .join(',');
+}
@@ -0,0 +1,135 @@
+/**
+ * EncryptedStorageAdapter.ts
+ * Encrypts sensitive SDK state at rest with AES-GCM
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { KeyStore, getOrCreateKey } from './KeyStore';
+import { Logger } from './SecurePayConfig';
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from './CryptoUtils';
+
+/**
+ * Wraps another adapter and encrypts the values of protected keys.
+ *
+ * WebCrypto is asynchronous while StorageAdapter is not, so protected values
+ * are decrypted into memory by `load()` and re-encrypted in the background on
+ * every write. Values written before encryption was enabled are read as
+ * plaintext once and immediately rewritten encrypted.
+ */
+export class EncryptedStorageAdapter implements StorageAdapter {
+  private static readonly ENVELOPE_PREFIX = 'spenc:v1:';
+  private readonly protectedKeys: Set<string>;
+  private readonly decrypted = new Map<string, string>();
+  private key: CryptoKey | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly inner: StorageAdapter,
+    private readonly keyStore: KeyStore,
+    private readonly keyName: string,
+    protectedKeys: string[],
+    private readonly logger: Logger
+  ) {
+    this.protectedKeys = new Set(protectedKeys);
+  }
+
+  public async load(): Promise<void> {
+    if (this.inner.load) {
+      await this.inner.load(this.logger);
+    }
+
+    this.key = await getOrCreateKey(this.keyStore, this.keyName, () =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']) as Promise<CryptoKey>
+    );
+
+    this.decrypted.clear();
+    for (const storageKey of this.protectedKeys) {
+      const stored = this.inner.getItem(storageKey);
+      if (stored === null) {
+        continue;
+      }
+
+      if (!stored.startsWith(EncryptedStorageAdapter.ENVELOPE_PREFIX)) {
+        // Plaintext left by an earlier SDK version: migrate it in place
+        this.logger.info(`Encrypting previously unencrypted value for "${storageKey}"`);
+        this.setItem(storageKey, stored);
+        continue;
+      }
+
+      try {
+        this.decrypted.set(storageKey, await this.decrypt(storageKey, stored));
+      } catch (error) {
+        // Typically means the key was lost (e.g. IndexedDB cleared); the data cannot be recovered
+        this.logger.error(`Failed to decrypt "${storageKey}", discarding it:`, error);
+        this.inner.removeItem(storageKey);
+      }
+    }
+
+    await this.flush();
+  }
+
+  public getItem(key: string): string | null {
+    if (!this.protectedKeys.has(key)) {
+      return this.inner.getItem(key);
+    }
+    return this.decrypted.has(key) ? this.decrypted.get(key)! : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    if (!this.protectedKeys.has(key)) {
+      this.inner.setItem(key, value);
+      return;
+    }
+
+    this.decrypted.set(key, value);
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      if (!this.key) {
+        this.logger.error("EncryptedStorageAdapter used before load(); value kept in memory only");
+        return;
+      }
+      // A newer write or a removal may have superseded this one while we waited
+      if (this.decrypted.get(key) !== value) {
+        return;
+      }
+      try {
+        this.inner.setItem(key, await this.encrypt(key, value));
+      } catch (error) {
+        this.logger.error(`Failed to encrypt "${key}":`, error);
+      }
+    });
+  }
+
+  public removeItem(key: string): void {
+    if (this.protectedKeys.has(key)) {
+      this.decrypted.delete(key);
+    }
+    this.inner.removeItem(key);
+  }
+
+  /**
+   * Resolve once every write issued so far has been encrypted and stored
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  private async encrypt(storageKey: string, plaintext: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      // Binding the storage key prevents swapping ciphertexts between entries
+      { name: 'AES-GCM', iv, additionalData: utf8Encode(storageKey) },
+      this.key!,
+      utf8Encode(plaintext)
+    );
+    return `${EncryptedStorageAdapter.ENVELOPE_PREFIX}${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+  }
+
+  private async decrypt(storageKey: string, envelope: string): Promise<string> {
+    const [iv, ciphertext] = envelope.slice(EncryptedStorageAdapter.ENVELOPE_PREFIX.length).split(':');
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv), additionalData: utf8Encode(storageKey) },
+      this.key!,
+      base64ToBytes(ciphertext)
+    );
+    return utf8Decode(plaintext);
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * EnvironmentIntegrity.ts
+ * Local checks for browsers driven by automation, running headless or emulating another device
+ */
+import { Clock, Logger } from './SecurePayConfig';
+
+/**
+ * automation: a driver such as WebDriver, Puppeteer or Playwright controls the browser
+ * headless: the browser runs without a window, as automation and scrapers usually do
+ * emulation: the browser claims to be a different kind of device than it runs on
+ */
+export type EnvironmentCheckCategory = 'automation' | 'headless' | 'emulation';
+
+export type EnvironmentCheckId =
+  | 'webdriver'
+  | 'automation_globals'
+  | 'headless_user_agent'
+  | 'missing_chrome_object'
+  | 'software_renderer'
+  | 'no_languages'
+  | 'no_window_size'
+  | 'platform_mismatch'
+  | 'mobile_without_touch'
+  | 'mobile_on_desktop_platform';
+
+export interface EnvironmentCheckResult {
+  id: EnvironmentCheckId;
+  category: EnvironmentCheckCategory;
+  detected: boolean;
+  /**
+   * What was seen, when detected
+   */
+  detail?: string;
+}
+
+export interface EnvironmentRiskReport {
+  /**
+   * 0 for an ordinary browser, approaching 1 as more and stronger signs are detected
+   */
+  score: number;
+  automated: boolean;
+  headless: boolean;
+  emulated: boolean;
+  checks: EnvironmentCheckResult[];
+  checkedAt: string;
+}
+
+export interface EnvironmentIntegrityOptions {
+  clock: Clock;
+  logger: Logger;
+}
+
+interface EnvironmentCheck {
+  id: EnvironmentCheckId;
+  category: EnvironmentCheckCategory;
+  /**
+   * Likelihood, 0 to 1, that a browser showing this sign is not an ordinary one
+   */
+  weight: number;
+  /**
+   * What gave the environment away, or null when nothing did
+   */
+  run(): string | null;
+}
+
+// Properties automation drivers and their injected scripts leave on the page
+const AUTOMATION_GLOBALS = [
+  '__playwright__binding__', '__pwInitScripts', '__puppeteer_evaluation_script__', '_phantom', 'callPhantom',
+  '__nightmare', 'domAutomation', 'domAutomationController', '__selenium_unwrapped', '__webdriver_evaluate',
+  '__driver_evaluate', '__webdriver_script_fn', '__fxdriver_unwrapped', '_Selenium_IDE_Recorder',
+];
+const AUTOMATION_DOCUMENT_ATTRIBUTES = ['webdriver', 'selenium', 'driver'];
+// ChromeDriver marks the document with a property starting with this
+const CHROMEDRIVER_PREFIX = '$cdc_';
+const SOFTWARE_RENDERERS = /SwiftShader|llvmpipe|softpipe|Mesa OffScreen/i;
+
+export class EnvironmentIntegrity {
+  private report: EnvironmentRiskReport | null = null;
+
+  constructor(private readonly options: EnvironmentIntegrityOptions) {}
+
+  /**
+   * Run the checks once per page; the environment does not change while it is open.
+   * Returns null outside a browser, where there is nothing to check
+   */
+  public getReport(): EnvironmentRiskReport | null {
+    if (!this.report && typeof window !== 'undefined' && typeof navigator !== 'undefined') {
+      this.report = this.runChecks();
+    }
+    return this.report;
+  }
+
+  private runChecks(): EnvironmentRiskReport {
+    const checks: EnvironmentCheckResult[] = [];
+    let clean = 1;
+    for (const check of ENVIRONMENT_CHECKS) {
+      let detail: string | null = null;
+      try {
+        detail = check.run();
+      } catch (error) {
+        this.options.logger.debug(`Environment check ${check.id} could not run:`, error);
+      }
+      checks.push({ id: check.id, category: check.category, detected: detail !== null, ...(detail !== null ? { detail } : {}) });
+      if (detail !== null) {
+        // Signs are treated as independent, so each one adds its share of what is left
+        clean *= 1 - check.weight;
+      }
+    }
+
+    const detected = checks.filter(check => check.detected);
+    if (detected.length > 0) {
+      this.options.logger.warn("Environment integrity checks detected:", detected.map(check => check.id));
+    }
+    return {
+      score: Math.round((1 - clean) * 1000) / 1000,
+      automated: detected.some(check => check.category === 'automation'),
+      headless: detected.some(check => check.category === 'headless'),
+      emulated: detected.some(check => check.category === 'emulation'),
+      checks,
+      checkedAt: new Date(this.options.clock.now()).toISOString(),
+    };
+  }
+}
+
+const ENVIRONMENT_CHECKS: EnvironmentCheck[] = [
+  {
+    id: 'webdriver',
+    category: 'automation',
+    weight: 0.6,
+    run: () => navigator.webdriver ? 'navigator.webdriver is set' : null,
+  },
+  {
+    id: 'automation_globals',
+    category: 'automation',
+    weight: 0.6,
+    run: () => {
+      const found = AUTOMATION_GLOBALS.filter(name => name in window);
+      if (typeof document !== 'undefined') {
+        found.push(...Object.keys(document).filter(name => name.startsWith(CHROMEDRIVER_PREFIX)));
+        found.push(...AUTOMATION_DOCUMENT_ATTRIBUTES.filter(name => document.documentElement?.hasAttribute(name)));
+      }
+      return found.length > 0 ? found.join(', ') : null;
+    },
+  },
+  {
+    id: 'headless_user_agent',
+    category: 'headless',
+    weight: 0.5,
+    run: () => {
+      const match = /HeadlessChrome|PhantomJS|SlimerJS/.exec(navigator.userAgent);
+      return match ? match[0] : null;
+    },
+  },
+  {
+    id: 'missing_chrome_object',
+    category: 'headless',
+    weight: 0.2,
+    run: () => {
+      // Desktop Chrome always exposes window.chrome; older headless builds do not
+      const desktopChrome = /Chrome\//.test(navigator.userAgent) && !/Mobile|Edg\/|OPR\//.test(navigator.userAgent);
+      return desktopChrome && !('chrome' in window) ? 'Chrome user agent without window.chrome' : null;
+    },
+  },
+  {
+    id: 'software_renderer',
+    category: 'headless',
+    weight: 0.3,
+    run: () => {
+      const renderer = webglRenderer();
+      return renderer && SOFTWARE_RENDERERS.test(renderer) ? renderer : null;
+    },
+  },
+  {
+    id: 'no_languages',
+    category: 'headless',
+    weight: 0.2,
+    run: () => navigator.languages && navigator.languages.length === 0 ? 'navigator.languages is empty' : null,
+  },
+  {
+    id: 'no_window_size',
+    category: 'headless',
+    weight: 0.2,
+    run: () => window.outerWidth === 0 && window.outerHeight === 0 ? 'window has no outer size' : null,
+  },
+  {
+    id: 'platform_mismatch',
+    category: 'emulation',
+    weight: 0.3,
+    run: () => {
+      const claimed = userAgentOs(navigator.userAgent);
+      const actual = platformOs();
+      return claimed && actual && claimed !== actual ? `user agent says ${claimed}, platform says ${actual}` : null;
+    },
+  },
+  {
+    id: 'mobile_without_touch',
+    category: 'emulation',
+    weight: 0.3,
+    run: () => /Android|iPhone|iPad|iPod|Mobile/.test(navigator.userAgent) && !navigator.maxTouchPoints
+      ? 'mobile user agent without touch support'
+      : null,
+  },
+  {
+    id: 'mobile_on_desktop_platform',
+    category: 'emulation',
+    weight: 0.4,
+    run: () => {
+      // Phones report an ARM platform; a mobile user agent on x86 is an emulator or device emulation in dev tools
+      const mobile = /Android|iPhone|iPod/.exec(navigator.userAgent);
+      return mobile && /Win|Mac|x86_64|i686/.test(navigator.platform || '')
+        ? `${mobile[0]} user agent on ${navigator.platform}`
+        : null;
+    },
+  },
+];
+
+type Os = 'Windows' | 'macOS' | 'iOS' | 'Android' | 'Linux';
+
+// In order: iOS and Android user agents also mention Mac OS X and Linux
+const USER_AGENT_OS: [RegExp, Os][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux|X11/, 'Linux'],
+];
+
+function userAgentOs(userAgent: string): Os | null {
+  return USER_AGENT_OS.find(([pattern]) => pattern.test(userAgent))?.[1] || null;
+}
+
+/**
+ * The OS from navigator.platform, or from User-Agent Client Hints where available.
+ * Android reports a Linux platform, so Linux is left out here; emulated phones are caught by their own check
+ */
+function platformOs(): Os | null {
+  const hinted = (navigator as Navigator & { userAgentData?: { platform?: string } }).userAgentData?.platform;
+  if (hinted) {
+    const os = ({ Windows: 'Windows', macOS: 'macOS', iOS: 'iOS', Android: 'Android' } as Record<string, Os>)[hinted];
+    return os || null;
+  }
+  const platform = navigator.platform || '';
+  if (/^Win/.test(platform)) {
+    return 'Windows';
+  }
+  if (/^Mac/.test(platform)) {
+    // iPads running iPadOS report MacIntel, like a Mac
+    return /iPad/.test(navigator.userAgent) || navigator.maxTouchPoints > 1 ? null : 'macOS';
+  }
+  if (/iPhone|iPad|iPod/.test(platform)) {
+    return 'iOS';
+  }
+  return null;
+}
+
+function webglRenderer(): string | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  const gl = document.createElement('canvas').getContext('webgl');
+  if (!gl) {
+    return null;
+  }
+  const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+  return String(gl.getParameter(debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : gl.RENDERER));
+}
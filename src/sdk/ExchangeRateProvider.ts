@@ -0,0 +1,52 @@
+/**
+ * ExchangeRateProvider.ts
+ * Currency conversion used to compare amounts across currencies
+ */
+
+/**
+ * Supplies exchange rates. Lookups are synchronous so transaction checks stay
+ * synchronous; providers backed by a network service fetch rates in `refresh()`,
+ * which the SDK awaits during `init()`.
+ */
+export interface ExchangeRateProvider {
+  /**
+   * How many units of `to` one unit of `from` buys, or null when unknown
+   */
+  getRate(from: string, to: string): number | null;
+  refresh?(): Promise<void>;
+}
+
+/**
+ * Indicative rates against USD, in units of each currency per 1 USD
+ */
+export const DEFAULT_EXCHANGE_RATES: Readonly<Record<string, number>> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+};
+
+/**
+ * Converts with a fixed table of rates quoted against a single reference currency
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  private readonly rates: Record<string, number>;
+
+  /**
+   * @param rates units of each currency per one unit of the reference currency
+   */
+  constructor(rates: Record<string, number> = DEFAULT_EXCHANGE_RATES) {
+    this.rates = Object.fromEntries(
+      Object.entries(rates).map(([currency, rate]) => [currency.toUpperCase(), rate])
+    );
+  }
+
+  public getRate(from: string, to: string): number | null {
+    const fromRate = this.rates[from.toUpperCase()];
+    const toRate = this.rates[to.toUpperCase()];
+    if (!fromRate || !toRate) {
+      return null;
+    }
+    return toRate / fromRate;
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * FaceMatcher.ts
+ * Local face comparison: locate the face, normalise it and compare compact descriptors
+ */
+
+/**
+ * RGBA pixels, laid out like the browser's ImageData (which satisfies this interface)
+ */
+export interface FaceFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | number[];
+}
+
+/**
+ * What is kept of an enrolled face. The image itself is not needed for matching
+ */
+export interface FaceTemplate {
+  version: 1;
+  /**
+   * 64-bit difference hash of the normalised face, as hex
+   */
+  dHash: string;
+  /**
+   * Histogram of gradient orientations over a grid of cells, L2-normalised
+   */
+  gradients: number[];
+}
+
+/**
+ * match: the sample is close enough to the enrolled template
+ * no_match: the sample was usable but scored below the threshold
+ * no_face_detected: nothing face-like was found in the frame
+ * low_quality: the face region is too dark, flat or small, or the drawn gesture too short, to describe reliably
+ * not_enrolled: there is no enrolled template to compare against
+ * locked_out: biometrics are locked after too many failed attempts, so nothing was compared
+ */
+export type BiometricMatchReason = 'match' | 'no_match' | 'no_face_detected' | 'low_quality' | 'not_enrolled' | 'locked_out';
+
+export interface BiometricMatchResult {
+  matched: boolean;
+  /**
+   * Similarity between 0 (unrelated) and 1 (identical)
+   */
+  score: number;
+  threshold: number;
+  reason: BiometricMatchReason;
+}
+
+export type FaceTemplateResult =
+  | { template: FaceTemplate; reason?: undefined }
+  | { template: null; reason: 'no_face_detected' | 'low_quality' };
+
+export interface FaceMatcherOptions {
+  /**
+   * Minimum score for a match
+   */
+  threshold: number;
+}
+
+// Side of the normalised face image, in pixels
+const NORMALISED_SIZE = 64;
+const CELL_SIZE = 16;
+const ORIENTATION_BINS = 9;
+// Coarse grid used to find skin-coloured regions
+const GRID_COLUMNS = 32;
+// Fraction of a grid cell that must be skin-coloured to count
+const SKIN_CELL_FRACTION = 0.35;
+// Smallest face region accepted, as a fraction of the frame
+const MIN_FACE_AREA = 0.02;
+// Below this luminance standard deviation the face has too little detail to compare
+const MIN_CONTRAST = 12;
+const HASH_WEIGHT = 0.3;
+const GRADIENT_WEIGHT = 0.7;
+
+/**
+ * Square around a face, in frame pixels
+ */
+export interface FaceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class FaceMatcher {
+  constructor(private readonly options: FaceMatcherOptions) {}
+
+  /**
+   * Describe the face in `frame`, or say why it cannot be described
+   */
+  public createTemplate(frame: FaceFrame): FaceTemplateResult {
+    const region = findFaceRegion(frame);
+    if (!region) {
+      return { template: null, reason: 'no_face_detected' };
+    }
+
+    const face = grayscaleRegion(frame, region, NORMALISED_SIZE);
+    if (standardDeviation(face) < MIN_CONTRAST) {
+      return { template: null, reason: 'low_quality' };
+    }
+    equalize(face);
+
+    return {
+      template: {
+        version: 1,
+        dHash: differenceHash(face, NORMALISED_SIZE),
+        gradients: gradientHistogram(face, NORMALISED_SIZE),
+      },
+    };
+  }
+
+  /**
+   * Compare a captured frame against an enrolled template
+   */
+  public match(enrolled: FaceTemplate | null | undefined, frame: FaceFrame): BiometricMatchResult {
+    const { threshold } = this.options;
+    if (!enrolled) {
+      return { matched: false, score: 0, threshold, reason: 'not_enrolled' };
+    }
+
+    const candidate = this.createTemplate(frame);
+    if (!candidate.template) {
+      return { matched: false, score: 0, threshold, reason: candidate.reason };
+    }
+
+    const score = this.compare(enrolled, candidate.template);
+    const matched = score >= threshold;
+    return { matched, score, threshold, reason: matched ? 'match' : 'no_match' };
+  }
+
+  /**
+   * Similarity of two templates between 0 and 1
+   */
+  public compare(a: FaceTemplate, b: FaceTemplate): number {
+    const hashSimilarity = 1 - hammingDistance(a.dHash, b.dHash) / 64;
+    const gradientSimilarity = Math.max(0, correlation(a.gradients, b.gradients));
+    return Math.round((HASH_WEIGHT * hashSimilarity + GRADIENT_WEIGHT * gradientSimilarity) * 1000) / 1000;
+  }
+}
+
+/**
+ * Bounding square of the largest connected skin-coloured area, or null
+ */
+export function findFaceRegion(frame: FaceFrame): FaceRegion | null {
+  const { width, height, data } = frame;
+  const cellSize = Math.max(1, Math.floor(width / GRID_COLUMNS));
+  const columns = Math.floor(width / cellSize);
+  const rows = Math.floor(height / cellSize);
+  if (columns === 0 || rows === 0) {
+    return null;
+  }
+
+  const skin = new Uint8Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let count = 0;
+      let total = 0;
+      // Sample every other pixel; enough to estimate the fraction
+      for (let y = row * cellSize; y < (row + 1) * cellSize; y += 2) {
+        for (let x = column * cellSize; x < (column + 1) * cellSize; x += 2) {
+          const i = (y * width + x) * 4;
+          if (isSkin(data[i], data[i + 1], data[i + 2])) {
+            count++;
+          }
+          total++;
+        }
+      }
+      skin[row * columns + column] = count / total >= SKIN_CELL_FRACTION ? 1 : 0;
+    }
+  }
+
+  // Largest 4-connected component of skin cells
+  const visited = new Uint8Array(skin.length);
+  let best: { cells: number; minX: number; minY: number; maxX: number; maxY: number } | null = null;
+  for (let start = 0; start < skin.length; start++) {
+    if (!skin[start] || visited[start]) {
+      continue;
+    }
+    const component = { cells: 0, minX: columns, minY: rows, maxX: 0, maxY: 0 };
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop();
+      const x = index % columns;
+      const y = Math.floor(index / columns);
+      component.cells++;
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < columns - 1 ? index + 1 : -1,
+        y > 0 ? index - columns : -1,
+        y < rows - 1 ? index + columns : -1,
+      ];
+      neighbours.forEach(next => {
+        if (next >= 0 && skin[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+    if (!best || component.cells > best.cells) {
+      best = component;
+    }
+  }
+
+  if (!best || best.cells / skin.length < MIN_FACE_AREA) {
+    return null;
+  }
+
+  // Refine to pixel precision with the moments of the skin pixels around the component:
+  // for an elliptical face, four standard deviations span its height
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  const x0 = Math.max(0, (best.minX - 1) * cellSize);
+  const x1 = Math.min(width, (best.maxX + 2) * cellSize);
+  const y0 = Math.max(0, (best.minY - 1) * cellSize);
+  const y1 = Math.min(height, (best.maxY + 2) * cellSize);
+  for (let y = y0; y < y1; y += 2) {
+    for (let x = x0; x < x1; x += 2) {
+      const i = (y * width + x) * 4;
+      if (isSkin(data[i], data[i + 1], data[i + 2])) {
+        count++;
+        sumX += x;
+        sumY += y;
+        sumXX += x * x;
+        sumYY += y * y;
+      }
+    }
+  }
+  const centreX = sumX / count;
+  const centreY = sumY / count;
+  const spread = Math.sqrt(Math.max(sumXX / count - centreX ** 2, sumYY / count - centreY ** 2));
+  const side = Math.max(NORMALISED_SIZE, Math.min(Math.round(4 * spread), width, height));
+  return {
+    x: Math.round(Math.min(Math.max(centreX - side / 2, 0), width - side)),
+    y: Math.round(Math.min(Math.max(centreY - side / 2, 0), height - side)),
+    width: side,
+    height: side,
+  };
+}
+
+/**
+ * Skin tone test in YCbCr, which holds up across skin colours and lighting
+ */
+function isSkin(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+/**
+ * Area-averaged grayscale copy of `region`, `size` pixels square
+ */
+export function grayscaleRegion(frame: FaceFrame, region: FaceRegion, size: number): Float64Array {
+  const { width, data } = frame;
+  const output = new Float64Array(size * size);
+  const scaleX = region.width / size;
+  const scaleY = region.height / size;
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      const x0 = Math.floor(region.x + column * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor(region.x + (column + 1) * scaleX));
+      const y0 = Math.floor(region.y + row * scaleY);
+      const y1 = Math.max(y0 + 1, Math.floor(region.y + (row + 1) * scaleY));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          count++;
+        }
+      }
+      output[row * size + column] = sum / count;
+    }
+  }
+  return output;
+}
+
+export function standardDeviation(values: Float64Array): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Histogram equalisation in place, so lighting changes affect both templates alike
+ */
+function equalize(pixels: Float64Array): void {
+  const histogram = new Array(256).fill(0);
+  pixels.forEach(value => histogram[Math.min(255, Math.round(value))]++);
+  const cumulative: number[] = [];
+  histogram.reduce((total, count, level) => (cumulative[level] = total + count), 0);
+  const minimum = cumulative.find(count => count > 0);
+  const range = Math.max(1, pixels.length - minimum);
+  pixels.forEach((value, i) => {
+    pixels[i] = ((cumulative[Math.min(255, Math.round(value))] - minimum) / range) * 255;
+  });
+}
+
+/**
+ * dHash: shrink to 9x8 and record whether each pixel is brighter than its right neighbour
+ */
+function differenceHash(pixels: Float64Array, size: number): string {
+  const small = resampleGray(pixels, size, 9, 8);
+  let hex = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let column = 0; column < 8; column++) {
+      byte = (byte << 1) | (small[row * 9 + column] > small[row * 9 + column + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+function resampleGray(pixels: Float64Array, size: number, columns: number, rows: number): Float64Array {
+  const output = new Float64Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x0 = Math.floor((column * size) / columns);
+      const x1 = Math.max(x0 + 1, Math.floor(((column + 1) * size) / columns));
+      const y0 = Math.floor((row * size) / rows);
+      const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * size) / rows));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += pixels[y * size + x];
+        }
+      }
+      output[row * columns + column] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return output;
+}
+
+/**
+ * HOG-style descriptor: magnitude-weighted, unsigned gradient orientations per cell
+ */
+function gradientHistogram(pixels: Float64Array, size: number): number[] {
+  const cells = size / CELL_SIZE;
+  const histogram = new Array(cells * cells * ORIENTATION_BINS).fill(0);
+  const at = (x: number, y: number) => pixels[Math.min(size - 1, Math.max(0, y)) * size + Math.min(size - 1, Math.max(0, x))];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const gx = at(x + 1, y) - at(x - 1, y);
+      const gy = at(x, y + 1) - at(x, y - 1);
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude === 0) {
+        continue;
+      }
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI;
+      const bin = Math.min(ORIENTATION_BINS - 1, Math.floor((angle / Math.PI) * ORIENTATION_BINS));
+      const cell = Math.floor(y / CELL_SIZE) * cells + Math.floor(x / CELL_SIZE);
+      histogram[cell * ORIENTATION_BINS + bin] += magnitude;
+    }
+  }
+
+  const norm = Math.hypot(...histogram) || 1;
+  return histogram.map(value => Math.round((value / norm) * 10000) / 10000);
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.substring(i, i + 2), 16) ^ parseInt(b.substring(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Pearson correlation. Unlike plain cosine similarity it is not inflated by the
+ * baseline every face shares, so unrelated faces score near zero
+ */
+export function correlation(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
@@ -0,0 +1,213 @@
+/**
+ * GestureMatcher.ts
+ * Local comparison of drawn gestures: resample the stroke, normalise it and align it
+ * against enrolled samples with dynamic time warping
+ */
+import { BiometricMatchResult } from './FaceMatcher';
+
+/**
+ * A point of a drawn stroke. `t` is milliseconds since the stroke started
+ */
+export interface GesturePoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+/**
+ * Points in the order they were drawn, from pointer down to pointer up
+ */
+export type GestureStroke = GesturePoint[];
+
+export interface GestureSample {
+  /**
+   * Resampled, normalised points as flat [x0, y0, x1, y1, ...] pairs
+   */
+  points: number[];
+  durationMs: number;
+}
+
+/**
+ * What is kept of an enrolled gesture: each sample drawn at enrollment, normalised
+ */
+export interface GestureTemplate {
+  version: 1;
+  samples: GestureSample[];
+}
+
+/**
+ * too_few_samples: fewer samples than the matcher requires
+ * low_quality: a sample is too short or too small to describe reliably
+ * inconsistent: the samples do not look like the same gesture drawn repeatedly
+ */
+export type GestureTemplateResult =
+  | { template: GestureTemplate; reason?: undefined }
+  | { template: null; reason: 'too_few_samples' | 'low_quality' | 'inconsistent' };
+
+export interface GestureMatcherOptions {
+  /**
+   * Minimum score for a match
+   */
+  threshold: number;
+  /**
+   * Samples the user must draw to enroll
+   */
+  enrollmentSamples: number;
+}
+
+// Points each stroke is resampled to
+const RESAMPLE_POINTS = 64;
+// Fewest captured points and smallest drawn extent, in pixels, for a usable stroke
+const MIN_POINTS = 10;
+const MIN_EXTENT = 20;
+// Widest warp allowed, as a fraction of the stroke
+const WARP_WINDOW = 0.15;
+// Mean aligned distance, in normalised units, at which shape similarity reaches zero
+const MAX_DISTANCE = 0.35;
+const SHAPE_WEIGHT = 0.75;
+const TEMPO_WEIGHT = 0.25;
+
+export class GestureMatcher {
+  constructor(private readonly options: GestureMatcherOptions) {}
+
+  /**
+   * Build a template from the strokes drawn at enrollment
+   */
+  public createTemplate(strokes: GestureStroke[]): GestureTemplateResult {
+    if (strokes.length < this.options.enrollmentSamples) {
+      return { template: null, reason: 'too_few_samples' };
+    }
+
+    const samples = strokes.map(normalizeStroke);
+    if (samples.some(sample => !sample)) {
+      return { template: null, reason: 'low_quality' };
+    }
+
+    // Every sample must match at least one of the others, or the template would accept anything
+    const consistent = samples.every((sample, i) =>
+      samples.some((other, j) => i !== j && compareSamples(sample, other) >= this.options.threshold)
+    );
+    if (!consistent) {
+      return { template: null, reason: 'inconsistent' };
+    }
+
+    return { template: { version: 1, samples } };
+  }
+
+  /**
+   * Compare a drawn stroke against an enrolled template. The score is the best
+   * against any of the enrolled samples
+   */
+  public match(enrolled: GestureTemplate | null | undefined, stroke: GestureStroke): BiometricMatchResult {
+    const { threshold } = this.options;
+    if (!enrolled || enrolled.samples.length === 0) {
+      return { matched: false, score: 0, threshold, reason: 'not_enrolled' };
+    }
+
+    const candidate = normalizeStroke(stroke);
+    if (!candidate) {
+      return { matched: false, score: 0, threshold, reason: 'low_quality' };
+    }
+
+    const score = Math.max(...enrolled.samples.map(sample => compareSamples(sample, candidate)));
+    const matched = score >= threshold;
+    return { matched, score, threshold, reason: matched ? 'match' : 'no_match' };
+  }
+}
+
+/**
+ * Resample to evenly spaced points, move the centroid to the origin and scale the
+ * larger side to 1. Orientation and direction are kept: they are part of the gesture.
+ * Null when the stroke is too short or too small
+ */
+function normalizeStroke(stroke: GestureStroke): GestureSample | null {
+  if (stroke.length < MIN_POINTS) {
+    return null;
+  }
+
+  const xs = stroke.map(p => p.x);
+  const ys = stroke.map(p => p.y);
+  const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (extent < MIN_EXTENT) {
+    return null;
+  }
+
+  const resampled = resample(stroke, RESAMPLE_POINTS);
+  const cx = resampled.reduce((sum, p) => sum + p.x, 0) / resampled.length;
+  const cy = resampled.reduce((sum, p) => sum + p.y, 0) / resampled.length;
+
+  const points: number[] = [];
+  for (const p of resampled) {
+    points.push(round((p.x - cx) / extent), round((p.y - cy) / extent));
+  }
+  return { points, durationMs: Math.max(0, stroke[stroke.length - 1].t - stroke[0].t) };
+}
+
+/**
+ * `count` points evenly spaced along the path ($1 recognizer resampling)
+ */
+function resample(stroke: GestureStroke, count: number): { x: number; y: number }[] {
+  let length = 0;
+  for (let i = 1; i < stroke.length; i++) {
+    length += Math.hypot(stroke[i].x - stroke[i - 1].x, stroke[i].y - stroke[i - 1].y);
+  }
+  const interval = length / (count - 1);
+
+  const result = [{ x: stroke[0].x, y: stroke[0].y }];
+  let previous = { x: stroke[0].x, y: stroke[0].y };
+  let carried = 0;
+  for (let i = 1; i < stroke.length && result.length < count; i++) {
+    const next = { x: stroke[i].x, y: stroke[i].y };
+    let segment = Math.hypot(next.x - previous.x, next.y - previous.y);
+    while (carried + segment >= interval && segment > 0 && result.length < count) {
+      const ratio = (interval - carried) / segment;
+      previous = { x: previous.x + ratio * (next.x - previous.x), y: previous.y + ratio * (next.y - previous.y) };
+      result.push(previous);
+      segment = Math.hypot(next.x - previous.x, next.y - previous.y);
+      carried = 0;
+    }
+    carried += segment;
+    previous = next;
+  }
+  // Rounding can leave the last point unplaced
+  while (result.length < count) {
+    const last = stroke[stroke.length - 1];
+    result.push({ x: last.x, y: last.y });
+  }
+  return result;
+}
+
+/**
+ * Similarity of two normalised samples between 0 and 1
+ */
+function compareSamples(a: GestureSample, b: GestureSample): number {
+  const shape = Math.max(0, 1 - warpedDistance(a.points, b.points) / MAX_DISTANCE);
+  const longer = Math.max(a.durationMs, b.durationMs);
+  const tempo = longer === 0 ? 1 : Math.min(a.durationMs, b.durationMs) / longer;
+  return round(SHAPE_WEIGHT * shape + TEMPO_WEIGHT * tempo);
+}
+
+/**
+ * Mean point distance after dynamic time warping, within a band around the diagonal
+ */
+function warpedDistance(a: number[], b: number[]): number {
+  const n = a.length / 2;
+  const m = b.length / 2;
+  const window = Math.max(Math.ceil(Math.max(n, m) * WARP_WINDOW), Math.abs(n - m));
+
+  let previous = new Array<number>(m + 1).fill(Infinity);
+  previous[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    const current = new Array<number>(m + 1).fill(Infinity);
+    for (let j = Math.max(1, i - window); j <= Math.min(m, i + window); j++) {
+      const cost = Math.hypot(a[2 * (i - 1)] - b[2 * (j - 1)], a[2 * (i - 1) + 1] - b[2 * (j - 1) + 1]);
+      current[j] = cost + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[m] / Math.max(n, m);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
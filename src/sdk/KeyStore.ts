@@ -0,0 +1,112 @@
+/**
+ * KeyStore.ts
+ * Persistence for WebCrypto keys used by the SDK
+ */
+
+/**
+ * Stores CryptoKey objects by name. Keys are kept as CryptoKey instances
+ * (never exported), so non-extractable keys stay non-extractable.
+ */
+export interface KeyStore {
+  getKey(name: string): Promise<CryptoKey | null>;
+  saveKey(name: string, key: CryptoKey): Promise<void>;
+  deleteKey(name: string): Promise<void>;
+}
+
+/**
+ * Keeps keys for the lifetime of the process only
+ */
+export class MemoryKeyStore implements KeyStore {
+  private readonly keys = new Map<string, CryptoKey>();
+
+  public async getKey(name: string): Promise<CryptoKey | null> {
+    return this.keys.get(name) || null;
+  }
+
+  public async saveKey(name: string, key: CryptoKey): Promise<void> {
+    this.keys.set(name, key);
+  }
+
+  public async deleteKey(name: string): Promise<void> {
+    this.keys.delete(name);
+  }
+}
+
+/**
+ * Persists keys in IndexedDB, which can hold CryptoKey objects directly
+ * via structured cloning without ever exposing the key material
+ */
+export class IndexedDBKeyStore implements KeyStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName: string = 'securepay_keys',
+    private readonly storeName: string = 'keys'
+  ) {}
+
+  public async getKey(name: string): Promise<CryptoKey | null> {
+    const result = await this.run<CryptoKey | undefined>('readonly', store => store.get(name));
+    return result || null;
+  }
+
+  public async saveKey(name: string, key: CryptoKey): Promise<void> {
+    await this.run('readwrite', store => store.put(key, name));
+  }
+
+  public async deleteKey(name: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(name));
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Load a key from the store, generating and saving it on first use
+ */
+export async function getOrCreateKey(
+  keyStore: KeyStore,
+  name: string,
+  generate: () => Promise<CryptoKey>
+): Promise<CryptoKey> {
+  const existing = await keyStore.getKey(name);
+  if (existing) {
+    return existing;
+  }
+
+  const key = await generate();
+  await keyStore.saveKey(name, key);
+  return key;
+}
+
+/**
+ * Pick the best key store available in the current runtime
+ */
+export function createDefaultKeyStore(): KeyStore {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBKeyStore();
+  }
+  return new MemoryKeyStore();
+}
@@ -0,0 +1,284 @@
+/**
+ * LivenessDetector.ts
+ * Active liveness: random prompts the user acts out on camera, checked over a sequence of frames
+ */
+import { Clock, Logger } from './SecurePayConfig';
+import { FaceFrame, correlation, findFaceRegion, grayscaleRegion, standardDeviation } from './FaceMatcher';
+import { bytesToBase64Url } from './CryptoUtils';
+
+export type LivenessPrompt = 'turn_left' | 'turn_right' | 'blink';
+
+export const LIVENESS_PROMPTS: readonly LivenessPrompt[] = ['turn_left', 'turn_right', 'blink'];
+
+export interface LivenessChallenge {
+  id: string;
+  /**
+   * Prompts to show, in order
+   */
+  prompts: LivenessPrompt[];
+  expiresAt: string;
+}
+
+/**
+ * Frames recorded while each prompt was on screen, oldest first.
+ * Frames are as the camera sees them, not mirrored like a selfie preview
+ */
+export interface LivenessCapture {
+  challengeId: string;
+  steps: { prompt: LivenessPrompt; frames: FaceFrame[] }[];
+}
+
+/**
+ * passed: every prompt was followed by a moving face
+ * expired: the challenge is unknown, used up or past its expiry
+ * prompt_mismatch: the steps do not answer the challenge's prompts in order
+ * no_face_detected: the face was missing from too many frames
+ * static_image: the frames barely change, as with a photo held to the camera
+ * prompt_not_followed: the movement a prompt asked for was not seen
+ * face_changed: the frames do not open with the frame the face was matched on, or do not show
+ * the same face throughout, as when a photo is matched and someone else acts out the prompts
+ */
+export type LivenessReason =
+  | 'passed'
+  | 'expired'
+  | 'prompt_mismatch'
+  | 'no_face_detected'
+  | 'static_image'
+  | 'prompt_not_followed'
+  | 'face_changed';
+
+export interface LivenessResult {
+  passed: boolean;
+  reason: LivenessReason;
+  /**
+   * Outcome of each prompt that was analysed
+   */
+  prompts: { prompt: LivenessPrompt; passed: boolean }[];
+}
+
+export interface LivenessDetectorOptions {
+  /**
+   * Prompts per challenge
+   */
+  promptCount: number;
+  challengeTtlMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+// Side of the grayscale face the measurements are taken on
+const SAMPLE_SIZE = 32;
+// Half-axes of the face oval within the square face region
+const FACE_OVAL_WIDTH = 0.36;
+const FACE_OVAL_HEIGHT = 0.48;
+// Fraction of a step's frames that must contain a face
+const MIN_FACE_FRAMES = 0.6;
+// Largest mean frame-to-frame difference, in gray levels, still taken for a still image
+const STATIC_DIFFERENCE = 1.5;
+// Smallest correlation between consecutive faces still taken for the same face. One face a frame
+// apart stays around 0.95 even while turning; a different face put in front of the camera falls well below
+const MIN_CONTINUITY = 0.85;
+// Shift of the facial features across the face, as a fraction of its width, that counts as a turn
+const TURN_SHIFT = 0.06;
+// Eye-band contrast must fall below this fraction of its usual level and recover above the second
+const BLINK_CLOSED = 0.75;
+const BLINK_OPEN = 0.9;
+
+interface FrameMeasure {
+  face: Float64Array;
+  /**
+   * Horizontal offset of the dark facial features from the face centre, -0.5 to 0.5
+   */
+  featureOffset: number;
+  /**
+   * Contrast across the band the eyes sit in
+   */
+  eyeContrast: number;
+}
+
+export class LivenessDetector {
+  private readonly challenges = new Map<string, LivenessChallenge>();
+
+  constructor(private readonly options: LivenessDetectorOptions) {}
+
+  /**
+   * Issue a challenge with prompts in random order
+   */
+  public createChallenge(): LivenessChallenge {
+    this.pruneExpired();
+
+    const remaining = [...LIVENESS_PROMPTS];
+    const prompts: LivenessPrompt[] = [];
+    const random = crypto.getRandomValues(new Uint32Array(this.options.promptCount));
+    for (let i = 0; i < this.options.promptCount && remaining.length > 0; i++) {
+      prompts.push(remaining.splice(random[i] % remaining.length, 1)[0]);
+    }
+
+    const challenge: LivenessChallenge = {
+      id: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+      prompts,
+      expiresAt: new Date(this.options.clock.now() + this.options.challengeTtlMs).toISOString(),
+    };
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  /**
+   * Check a capture against the challenge it answers. The challenge stays usable until
+   * it expires or is consumed, so the same capture can be checked more than once.
+   * Given `matchedFrame`, the frame a face match was made on, the capture must open with it
+   */
+  public evaluate(capture: LivenessCapture, matchedFrame?: FaceFrame): LivenessResult {
+    this.pruneExpired();
+    const challenge = this.challenges.get(capture.challengeId);
+    if (!challenge) {
+      return { passed: false, reason: 'expired', prompts: [] };
+    }
+    const answered = capture.steps.map(step => step.prompt);
+    if (answered.length !== challenge.prompts.length || answered.some((prompt, i) => prompt !== challenge.prompts[i])) {
+      return { passed: false, reason: 'prompt_mismatch', prompts: [] };
+    }
+    if (matchedFrame && !sameFrame(capture.steps[0]?.frames[0], matchedFrame)) {
+      return { passed: false, reason: 'face_changed', prompts: [] };
+    }
+
+    const measured = capture.steps.map(step => step.frames.map(measureFrame).filter((m): m is FrameMeasure => !!m));
+    if (measured.some((measures, i) => measures.length < Math.max(2, capture.steps[i].frames.length * MIN_FACE_FRAMES))) {
+      return { passed: false, reason: 'no_face_detected', prompts: [] };
+    }
+    if (isStatic(measured.flat())) {
+      return { passed: false, reason: 'static_image', prompts: [] };
+    }
+    if (!isContinuous(measured.flat())) {
+      this.options.logger.warn("Liveness frames do not show the same face throughout");
+      return { passed: false, reason: 'face_changed', prompts: [] };
+    }
+
+    const prompts = capture.steps.map((step, i) => ({ prompt: step.prompt, passed: promptFollowed(step.prompt, measured[i]) }));
+    const passed = prompts.every(p => p.passed);
+    if (!passed) {
+      this.options.logger.warn("Liveness prompts not followed:", prompts.filter(p => !p.passed).map(p => p.prompt));
+    }
+    return { passed, reason: passed ? 'passed' : 'prompt_not_followed', prompts };
+  }
+
+  /**
+   * Retire a challenge so its capture cannot be used again
+   */
+  public consume(challengeId: string): void {
+    this.challenges.delete(challengeId);
+  }
+
+  private pruneExpired(): void {
+    const now = this.options.clock.now();
+    this.challenges.forEach((challenge, id) => {
+      if (new Date(challenge.expiresAt).getTime() <= now) {
+        this.challenges.delete(id);
+      }
+    });
+  }
+}
+
+function measureFrame(frame: FaceFrame): FrameMeasure | null {
+  const region = findFaceRegion(frame);
+  if (!region) {
+    return null;
+  }
+  const face = grayscaleRegion(frame, region, SAMPLE_SIZE);
+
+  // The region is square; keep to the oval inside it so the background does not count
+  const inside: number[] = [];
+  const eyeBand: number[] = [];
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const dx = (x + 0.5) / SAMPLE_SIZE - 0.5;
+      const dy = (y + 0.5) / SAMPLE_SIZE - 0.5;
+      if ((dx / FACE_OVAL_WIDTH) ** 2 + (dy / FACE_OVAL_HEIGHT) ** 2 > 1) {
+        continue;
+      }
+      const index = y * SAMPLE_SIZE + x;
+      inside.push(index);
+      if (y >= SAMPLE_SIZE * 0.25 && y < SAMPLE_SIZE * 0.45) {
+        eyeBand.push(face[index]);
+      }
+    }
+  }
+  const values = Float64Array.from(inside, index => face[index]);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const cutoff = mean - 0.5 * standardDeviation(values);
+
+  // Eyes, brows, nose and mouth are the darkest parts of the face
+  let weight = 0;
+  let sumX = 0;
+  inside.forEach(index => {
+    const darkness = cutoff - face[index];
+    if (darkness > 0) {
+      weight += darkness;
+      sumX += darkness * (index % SAMPLE_SIZE);
+    }
+  });
+
+  return {
+    face,
+    featureOffset: weight > 0 ? sumX / weight / (SAMPLE_SIZE - 1) - 0.5 : 0,
+    eyeContrast: standardDeviation(Float64Array.from(eyeBand)),
+  };
+}
+
+function isStatic(measures: FrameMeasure[]): boolean {
+  let largest = 0;
+  for (let i = 1; i < measures.length; i++) {
+    const a = measures[i - 1].face;
+    const b = measures[i].face;
+    let difference = 0;
+    for (let j = 0; j < a.length; j++) {
+      difference += Math.abs(a[j] - b[j]);
+    }
+    largest = Math.max(largest, difference / a.length);
+  }
+  return largest < STATIC_DIFFERENCE;
+}
+
+/**
+ * Whether each face resembles the one before it, so the face that was matched is the one that moved
+ */
+function isContinuous(measures: FrameMeasure[]): boolean {
+  for (let i = 1; i < measures.length; i++) {
+    if (correlation(Array.from(measures[i - 1].face), Array.from(measures[i].face)) < MIN_CONTINUITY) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function sameFrame(a: FaceFrame | undefined, b: FaceFrame): boolean {
+  if (!a || a.width !== b.width || a.height !== b.height || a.data.length !== b.data.length) {
+    return false;
+  }
+  for (let i = 0; i < a.data.length; i++) {
+    if (a.data[i] !== b.data[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function promptFollowed(prompt: LivenessPrompt, measures: FrameMeasure[]): boolean {
+  if (prompt === 'blink') {
+    const usual = median(measures.map(m => m.eyeContrast));
+    const closed = measures.findIndex(m => m.eyeContrast < usual * BLINK_CLOSED);
+    return closed >= 0 && measures.slice(closed + 1).some(m => m.eyeContrast >= usual * BLINK_OPEN);
+  }
+
+  // Turning to the user's left shows the camera more of their right cheek, moving the
+  // features towards the right of the unmirrored frame
+  const direction = prompt === 'turn_left' ? 1 : -1;
+  const start = measures[0].featureOffset;
+  return measures.some(m => (m.featureOffset - start) * direction >= TURN_SHIFT);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,221 @@
+/**
+ * Money.ts
+ * Exact monetary amounts stored as integer minor units
+ */
+import { SecurePayError } from './SecurePayError';
+
+/**
+ * Number of minor-unit digits per ISO 4217 currency. Currencies not listed use 2
+ */
+export const ISO_4217_EXPONENTS: Readonly<Record<string, number>> = {
+  // Zero-decimal currencies
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  // Three-decimal currencies
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  // Four-decimal currencies
+  CLF: 4, UYW: 4,
+};
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const DECIMAL = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+export class MoneyError extends SecurePayError {
+  constructor(message: string) {
+    super(message, 'invalid_money');
+    this.name = 'MoneyError';
+  }
+}
+
+/**
+ * Minor-unit digits for `currency`
+ */
+export function getCurrencyExponent(currency: string): number {
+  return ISO_4217_EXPONENTS[currency] ?? 2;
+}
+
+/**
+ * An amount of a single currency. Arithmetic and comparisons are exact;
+ * `toNumber()` is for display only.
+ */
+export class Money {
+  private constructor(
+    public readonly minorUnits: number,
+    public readonly currency: string
+  ) {}
+
+  /**
+   * Build from integer minor units, e.g. `Money.of(1050, 'USD')` is $10.50
+   */
+  public static of(minorUnits: number, currency: string): Money {
+    if (!CURRENCY_CODE.test(currency)) {
+      throw new MoneyError(`"${currency}" is not an ISO 4217 currency code`);
+    }
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new MoneyError(`Minor units must be a safe integer, got ${minorUnits}`);
+    }
+    return new Money(minorUnits, currency);
+  }
+
+  /**
+   * Parse a decimal amount in major units, e.g. `Money.parse('10.50', 'USD')`.
+   * Group separators are ignored. Throws MoneyError when the amount has more
+   * decimal places than the currency allows.
+   */
+  public static parse(value: string | number, currency: string): Money {
+    const text = String(value).trim().replace(/[,\s_]/g, '');
+    const match = DECIMAL.exec(text);
+    if (!match) {
+      throw new MoneyError(`"${value}" is not a decimal amount`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const exponent = getCurrencyExponent(currency);
+    const significant = fraction.replace(/0+$/, '');
+    if (significant.length > exponent) {
+      throw new MoneyError(`${currency} amounts have at most ${exponent} decimal places, got "${value}"`);
+    }
+
+    const minorUnits = Number(`${sign || ''}${whole}${fraction.padEnd(exponent, '0').slice(0, exponent)}`);
+    return Money.of(minorUnits === 0 ? 0 : minorUnits, currency);
+  }
+
+  public static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Rebuild a Money from its JSON form
+   */
+  public static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.minorUnits, json.currency);
+  }
+
+  public static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  public get exponent(): number {
+    return getCurrencyExponent(this.currency);
+  }
+
+  public add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  public subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * Negative, zero or positive as this amount is less than, equal to or greater than `other`
+   */
+  public compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  /**
+   * Compare against a plain decimal amount in major units without rounding,
+   * e.g. `Money.parse('0.30', 'USD').compareToDecimal(0.3)` is 0
+   */
+  public compareToDecimal(value: number): number {
+    const { numerator, denominator } = toRatio(value);
+    // minorUnits / 10^exponent  vs  numerator / denominator
+    const left = BigInt(this.minorUnits) * denominator;
+    const right = numerator * 10n ** BigInt(this.exponent);
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+
+  public equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  public isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  public isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  /**
+   * Exact decimal representation in major units, e.g. "10.50"
+   */
+  public toDecimalString(): string {
+    const exponent = this.exponent;
+    const digits = Math.abs(this.minorUnits).toString().padStart(exponent + 1, '0');
+    const sign = this.minorUnits < 0 ? '-' : '';
+    if (exponent === 0) {
+      return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+  }
+
+  /**
+   * Closest JavaScript number in major units. Not exact; use for display and rough comparisons
+   */
+  public toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /**
+   * Localised currency string, e.g. "$10.50" or "¥1,000"
+   */
+  public format(locale?: string): string {
+    const exponent = this.exponent;
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
+    }).format(this.toNumber());
+  }
+
+  public toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  public toJSON(): MoneyJSON {
+    return { minorUnits: this.minorUnits, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new MoneyError(`Cannot combine ${this.currency} with ${other.currency}`);
+    }
+  }
+}
+
+export interface MoneyJSON {
+  minorUnits: number;
+  currency: string;
+}
+
+/**
+ * An exact fraction, used to apply exchange rates without rounding
+ */
+export interface Ratio {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+/**
+ * The exact value of a finite JavaScript number as written in decimal,
+ * e.g. 0.92 becomes 92/100
+ */
+export function toRatio(value: number): Ratio {
+  const match = /^(-)?(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(value.toString());
+  if (!match) {
+    throw new MoneyError(`${value} is not a finite number`);
+  }
+
+  const [, sign, whole, fraction = '', exp = '0'] = match;
+  const scale = Number(exp) - fraction.length;
+  const digits = BigInt(`${sign || ''}${whole}${fraction}`);
+  return scale >= 0
+    ? { numerator: digits * 10n ** BigInt(scale), denominator: 1n }
+    : { numerator: digits, denominator: 10n ** BigInt(-scale) };
+}
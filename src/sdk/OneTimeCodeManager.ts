@@ -0,0 +1,283 @@
+/**
+ * OneTimeCodeManager.ts
+ * Single-use verification codes sent to the account holder for a specific transaction
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+import { Transaction } from './TrustedDeviceManager';
+import { MoneyJSON } from './Money';
+import { bytesToBase64, utf8Encode } from './CryptoUtils';
+import { VerificationCodeError } from './SecurePayError';
+
+const CODE_DIGITS = 6;
+const SALT_BYTES = 16;
+
+export interface OneTimeCodeManagerOptions {
+  ttlMs: number;
+  /**
+   * Wrong codes allowed before verification locks out
+   */
+  maxAttempts: number;
+  /**
+   * Minimum time between two codes being issued
+   */
+  resendIntervalMs: number;
+  lockoutMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+export interface IssuedVerificationCode {
+  /**
+   * The code to deliver to the account holder. Only its hash is stored
+   */
+  code: string;
+  transactionId: string;
+  expiresAt: string;
+}
+
+/**
+ * no_code: no code has been issued, or it was already used
+ * expired: the code is older than its time to live
+ * transaction_mismatch: the code was issued for a different transaction or amount
+ * incorrect: the code is wrong; `attemptsRemaining` says how many tries are left
+ * locked_out: too many wrong codes; `retryAfterMs` says when a new code can be requested
+ */
+export type VerificationCodeFailureReason =
+  | 'no_code'
+  | 'expired'
+  | 'transaction_mismatch'
+  | 'incorrect'
+  | 'locked_out';
+
+export interface VerificationCodeResult {
+  valid: boolean;
+  reason?: VerificationCodeFailureReason;
+  attemptsRemaining?: number;
+  retryAfterMs?: number;
+}
+
+interface PendingCode {
+  salt: string;
+  /**
+   * SHA-256 of the salt, code, transaction ID and amount
+   */
+  hash: string;
+  transactionId: string;
+  amount: MoneyJSON;
+  expiresAt: string;
+}
+
+interface StoredCodeState {
+  pending: PendingCode | null;
+  /**
+   * Wrong codes entered since the last success or lockout, across resends
+   */
+  failedAttempts: number;
+  lastIssuedAt?: string;
+  lockedUntil?: string;
+}
+
+export class OneTimeCodeManager {
+  private static readonly CODE_STATE_KEY = 'verification_code';
+
+  /**
+   * Storage keys holding code hashes and what they were issued for; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [OneTimeCodeManager.CODE_STATE_KEY];
+
+  // State is read and written back around an await, so issuing and checking codes run one at a time;
+  // otherwise parallel guesses would all read the same attempt count
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: OneTimeCodeManagerOptions
+  ) {}
+
+  /**
+   * Issue a code for `transaction`, replacing any code issued before.
+   * Throws VerificationCodeError while locked out or when asked again too soon
+   */
+  public issue(transaction: Transaction): Promise<IssuedVerificationCode> {
+    return this.serialize(() => this.issueCode(transaction));
+  }
+
+  /**
+   * Check a code entered for `transaction`. A correct code is consumed; a wrong one
+   * counts towards the lockout but leaves the code usable for another try
+   */
+  public verify(code: string, transaction: Transaction): Promise<VerificationCodeResult> {
+    return this.serialize(() => this.checkCode(code, transaction));
+  }
+
+  /**
+   * Discard the outstanding code, e.g. when the user cancels the transaction
+   */
+  public cancel(): void {
+    const state = this.readState();
+    if (state.pending) {
+      this.saveState({ ...state, pending: null });
+    }
+  }
+
+  /**
+   * Withdraw a code that could not be delivered, so another can be requested straight away
+   */
+  public withdraw(transactionId: string): void {
+    const state = this.readState();
+    if (state.pending?.transactionId === transactionId) {
+      this.saveState({ pending: null, failedAttempts: state.failedAttempts, lockedUntil: state.lockedUntil });
+    }
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async issueCode(transaction: Transaction): Promise<IssuedVerificationCode> {
+    const { clock, ttlMs, resendIntervalMs } = this.options;
+    const state = this.readState();
+    const now = clock.now();
+
+    const lockedFor = this.lockedFor(state);
+    if (lockedFor > 0) {
+      throw new VerificationCodeError('locked_out', "Too many incorrect codes. Try again later", lockedFor);
+    }
+
+    const nextIssueAt = state.lastIssuedAt ? new Date(state.lastIssuedAt).getTime() + resendIntervalMs : 0;
+    if (now < nextIssueAt) {
+      throw new VerificationCodeError('resend_throttled', "A code was sent recently. Wait before requesting another", nextIssueAt - now);
+    }
+
+    const code = generateCode();
+    const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+    const amount = transaction.amount.toJSON();
+    const expiresAt = new Date(now + ttlMs).toISOString();
+
+    this.saveState({
+      pending: {
+        salt,
+        hash: await hashCode(salt, code, transaction.id, amount),
+        transactionId: transaction.id,
+        amount,
+        expiresAt,
+      },
+      failedAttempts: state.failedAttempts,
+      lastIssuedAt: new Date(now).toISOString(),
+    });
+
+    return { code, transactionId: transaction.id, expiresAt };
+  }
+
+  private async checkCode(code: string, transaction: Transaction): Promise<VerificationCodeResult> {
+    const { clock, maxAttempts, lockoutMs, logger } = this.options;
+    const state = this.readState();
+
+    const lockedFor = this.lockedFor(state);
+    if (lockedFor > 0) {
+      return { valid: false, reason: 'locked_out', retryAfterMs: lockedFor };
+    }
+
+    const { pending } = state;
+    if (!pending) {
+      return { valid: false, reason: 'no_code' };
+    }
+
+    if (new Date(pending.expiresAt).getTime() <= clock.now()) {
+      this.saveState({ ...state, pending: null });
+      return { valid: false, reason: 'expired' };
+    }
+
+    const amount = transaction.amount.toJSON();
+    if (pending.transactionId !== transaction.id
+      || pending.amount.currency !== amount.currency
+      || pending.amount.minorUnits !== amount.minorUnits) {
+      logger.warn("Verification code presented for a different transaction");
+      return { valid: false, reason: 'transaction_mismatch' };
+    }
+
+    const hash = await hashCode(pending.salt, code, transaction.id, amount);
+    if (constantTimeEqual(hash, pending.hash)) {
+      // The next transaction can have a code straight away
+      this.saveState({ pending: null, failedAttempts: 0 });
+      return { valid: true };
+    }
+
+    const failedAttempts = state.failedAttempts + 1;
+    if (failedAttempts >= maxAttempts) {
+      logger.warn("Verification locked out after too many incorrect codes");
+      this.saveState({
+        pending: null,
+        failedAttempts: 0,
+        lastIssuedAt: state.lastIssuedAt,
+        lockedUntil: new Date(clock.now() + lockoutMs).toISOString(),
+      });
+      return { valid: false, reason: 'locked_out', retryAfterMs: lockoutMs };
+    }
+
+    this.saveState({ ...state, failedAttempts });
+    return { valid: false, reason: 'incorrect', attemptsRemaining: maxAttempts - failedAttempts };
+  }
+
+  private lockedFor(state: StoredCodeState): number {
+    if (!state.lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, new Date(state.lockedUntil).getTime() - this.options.clock.now());
+  }
+
+  private readState(): StoredCodeState {
+    const stored = this.storage.getItem(OneTimeCodeManager.CODE_STATE_KEY);
+    if (!stored) {
+      return { pending: null, failedAttempts: 0 };
+    }
+
+    try {
+      const state = JSON.parse(stored);
+      // Earlier versions stored the bare code
+      if (typeof state !== 'object' || state === null) {
+        return { pending: null, failedAttempts: 0 };
+      }
+      return state;
+    } catch (error) {
+      this.options.logger.error("Failed to parse verification code state:", error);
+      return { pending: null, failedAttempts: 0 };
+    }
+  }
+
+  private saveState(state: StoredCodeState): void {
+    this.storage.setItem(OneTimeCodeManager.CODE_STATE_KEY, JSON.stringify(state));
+  }
+}
+
+/**
+ * Uniformly random numeric code; rejection sampling avoids modulo bias
+ */
+function generateCode(): string {
+  const range = 10 ** CODE_DIGITS;
+  const limit = Math.floor(0x100000000 / range) * range;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return (buffer[0] % range).toString().padStart(CODE_DIGITS, '0');
+}
+
+async function hashCode(salt: string, code: string, transactionId: string, amount: MoneyJSON): Promise<string> {
+  const input = [salt, code, transactionId, amount.currency, amount.minorUnits].join(':');
+  return bytesToBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', utf8Encode(input))));
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
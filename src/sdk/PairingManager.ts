@@ -0,0 +1,507 @@
+/**
+ * PairingManager.ts
+ * Two-way device pairing with short authentication string (SAS) confirmation
+ *
+ * 1. The primary device hosts a session and shows a signed, single-use QR code.
+ * 2. The scanning device verifies the code and answers with its own DeviceInfo,
+ *    public keys and a commitment to a secret nonce over a PairingTransport.
+ * 3. The primary device answers with a fresh nonce of its own, then the scanning
+ *    device reveals its nonce and the primary checks it against the commitment.
+ * 4. Both devices derive the same 6-digit SAS from the exchanged keys and nonces and show it.
+ * 5. Once the user confirms on the primary device that the codes match, each
+ *    device adds the other to its trusted devices.
+ *
+ * Each side fixes its contribution before it sees the other's, so a man in the middle
+ * cannot search offline for keys or nonces that give both devices the same SAS.
+ */
+import { DeviceFingerprint, DeviceInfo } from './DeviceFingerprint';
+import { DeviceKeyManager, DevicePublicKeys } from './DeviceKeyManager';
+import { GenerateQRCodeOptions, QRCodeData, QRCodeManager } from './QRCodeManager';
+import { TrustedDevice, TrustedDeviceManager } from './TrustedDeviceManager';
+import {
+  PairChallengeMessage,
+  PairConfirmMessage,
+  PairingMessage,
+  PairingTransport,
+  PairRequestMessage,
+  PairRevealMessage,
+} from './PairingTransport';
+import { Clock, Logger } from './SecurePayConfig';
+import { SecurePayError } from './SecurePayError';
+import { bytesToBase64, utf8Encode } from './CryptoUtils';
+
+export type PairingState =
+  | 'waiting_for_peer'
+  | 'awaiting_confirmation'
+  | 'completed'
+  | 'rejected'
+  | 'expired'
+  | 'failed';
+
+export interface PairingSnapshot {
+  state: PairingState;
+  /**
+   * 6-digit code both devices display once keys have been exchanged
+   */
+  shortAuthString: string | null;
+  peerDevice: DeviceInfo | null;
+  error: string | null;
+}
+
+export interface PairingOptions {
+  transport?: PairingTransport;
+}
+
+export interface HostPairingOptions extends PairingOptions, GenerateQRCodeOptions {}
+
+interface PairingDependencies {
+  fingerprint: DeviceFingerprint;
+  deviceKeys: DeviceKeyManager;
+  qrCodeManager: QRCodeManager;
+  deviceManager: TrustedDeviceManager;
+  createTransport: () => PairingTransport;
+  clock: Clock;
+  logger: Logger;
+}
+
+const SAS_CONTEXT = 'securepay-sas-v2';
+const COMMITMENT_CONTEXT = 'securepay-pairing-commitment-v1';
+
+function keyCoordinates(keys: DevicePublicKeys): (string | undefined)[] {
+  return [keys.signing.x, keys.signing.y, keys.agreement.x, keys.agreement.y];
+}
+
+function digest(parts: unknown[]): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', utf8Encode(JSON.stringify(parts)));
+}
+
+function generateNonce(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Commitment the scanning device sends in place of its nonce, binding the nonce to its keys
+ */
+export async function computePairingCommitment(
+  sessionToken: string,
+  guestKeys: DevicePublicKeys,
+  guestNonce: string
+): Promise<string> {
+  return bytesToBase64(new Uint8Array(await digest([COMMITMENT_CONTEXT, sessionToken, ...keyCoordinates(guestKeys), guestNonce])));
+}
+
+/**
+ * Derive the 6-digit short authentication string from everything the devices exchanged.
+ * A man in the middle substituting either key changes the result on one side only,
+ * and the nonces keep it from choosing keys that collide.
+ */
+export async function computeShortAuthString(
+  sessionToken: string,
+  hostKeys: DevicePublicKeys,
+  guestKeys: DevicePublicKeys,
+  hostNonce: string,
+  guestNonce: string
+): Promise<string> {
+  const transcript = new DataView(await digest([
+    SAS_CONTEXT,
+    sessionToken,
+    ...keyCoordinates(hostKeys),
+    ...keyCoordinates(guestKeys),
+    hostNonce,
+    guestNonce,
+  ]));
+  return (transcript.getUint32(0) % 1000000).toString().padStart(6, '0');
+}
+
+function requestSignedContent(message: Omit<PairRequestMessage, 'signature'>): string {
+  return JSON.stringify([message.type, message.sessionToken, message.deviceInfo, message.publicKeys, message.commitment]);
+}
+
+function challengeSignedContent(message: Omit<PairChallengeMessage, 'signature'>, commitment: string): string {
+  // Binding the commitment means a challenge answers this scanning device only
+  return JSON.stringify([message.type, message.sessionToken, message.nonce, commitment]);
+}
+
+function revealSignedContent(message: Omit<PairRevealMessage, 'signature'>, hostNonce: string): string {
+  return JSON.stringify([message.type, message.sessionToken, message.nonce, hostNonce]);
+}
+
+function confirmSignedContent(
+  message: Omit<PairConfirmMessage, 'signature'>,
+  guestKeys: DevicePublicKeys,
+  hostNonce: string,
+  guestNonce: string
+): string {
+  // Binding the guest's key and both nonces means a confirmation cannot be replayed to another device
+  return JSON.stringify([message.type, message.sessionToken, message.deviceInfo, guestKeys.signing, hostNonce, guestNonce]);
+}
+
+/**
+ * State shared by both ends of a pairing
+ */
+abstract class PairingSession {
+  protected snapshot: PairingSnapshot = {
+    state: 'waiting_for_peer',
+    shortAuthString: null,
+    peerDevice: null,
+    error: null,
+  };
+  private readonly listeners = new Set<(snapshot: PairingSnapshot) => void>();
+  private unsubscribeTransport: (() => void) | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    public readonly sessionToken: string,
+    public readonly expiresAt: string,
+    protected readonly transport: PairingTransport,
+    protected readonly deps: PairingDependencies
+  ) {}
+
+  public get state(): PairingState {
+    return this.snapshot.state;
+  }
+
+  public getSnapshot(): PairingSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Listen for state changes. Returns an unsubscribe function
+   */
+  public onChange(listener: (snapshot: PairingSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Abandon the pairing on this device
+   */
+  public cancel(): void {
+    if (!this.isFinished()) {
+      this.finish({ state: 'rejected', error: 'Pairing cancelled' });
+    }
+  }
+
+  protected start(): void {
+    this.unsubscribeTransport = this.transport.subscribe(message => {
+      if (message.sessionToken !== this.sessionToken || this.isFinished()) {
+        return;
+      }
+      this.handleMessage(message).catch(error => {
+        this.deps.logger.error("Pairing failed:", error);
+        this.finish({ state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    const remaining = new Date(this.expiresAt).getTime() - this.deps.clock.now();
+    this.expiryTimer = setTimeout(() => {
+      if (!this.isFinished()) {
+        this.finish({ state: 'expired', error: 'Pairing code expired' });
+      }
+    }, Math.max(remaining, 0));
+  }
+
+  protected abstract handleMessage(message: PairingMessage): Promise<void>;
+
+  protected update(changes: Partial<PairingSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  protected finish(changes: Partial<PairingSnapshot>): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+    }
+    this.unsubscribeTransport?.();
+    this.transport.close();
+    this.update(changes);
+  }
+
+  protected isFinished(): boolean {
+    return ['completed', 'rejected', 'expired', 'failed'].includes(this.snapshot.state);
+  }
+}
+
+/**
+ * Primary device side: shows the QR code and confirms the SAS
+ */
+export class PairingHostSession extends PairingSession {
+  private guest: {
+    deviceInfo: DeviceInfo;
+    publicKeys: DevicePublicKeys;
+    commitment: string;
+    nonce: string | null;
+  } | null = null;
+  private nonce: string | null = null;
+
+  constructor(
+    public readonly qrData: string,
+    sessionToken: string,
+    expiresAt: string,
+    transport: PairingTransport,
+    deps: PairingDependencies
+  ) {
+    super(sessionToken, expiresAt, transport, deps);
+    this.start();
+  }
+
+  /**
+   * The user saw the same SAS on both devices: trust the scanning device and tell it so
+   */
+  public async confirm(): Promise<TrustedDevice> {
+    if (this.state !== 'awaiting_confirmation' || !this.guest?.nonce || !this.nonce) {
+      throw new SecurePayError("No pairing request is awaiting confirmation", 'pairing_not_ready');
+    }
+
+    const { deviceInfo, publicKeys, nonce: guestNonce } = this.guest;
+    const { qrCodeManager, deviceManager, deviceKeys, fingerprint } = this.deps;
+
+    qrCodeManager.consumeSession({ sessionToken: this.sessionToken, expiresAt: this.expiresAt }, deviceInfo.deviceId);
+    const device = deviceManager.addLinkedDevice(deviceInfo, publicKeys);
+
+    const confirmation: Omit<PairConfirmMessage, 'signature'> = {
+      type: 'pair_confirm',
+      sessionToken: this.sessionToken,
+      deviceInfo: fingerprint.generateFingerprint(),
+    };
+    this.transport.send({
+      ...confirmation,
+      signature: await deviceKeys.sign(confirmSignedContent(confirmation, publicKeys, this.nonce, guestNonce)),
+    });
+
+    this.finish({ state: 'completed' });
+    return device;
+  }
+
+  /**
+   * The codes did not match (or the user changed their mind): burn the QR session
+   */
+  public reject(reason: string = 'Pairing rejected on the primary device'): void {
+    if (this.isFinished()) {
+      return;
+    }
+    this.deps.qrCodeManager.revokeQRSession(this.sessionToken);
+    this.transport.send({ type: 'pair_reject', sessionToken: this.sessionToken, reason });
+    this.finish({ state: 'rejected', error: reason });
+  }
+
+  public cancel(): void {
+    this.reject('Pairing cancelled on the primary device');
+  }
+
+  protected async handleMessage(message: PairingMessage): Promise<void> {
+    if (message.type === 'pair_request') {
+      await this.handleRequest(message);
+    } else if (message.type === 'pair_reveal') {
+      await this.handleReveal(message);
+    }
+  }
+
+  private async handleRequest(message: PairRequestMessage): Promise<void> {
+    // Only the first request is considered; a second one means someone else scanned the code
+    if (this.state !== 'waiting_for_peer' || this.guest) {
+      return;
+    }
+
+    const { signature, ...request } = message;
+    const { qrCodeManager, deviceManager, deviceKeys, logger } = this.deps;
+
+    const sessionActive = qrCodeManager.getActiveQRSessions().some(s => s.token === this.sessionToken);
+    const signatureValid = await DeviceKeyManager.verify(request.publicKeys.signing, requestSignedContent(request), signature);
+    const keysMatch = deviceManager.hasMatchingKeys(request.deviceInfo.deviceId, request.publicKeys);
+
+    if (!sessionActive || !signatureValid || !keysMatch || !request.commitment) {
+      const reason = !sessionActive ? 'QR session is no longer active'
+        : !signatureValid ? 'Pairing request signature is invalid'
+        : !keysMatch ? 'Device is already trusted with a different key'
+        : 'Pairing request carries no commitment';
+      logger.error(`Rejecting pairing request: ${reason}`);
+      this.reject(reason);
+      return;
+    }
+
+    this.guest = { deviceInfo: request.deviceInfo, publicKeys: request.publicKeys, commitment: request.commitment, nonce: null };
+    this.nonce = generateNonce();
+
+    const challenge: Omit<PairChallengeMessage, 'signature'> = {
+      type: 'pair_challenge',
+      sessionToken: this.sessionToken,
+      nonce: this.nonce,
+    };
+    this.transport.send({
+      ...challenge,
+      signature: await deviceKeys.sign(challengeSignedContent(challenge, request.commitment)),
+    });
+  }
+
+  private async handleReveal(message: PairRevealMessage): Promise<void> {
+    if (this.state !== 'waiting_for_peer' || !this.guest || this.guest.nonce || !this.nonce) {
+      return;
+    }
+
+    const { signature, ...reveal } = message;
+    const { deviceKeys, logger } = this.deps;
+
+    if (!await DeviceKeyManager.verify(this.guest.publicKeys.signing, revealSignedContent(reveal, this.nonce), signature)) {
+      // Not from the device that sent the request; keep waiting for the genuine reveal
+      logger.error("Ignoring pairing reveal with an invalid signature");
+      return;
+    }
+
+    const expected = await computePairingCommitment(this.sessionToken, this.guest.publicKeys, reveal.nonce);
+    if (expected !== this.guest.commitment) {
+      logger.error("Rejecting pairing request: revealed nonce does not match the commitment");
+      this.reject('Pairing nonce does not match its commitment');
+      return;
+    }
+
+    this.guest.nonce = reveal.nonce;
+    this.update({
+      state: 'awaiting_confirmation',
+      peerDevice: this.guest.deviceInfo,
+      shortAuthString: await computeShortAuthString(
+        this.sessionToken,
+        deviceKeys.getPublicKeys(),
+        this.guest.publicKeys,
+        this.nonce,
+        reveal.nonce
+      ),
+    });
+  }
+}
+
+/**
+ * Scanning device side: answers the QR code and waits for the primary to confirm
+ */
+export class PairingGuestSession extends PairingSession {
+  private commitment: string | null = null;
+  private hostNonce: string | null = null;
+
+  constructor(
+    private readonly host: QRCodeData,
+    private readonly nonce: string,
+    transport: PairingTransport,
+    deps: PairingDependencies
+  ) {
+    super(host.sessionToken, host.expiresAt, transport, deps);
+    this.snapshot.peerDevice = host.deviceInfo;
+    this.start();
+  }
+
+  /**
+   * Send the pairing request, committing to this device's nonce.
+   * The SAS is shown once the primary device has answered with its own nonce
+   */
+  public async begin(): Promise<void> {
+    const { deviceKeys, fingerprint } = this.deps;
+    const publicKeys = deviceKeys.getPublicKeys();
+    this.commitment = await computePairingCommitment(this.sessionToken, publicKeys, this.nonce);
+
+    const request: Omit<PairRequestMessage, 'signature'> = {
+      type: 'pair_request',
+      sessionToken: this.sessionToken,
+      deviceInfo: fingerprint.generateFingerprint(),
+      publicKeys,
+      commitment: this.commitment,
+    };
+    this.transport.send({ ...request, signature: await deviceKeys.sign(requestSignedContent(request)) });
+  }
+
+  protected async handleMessage(message: PairingMessage): Promise<void> {
+    if (message.type === 'pair_reject') {
+      this.finish({ state: 'rejected', error: message.reason });
+    } else if (message.type === 'pair_challenge') {
+      await this.handleChallenge(message);
+    } else if (message.type === 'pair_confirm') {
+      await this.handleConfirm(message);
+    }
+  }
+
+  private async handleChallenge(message: PairChallengeMessage): Promise<void> {
+    if (this.state !== 'waiting_for_peer' || !this.commitment || this.hostNonce) {
+      return;
+    }
+
+    const { signature, ...challenge } = message;
+    const { deviceKeys, logger } = this.deps;
+
+    if (!await DeviceKeyManager.verify(this.host.publicKeys.signing, challengeSignedContent(challenge, this.commitment), signature)) {
+      // Not from the device in the QR code; keep waiting for the genuine challenge
+      logger.error("Ignoring pairing challenge with an invalid signature");
+      return;
+    }
+
+    this.hostNonce = challenge.nonce;
+    const reveal: Omit<PairRevealMessage, 'signature'> = {
+      type: 'pair_reveal',
+      sessionToken: this.sessionToken,
+      nonce: this.nonce,
+    };
+    this.transport.send({ ...reveal, signature: await deviceKeys.sign(revealSignedContent(reveal, this.hostNonce)) });
+
+    this.update({
+      state: 'awaiting_confirmation',
+      shortAuthString: await computeShortAuthString(
+        this.sessionToken,
+        this.host.publicKeys,
+        deviceKeys.getPublicKeys(),
+        this.hostNonce,
+        this.nonce
+      ),
+    });
+  }
+
+  private async handleConfirm(message: PairConfirmMessage): Promise<void> {
+    if (this.state !== 'awaiting_confirmation' || !this.hostNonce) {
+      return;
+    }
+
+    const { signature, ...confirmation } = message;
+    const { deviceKeys, qrCodeManager, deviceManager, logger } = this.deps;
+
+    const signed = confirmSignedContent(confirmation, deviceKeys.getPublicKeys(), this.hostNonce, this.nonce);
+    if (!await DeviceKeyManager.verify(this.host.publicKeys.signing, signed, signature)) {
+      // Not from the device in the QR code; keep waiting for the genuine confirmation
+      logger.error("Ignoring pairing confirmation with an invalid signature");
+      return;
+    }
+
+    qrCodeManager.consumeSession(this.host, this.host.deviceInfo.deviceId);
+    deviceManager.addLinkedDevice(this.host.deviceInfo, this.host.publicKeys);
+    this.finish({ state: 'completed' });
+  }
+}
+
+export class PairingManager {
+  constructor(private readonly deps: PairingDependencies) {}
+
+  /**
+   * Start a pairing session on the primary device. Show `qrData` to the other device
+   */
+  public async host(options: HostPairingOptions = {}): Promise<PairingHostSession> {
+    const { transport, ...qrOptions } = options;
+    const issued = await this.deps.qrCodeManager.issueQRCode(qrOptions);
+    return new PairingHostSession(
+      issued.qrData,
+      issued.session.token,
+      issued.session.expiresAt,
+      transport || this.deps.createTransport(),
+      this.deps
+    );
+  }
+
+  /**
+   * Answer a scanned pairing QR code. Throws QRCodeError when the code is rejected
+   */
+  public async join(qrData: string, options: PairingOptions = {}): Promise<PairingGuestSession> {
+    const { qrCodeManager, deviceManager } = this.deps;
+    const parsed = await qrCodeManager.parseQRCodeData(qrData);
+    await deviceManager.verifyLinkingCode(parsed);
+    qrCodeManager.assertSessionUsable(parsed.data.sessionToken);
+
+    const session = new PairingGuestSession(parsed.data, generateNonce(), options.transport || this.deps.createTransport(), this.deps);
+    await session.begin();
+    return session;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * PairingTransport.ts
+ * Message channels used by the device pairing handshake
+ */
+import { DeviceInfo } from './DeviceFingerprint';
+import { DevicePublicKeys } from './DeviceKeyManager';
+
+/**
+ * Scanner -> primary: "I scanned your code, here is who I am".
+ * The scanner's nonce stays secret until the primary has sent its own; only a commitment to it is sent here
+ */
+export interface PairRequestMessage {
+  type: 'pair_request';
+  sessionToken: string;
+  deviceInfo: DeviceInfo;
+  publicKeys: DevicePublicKeys;
+  /**
+   * Hash of the scanner's public keys and nonce
+   */
+  commitment: string;
+  signature: string;
+}
+
+/**
+ * Primary -> scanner: a fresh nonce, sent once the scanner has committed to its own
+ */
+export interface PairChallengeMessage {
+  type: 'pair_challenge';
+  sessionToken: string;
+  nonce: string;
+  signature: string;
+}
+
+/**
+ * Scanner -> primary: the nonce committed to in the request
+ */
+export interface PairRevealMessage {
+  type: 'pair_reveal';
+  sessionToken: string;
+  nonce: string;
+  signature: string;
+}
+
+/**
+ * Primary -> scanner: the user confirmed matching codes on the primary device
+ */
+export interface PairConfirmMessage {
+  type: 'pair_confirm';
+  sessionToken: string;
+  deviceInfo: DeviceInfo;
+  signature: string;
+}
+
+/**
+ * Primary -> scanner: the pairing was refused or could not be verified
+ */
+export interface PairRejectMessage {
+  type: 'pair_reject';
+  sessionToken: string;
+  reason: string;
+}
+
+export type PairingMessage =
+  | PairRequestMessage
+  | PairChallengeMessage
+  | PairRevealMessage
+  | PairConfirmMessage
+  | PairRejectMessage;
+
+/**
+ * Delivers pairing messages between the two devices. Like BroadcastChannel,
+ * a transport never receives the messages it sent itself.
+ */
+export interface PairingTransport {
+  send(message: PairingMessage): void;
+  subscribe(handler: (message: PairingMessage) => void): () => void;
+  close(): void;
+}
+
+/**
+ * Connects SDK instances living in the same JavaScript realm. For tests and development
+ */
+export class InMemoryPairingTransport implements PairingTransport {
+  private static readonly channels = new Map<string, Set<InMemoryPairingTransport>>();
+  private readonly handlers = new Set<(message: PairingMessage) => void>();
+
+  constructor(private readonly channelName: string = 'securepay-pairing') {
+    const peers = InMemoryPairingTransport.channels.get(channelName) || new Set();
+    peers.add(this);
+    InMemoryPairingTransport.channels.set(channelName, peers);
+  }
+
+  public send(message: PairingMessage): void {
+    const peers = InMemoryPairingTransport.channels.get(this.channelName) || new Set();
+    // Copy and deliver asynchronously, as a real channel would
+    const copy = JSON.parse(JSON.stringify(message)) as PairingMessage;
+    peers.forEach(peer => {
+      if (peer !== this) {
+        queueMicrotask(() => peer.handlers.forEach(handler => handler(copy)));
+      }
+    });
+  }
+
+  public subscribe(handler: (message: PairingMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  public close(): void {
+    this.handlers.clear();
+    InMemoryPairingTransport.channels.get(this.channelName)?.delete(this);
+  }
+}
+
+/**
+ * Connects tabs and windows of the same origin. For development on a single machine
+ */
+export class BroadcastChannelPairingTransport implements PairingTransport {
+  private readonly channel: BroadcastChannel;
+
+  constructor(channelName: string = 'securepay-pairing') {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  public send(message: PairingMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(handler: (message: PairingMessage) => void): () => void {
+    const listener = (event: MessageEvent<PairingMessage>) => handler(event.data);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  public close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Pick the best local transport available in the current runtime
+ */
+export function createDefaultPairingTransport(): PairingTransport {
+  if (typeof BroadcastChannel !== 'undefined') {
+    return new BroadcastChannelPairingTransport();
+  }
+  return new InMemoryPairingTransport();
+}
@@ -0,0 +1,236 @@
+/**
+ * PasskeyAuthenticator.ts
+ * Access to WebAuthn platform authenticators (Touch ID, Windows Hello, Android biometrics)
+ */
+import { bytesToBase64Url, concatBytes, ecdsaRawToDer, sha256, utf8Encode } from './CryptoUtils';
+
+/**
+ * COSE algorithm identifiers the SDK accepts
+ */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+export interface PasskeyCreationOptions {
+  challenge: Uint8Array;
+  rpId: string;
+  rpName: string;
+  userId: Uint8Array;
+  userName: string;
+  /**
+   * Credentials already registered for this user, which the authenticator should not duplicate
+   */
+  excludeCredentialIds: Uint8Array[];
+  timeoutMs: number;
+}
+
+export interface PasskeyRequestOptions {
+  challenge: Uint8Array;
+  rpId: string;
+  allowCredentialIds: Uint8Array[];
+  timeoutMs: number;
+}
+
+export interface PasskeyRegistrationResponse {
+  credentialId: Uint8Array;
+  /**
+   * SubjectPublicKeyInfo (SPKI) encoding of the credential public key
+   */
+  publicKey: Uint8Array;
+  algorithm: number;
+  clientDataJSON: Uint8Array;
+  authenticatorData: Uint8Array;
+}
+
+export interface PasskeyAssertionResponse {
+  credentialId: Uint8Array;
+  clientDataJSON: Uint8Array;
+  authenticatorData: Uint8Array;
+  signature: Uint8Array;
+}
+
+/**
+ * The subset of WebAuthn the SDK needs. The browser implementation wraps
+ * `navigator.credentials`; tests use SoftwarePasskeyAuthenticator.
+ * Both reject with a DOMException named "NotAllowedError" when the user cancels.
+ */
+export interface PasskeyAuthenticator {
+  /**
+   * Whether a user-verifying platform authenticator is present
+   */
+  isAvailable(): Promise<boolean>;
+  create(options: PasskeyCreationOptions): Promise<PasskeyRegistrationResponse>;
+  get(options: PasskeyRequestOptions): Promise<PasskeyAssertionResponse>;
+}
+
+export class BrowserPasskeyAuthenticator implements PasskeyAuthenticator {
+  public async isAvailable(): Promise<boolean> {
+    if (typeof PublicKeyCredential === 'undefined') {
+      return false;
+    }
+    return PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  }
+
+  public async create(options: PasskeyCreationOptions): Promise<PasskeyRegistrationResponse> {
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        challenge: options.challenge,
+        rp: { id: options.rpId, name: options.rpName },
+        user: { id: options.userId, name: options.userName, displayName: options.userName },
+        pubKeyCredParams: [
+          { type: 'public-key', alg: COSE_ALG_ES256 },
+          { type: 'public-key', alg: COSE_ALG_RS256 },
+        ],
+        authenticatorSelection: {
+          authenticatorAttachment: 'platform',
+          userVerification: 'required',
+          residentKey: 'preferred',
+        },
+        excludeCredentials: options.excludeCredentialIds.map(id => ({ type: 'public-key', id })),
+        attestation: 'none',
+        timeout: options.timeoutMs,
+      },
+    }) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new DOMException("No credential was created", 'NotAllowedError');
+    }
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const publicKey = response.getPublicKey();
+    if (!publicKey) {
+      throw new DOMException("The authenticator uses an unsupported key algorithm", 'NotSupportedError');
+    }
+    return {
+      credentialId: new Uint8Array(credential.rawId),
+      publicKey: new Uint8Array(publicKey),
+      algorithm: response.getPublicKeyAlgorithm(),
+      clientDataJSON: new Uint8Array(response.clientDataJSON),
+      authenticatorData: new Uint8Array(response.getAuthenticatorData()),
+    };
+  }
+
+  public async get(options: PasskeyRequestOptions): Promise<PasskeyAssertionResponse> {
+    const credential = await navigator.credentials.get({
+      publicKey: {
+        challenge: options.challenge,
+        rpId: options.rpId,
+        allowCredentials: options.allowCredentialIds.map(id => ({ type: 'public-key', id })),
+        userVerification: 'required',
+        timeout: options.timeoutMs,
+      },
+    }) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new DOMException("No credential was selected", 'NotAllowedError');
+    }
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+      credentialId: new Uint8Array(credential.rawId),
+      clientDataJSON: new Uint8Array(response.clientDataJSON),
+      authenticatorData: new Uint8Array(response.authenticatorData),
+      signature: new Uint8Array(response.signature),
+    };
+  }
+}
+
+export interface SoftwarePasskeyAuthenticatorOptions {
+  /**
+   * Origin written into client data, as a browser would
+   */
+  origin: string;
+  /**
+   * Whether to report the user as verified. Set false to simulate a failed biometric
+   */
+  userVerified?: boolean;
+}
+
+interface SoftwareCredential {
+  rpId: string;
+  keyPair: CryptoKeyPair;
+  signCount: number;
+}
+
+// Authenticator data flags (WebAuthn §6.1)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+/**
+ * In-memory ES256 authenticator for headless tests and environments without
+ * WebAuthn. It provides no protection whatsoever; never use it in production.
+ */
+export class SoftwarePasskeyAuthenticator implements PasskeyAuthenticator {
+  private readonly credentials = new Map<string, SoftwareCredential>();
+  public userVerified: boolean;
+
+  constructor(private readonly options: SoftwarePasskeyAuthenticatorOptions) {
+    this.userVerified = options.userVerified ?? true;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  public async create(options: PasskeyCreationOptions): Promise<PasskeyRegistrationResponse> {
+    if (options.excludeCredentialIds.some(id => this.credentials.has(bytesToBase64Url(id)))) {
+      throw new DOMException("A credential for this user already exists", 'InvalidStateError');
+    }
+
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    const credentialId = crypto.getRandomValues(new Uint8Array(16));
+    const credential: SoftwareCredential = { rpId: options.rpId, keyPair, signCount: 0 };
+    this.credentials.set(bytesToBase64Url(credentialId), credential);
+
+    return {
+      credentialId,
+      publicKey: new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey)),
+      algorithm: COSE_ALG_ES256,
+      clientDataJSON: this.clientData('webauthn.create', options.challenge),
+      authenticatorData: await this.authenticatorData(credential),
+    };
+  }
+
+  public async get(options: PasskeyRequestOptions): Promise<PasskeyAssertionResponse> {
+    const credentialId = options.allowCredentialIds.find(id => {
+      const credential = this.credentials.get(bytesToBase64Url(id));
+      return credential?.rpId === options.rpId;
+    });
+    if (!credentialId) {
+      throw new DOMException("No matching credential", 'NotAllowedError');
+    }
+
+    const credential = this.credentials.get(bytesToBase64Url(credentialId));
+    credential.signCount++;
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const authenticatorData = await this.authenticatorData(credential);
+    const signed = concatBytes(authenticatorData, await sha256(clientDataJSON));
+    const signature = new Uint8Array(
+      await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, credential.keyPair.privateKey, signed)
+    );
+
+    return { credentialId, clientDataJSON, authenticatorData, signature: ecdsaRawToDer(signature) };
+  }
+
+  private clientData(type: string, challenge: Uint8Array): Uint8Array {
+    return utf8Encode(JSON.stringify({
+      type,
+      challenge: bytesToBase64Url(challenge),
+      origin: this.options.origin,
+      crossOrigin: false,
+    }));
+  }
+
+  private async authenticatorData(credential: SoftwareCredential): Promise<Uint8Array> {
+    const flags = FLAG_USER_PRESENT | (this.userVerified ? FLAG_USER_VERIFIED : 0);
+    const counter = new Uint8Array(4);
+    new DataView(counter.buffer).setUint32(0, credential.signCount);
+    return concatBytes(await sha256(utf8Encode(credential.rpId)), new Uint8Array([flags]), counter);
+  }
+}
+
+/**
+ * The browser authenticator when WebAuthn is present, otherwise null
+ */
+export function createDefaultPasskeyAuthenticator(): PasskeyAuthenticator | null {
+  return typeof navigator !== 'undefined' && !!navigator.credentials && typeof PublicKeyCredential !== 'undefined'
+    ? new BrowserPasskeyAuthenticator()
+    : null;
+}
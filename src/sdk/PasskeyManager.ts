@@ -0,0 +1,304 @@
+/**
+ * PasskeyManager.ts
+ * Registers passkeys and verifies WebAuthn assertions over transaction-bound challenges
+ */
+import { Clock, Logger } from './SecurePayConfig';
+import { Transaction } from './TrustedDeviceManager';
+import { COSE_ALG_ES256, COSE_ALG_RS256, PasskeyAuthenticator } from './PasskeyAuthenticator';
+import {
+  base64ToBytes,
+  base64UrlToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  concatBytes,
+  ecdsaDerToRaw,
+  sha256,
+  utf8Decode,
+  utf8Encode,
+} from './CryptoUtils';
+import { PasskeyError } from './SecurePayError';
+
+export interface PasskeyManagerOptions {
+  /**
+   * Null when the runtime has no WebAuthn support
+   */
+  authenticator: PasskeyAuthenticator | null;
+  rpId: string;
+  rpName: string;
+  /**
+   * Origin the client data must report
+   */
+  origin: string;
+  timeoutMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+/**
+ * A registered passkey, as stored on the TrustedDevice
+ */
+export interface PasskeyCredential {
+  /**
+   * base64url credential ID
+   */
+  credentialId: string;
+  /**
+   * base64 SPKI public key
+   */
+  publicKey: string;
+  /**
+   * COSE algorithm identifier
+   */
+  algorithm: number;
+  signCount: number;
+  createdAt: string;
+}
+
+/**
+ * invalid_client_data: wrong type or origin in the client data
+ * challenge_mismatch: the assertion was not made for this transaction
+ * rp_mismatch: the assertion was made for a different relying party
+ * user_not_verified: the authenticator did not verify the user biometrically or with a PIN
+ * unknown_credential: the assertion came from a credential not registered on this device
+ * invalid_signature: the signature does not verify against the registered public key
+ * counter_regression: the signature counter went backwards, suggesting a cloned authenticator
+ */
+export type PasskeyFailureReason =
+  | 'invalid_client_data'
+  | 'challenge_mismatch'
+  | 'rp_mismatch'
+  | 'user_not_verified'
+  | 'unknown_credential'
+  | 'invalid_signature'
+  | 'counter_regression';
+
+export interface PasskeyAssertionResult {
+  verified: boolean;
+  reason?: PasskeyFailureReason;
+  /**
+   * The credential that signed, after a successful assertion
+   */
+  credentialId?: string;
+  /**
+   * Signature counter to store after a successful assertion
+   */
+  signCount?: number;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+}
+
+export class PasskeyManager {
+  constructor(private readonly options: PasskeyManagerOptions) {}
+
+  public async isAvailable(): Promise<boolean> {
+    const { authenticator } = this.options;
+    if (!authenticator) {
+      return false;
+    }
+    try {
+      return await authenticator.isAvailable();
+    } catch (error) {
+      this.options.logger.warn("Could not check for a platform authenticator:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a passkey for a device. Throws PasskeyError when WebAuthn is unavailable,
+   * the user cancels, or the authenticator's response does not check out
+   */
+  public async register(deviceId: string, userName: string, existing: PasskeyCredential[] = []): Promise<PasskeyCredential> {
+    const authenticator = this.requireAuthenticator();
+    const challenge = crypto.getRandomValues(new Uint8Array(32));
+
+    const response = await this.callAuthenticator(() => authenticator.create({
+      challenge,
+      rpId: this.options.rpId,
+      rpName: this.options.rpName,
+      userId: utf8Encode(deviceId),
+      userName,
+      excludeCredentialIds: existing.map(credential => base64UrlToBytes(credential.credentialId)),
+      timeoutMs: this.options.timeoutMs,
+    }));
+
+    if (response.algorithm !== COSE_ALG_ES256 && response.algorithm !== COSE_ALG_RS256) {
+      throw new PasskeyError('invalid_response', `Unsupported passkey algorithm ${response.algorithm}`);
+    }
+    const failure = await this.checkCeremony('webauthn.create', challenge, response.clientDataJSON, response.authenticatorData);
+    if (failure) {
+      throw new PasskeyError('invalid_response', `Passkey registration rejected: ${failure}`);
+    }
+
+    this.options.logger.info("Passkey registered");
+    return {
+      credentialId: bytesToBase64Url(response.credentialId),
+      publicKey: bytesToBase64(response.publicKey),
+      algorithm: response.algorithm,
+      signCount: this.parseAuthenticatorData(response.authenticatorData).signCount,
+      createdAt: new Date(this.options.clock.now()).toISOString(),
+    };
+  }
+
+  /**
+   * Ask the user to approve `transaction` with one of `credentials` and verify the assertion.
+   * The challenge commits to the transaction ID, amount and recipient, so an assertion
+   * cannot be replayed for another transaction. Throws PasskeyError when WebAuthn is
+   * unavailable or the user cancels
+   */
+  public async verifyTransaction(transaction: Transaction, credentials: PasskeyCredential[]): Promise<PasskeyAssertionResult> {
+    return this.getAssertion(await this.createTransactionChallenge(transaction), credentials);
+  }
+
+  /**
+   * Ask the user to prove who they are with one of `credentials`, over a random challenge
+   * tied to no transaction, e.g. before the device's factors are changed.
+   * Throws PasskeyError when WebAuthn is unavailable or the user cancels
+   */
+  public verifyUser(credentials: PasskeyCredential[]): Promise<PasskeyAssertionResult> {
+    return this.getAssertion(crypto.getRandomValues(new Uint8Array(32)), credentials);
+  }
+
+  /**
+   * Ask for an assertion over `challenge` and check it against `credentials`
+   */
+  private async getAssertion(challenge: Uint8Array, credentials: PasskeyCredential[]): Promise<PasskeyAssertionResult> {
+    const authenticator = this.requireAuthenticator();
+    if (credentials.length === 0) {
+      throw new PasskeyError('not_registered', "No passkey is registered on this device");
+    }
+
+    const response = await this.callAuthenticator(() => authenticator.get({
+      challenge,
+      rpId: this.options.rpId,
+      allowCredentialIds: credentials.map(credential => base64UrlToBytes(credential.credentialId)),
+      timeoutMs: this.options.timeoutMs,
+    }));
+
+    const credential = credentials.find(c => c.credentialId === bytesToBase64Url(response.credentialId));
+    if (!credential) {
+      return { verified: false, reason: 'unknown_credential' };
+    }
+
+    const failure = await this.checkCeremony('webauthn.get', challenge, response.clientDataJSON, response.authenticatorData);
+    if (failure) {
+      return { verified: false, reason: failure };
+    }
+
+    const signed = concatBytes(response.authenticatorData, await sha256(response.clientDataJSON));
+    if (!await this.verifySignature(credential, response.signature, signed)) {
+      return { verified: false, reason: 'invalid_signature' };
+    }
+
+    // Authenticators that do not count always report zero
+    const { signCount } = this.parseAuthenticatorData(response.authenticatorData);
+    if ((signCount !== 0 || credential.signCount !== 0) && signCount <= credential.signCount) {
+      this.options.logger.warn("Passkey signature counter did not increase; the authenticator may be cloned");
+      return { verified: false, reason: 'counter_regression' };
+    }
+
+    return { verified: true, credentialId: credential.credentialId, signCount };
+  }
+
+  /**
+   * A fresh random nonce hashed together with the transaction details
+   */
+  private async createTransactionChallenge(transaction: Transaction): Promise<Uint8Array> {
+    const nonce = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+    const { minorUnits, currency } = transaction.amount.toJSON();
+    return sha256(utf8Encode([nonce, transaction.id, currency, minorUnits, transaction.recipient].join(':')));
+  }
+
+  /**
+   * Check the client data and authenticator data common to registration and assertion
+   */
+  private async checkCeremony(
+    type: string,
+    challenge: Uint8Array,
+    clientDataJSON: Uint8Array,
+    authenticatorData: Uint8Array
+  ): Promise<PasskeyFailureReason | null> {
+    let clientData: { type?: string; challenge?: string; origin?: string };
+    try {
+      clientData = JSON.parse(utf8Decode(clientDataJSON));
+    } catch {
+      return 'invalid_client_data';
+    }
+    if (clientData.type !== type || clientData.origin !== this.options.origin) {
+      return 'invalid_client_data';
+    }
+    if (clientData.challenge !== bytesToBase64Url(challenge)) {
+      return 'challenge_mismatch';
+    }
+
+    const parsed = this.parseAuthenticatorData(authenticatorData);
+    if (bytesToBase64(parsed.rpIdHash) !== bytesToBase64(await sha256(utf8Encode(this.options.rpId)))) {
+      return 'rp_mismatch';
+    }
+    if (!(parsed.flags & FLAG_USER_PRESENT) || !(parsed.flags & FLAG_USER_VERIFIED)) {
+      return 'user_not_verified';
+    }
+    return null;
+  }
+
+  private parseAuthenticatorData(data: Uint8Array): ParsedAuthenticatorData {
+    if (data.length < 37) {
+      throw new PasskeyError('invalid_response', "Authenticator data is too short");
+    }
+    return {
+      rpIdHash: data.slice(0, 32),
+      flags: data[32],
+      signCount: new DataView(data.buffer, data.byteOffset + 33, 4).getUint32(0),
+    };
+  }
+
+  private async verifySignature(credential: PasskeyCredential, signature: Uint8Array, signed: Uint8Array): Promise<boolean> {
+    try {
+      if (credential.algorithm === COSE_ALG_ES256) {
+        const key = await crypto.subtle.importKey(
+          'spki', base64ToBytes(credential.publicKey), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']
+        );
+        return await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, ecdsaDerToRaw(signature, 32), signed);
+      }
+      const key = await crypto.subtle.importKey(
+        'spki', base64ToBytes(credential.publicKey), { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']
+      );
+      return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signed);
+    } catch (error) {
+      this.options.logger.warn("Passkey signature could not be checked:", error);
+      return false;
+    }
+  }
+
+  private requireAuthenticator(): PasskeyAuthenticator {
+    if (!this.options.authenticator) {
+      throw new PasskeyError('unavailable', "Passkeys are not supported in this environment");
+    }
+    return this.options.authenticator;
+  }
+
+  /**
+   * Map the DOMExceptions WebAuthn rejects with onto PasskeyError
+   */
+  private async callAuthenticator<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      const name = (error as { name?: string })?.name;
+      if (name === 'NotAllowedError' || name === 'AbortError') {
+        throw new PasskeyError('cancelled', "The passkey prompt was cancelled or timed out");
+      }
+      if (name === 'InvalidStateError') {
+        throw new PasskeyError('already_registered', "This authenticator already holds a passkey for this device");
+      }
+      this.options.logger.error("Passkey operation failed:", error);
+      throw new PasskeyError('unavailable', "The passkey could not be used");
+    }
+  }
+}
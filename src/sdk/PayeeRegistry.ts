@@ -0,0 +1,158 @@
+/**
+ * PayeeRegistry.ts
+ * Recipients this account has added or paid, with their cooling-off state
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+
+/**
+ * new: never added or paid before
+ * cooling_off: added or first paid within the cooling-off period
+ * established: known for longer than the cooling-off period
+ */
+export type PayeeStatus = 'new' | 'cooling_off' | 'established';
+
+export interface Payee {
+  /**
+   * Normalised recipient used for matching
+   */
+  id: string;
+  name: string;
+  /**
+   * 'manual' when added with addTrustedPayee, 'payment' when first seen in a transaction
+   */
+  source: 'manual' | 'payment';
+  addedAt: string;
+  lastPaidAt?: string;
+}
+
+export interface PayeeRegistryOptions {
+  coolingOffMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+export class PayeeRegistry {
+  private static readonly PAYEES_KEY = 'payees';
+
+  /**
+   * Storage keys holding who this account pays; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [PayeeRegistry.PAYEES_KEY];
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: PayeeRegistryOptions
+  ) {}
+
+  /**
+   * Add a recipient the account holder expects to pay. The cooling-off period
+   * still applies, since scammers often talk victims into adding them first.
+   */
+  public addTrustedPayee(name: string): Payee {
+    const id = PayeeRegistry.normalize(name);
+    const payees = this.getPayees();
+    const existing = payees.find(payee => payee.id === id);
+    if (existing) {
+      existing.source = 'manual';
+      this.savePayees(payees);
+      return existing;
+    }
+
+    const payee: Payee = {
+      id,
+      name: name.trim(),
+      source: 'manual',
+      addedAt: this.now(),
+    };
+    this.savePayees([...payees, payee]);
+    this.options.logger.info("Payee added");
+    return payee;
+  }
+
+  /**
+   * Forget a recipient. The next payment to it counts as a payment to a new payee
+   */
+  public removeTrustedPayee(name: string): boolean {
+    const id = PayeeRegistry.normalize(name);
+    const payees = this.getPayees();
+    const remaining = payees.filter(payee => payee.id !== id);
+    if (remaining.length === payees.length) {
+      return false;
+    }
+
+    this.savePayees(remaining);
+    return true;
+  }
+
+  public getPayees(): Payee[] {
+    const stored = this.storage.getItem(PayeeRegistry.PAYEES_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.options.logger.error("Failed to parse payees:", error);
+      return [];
+    }
+  }
+
+  public getPayee(name: string): Payee | null {
+    const id = PayeeRegistry.normalize(name);
+    return this.getPayees().find(payee => payee.id === id) || null;
+  }
+
+  public getStatus(name: string): PayeeStatus {
+    const payee = this.getPayee(name);
+    if (!payee) {
+      return 'new';
+    }
+    return this.options.clock.now() < this.getCoolingOffEnd(payee) ? 'cooling_off' : 'established';
+  }
+
+  /**
+   * When the payee leaves its cooling-off period, in epoch milliseconds
+   */
+  public getCoolingOffEnd(payee: Payee): number {
+    return new Date(payee.addedAt).getTime() + this.options.coolingOffMs;
+  }
+
+  /**
+   * Note a payment to `name`, adding it to the registry if it is new
+   */
+  public recordPayment(name: string): void {
+    const id = PayeeRegistry.normalize(name);
+    const payees = this.getPayees();
+    const existing = payees.find(payee => payee.id === id);
+    if (existing) {
+      existing.lastPaidAt = this.now();
+      this.savePayees(payees);
+      return;
+    }
+
+    this.savePayees([...payees, {
+      id,
+      name: name.trim(),
+      source: 'payment',
+      addedAt: this.now(),
+      lastPaidAt: this.now(),
+    }]);
+  }
+
+  /**
+   * Recipients are free text, so "John  Doe" and "john doe" are the same payee
+   */
+  public static normalize(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private savePayees(payees: Payee[]): void {
+    this.storage.setItem(PayeeRegistry.PAYEES_KEY, JSON.stringify(payees));
+  }
+
+  private now(): string {
+    return new Date(this.options.clock.now()).toISOString();
+  }
+}
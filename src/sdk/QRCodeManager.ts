@@ -1,63 +1,356 @@
-
 /**
  * QRCodeManager.ts
  * Handles QR code generation and validation for device linking
  */
 import { DeviceFingerprint, DeviceInfo } from './DeviceFingerprint';
+import { DeviceKeyManager, DevicePublicKeys } from './DeviceKeyManager';
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+import { QRCodeError } from './SecurePayError';
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from './CryptoUtils';
+
+export interface QRCodeManagerOptions {
+  qrExpiryMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+export interface GenerateQRCodeOptions {
+  /**
+   * Agreement public key of the device that will scan the code.
+   * When set, the payload is encrypted so it cannot be read from a photo of the screen.
+   */
+  recipientPublicKey?: JsonWebKey;
+}
+
+const QR_FORMAT_VERSION = 2;
+const QR_ENCRYPTION_INFO = 'securepay-qr-v2';
+// Tolerated difference between the issuing and scanning devices' clocks
+const QR_CLOCK_SKEW_MS = 30 * 1000;
 
 export class QRCodeManager {
+  private static readonly SESSIONS_KEY = 'qr_sessions';
+  private static readonly CONSUMED_TOKENS_KEY = 'qr_consumed_tokens';
+
+  /**
+   * Storage keys holding live session tokens; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [
+    QRCodeManager.SESSIONS_KEY,
+    QRCodeManager.CONSUMED_TOKENS_KEY,
+  ];
+
+  constructor(
+    private readonly fingerprint: DeviceFingerprint,
+    private readonly deviceKeys: DeviceKeyManager,
+    private readonly storage: StorageAdapter,
+    private readonly options: QRCodeManagerOptions
+  ) {}
+
   /**
    * Generate QR code data for linking a new device
-   * This QR code would contain encrypted device info and session data
    */
-  public static generateQRCodeData(): string {
-    const deviceInfo = DeviceFingerprint.generateFingerprint();
+  public async generateQRCodeData(generateOptions: GenerateQRCodeOptions = {}): Promise<string> {
+    const issued = await this.issueQRCode(generateOptions);
+    return issued.qrData;
+  }
+
+  /**
+   * Issue a QR code for linking a new device.
+   * The payload is signed with this device's signing key and optionally
+   * encrypted for a specific recipient device. The session token is recorded here,
+   * so a pairing hosted on this device links one device with it and refuses it once revoked.
+   * The registry is local: a device that processes the code without pairing cannot consult it.
+   */
+  public async issueQRCode(generateOptions: GenerateQRCodeOptions = {}): Promise<IssuedQRCode> {
+    const deviceInfo = this.fingerprint.generateFingerprint();
     const sessionToken = this.generateSessionToken();
-    
-    // Combine device info and session token
-    const qrData = {
+    const now = this.options.clock.now();
+
+    // Combine device info, public keys and session token
+    const qrData: QRCodeData = {
       deviceInfo,
+      publicKeys: this.deviceKeys.getPublicKeys(),
       sessionToken,
-      expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // 5 minutes expiration
+      issuedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.options.qrExpiryMs).toISOString(), // 5 minutes expiration by default
+    };
+
+    this.options.logger.debug("Generated QR data object:", qrData);
+    const payload = JSON.stringify(qrData);
+    const signed: SignedQRCodePayload = {
+      payload,
+      signature: await this.deviceKeys.sign(payload),
+    };
+
+    const session: QRSession = {
+      token: sessionToken,
+      issuedAt: qrData.issuedAt,
+      expiresAt: qrData.expiresAt,
+      status: 'active',
+    };
+    this.saveSessions([...this.getSessions(), session]);
+
+    if (!generateOptions.recipientPublicKey) {
+      return {
+        qrData: btoa(JSON.stringify({ v: QR_FORMAT_VERSION, ...signed })),
+        session,
+      };
+    }
+
+    // Encrypt to the recipient with a one-off ECDH key so only it can read the payload
+    const ephemeral = await DeviceKeyManager.generateEphemeralKeyPair();
+    const key = await DeviceKeyManager.deriveKey(ephemeral.privateKey, generateOptions.recipientPublicKey, QR_ENCRYPTION_INFO);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, utf8Encode(JSON.stringify(signed)));
+
+    return {
+      qrData: btoa(JSON.stringify({
+        v: QR_FORMAT_VERSION,
+        enc: {
+          epk: await crypto.subtle.exportKey('jwk', ephemeral.publicKey),
+          iv: bytesToBase64(iv),
+          ct: bytesToBase64(new Uint8Array(ciphertext)),
+        },
+      })),
+      session,
     };
-    
-    // In a real implementation, this data would be encrypted
-    console.log("Generated QR data object:", qrData);
-    return btoa(JSON.stringify(qrData));
   }
-  
+
+  /**
+   * Revoke a QR session issued by this device so a pairing hosted here no longer accepts its code.
+   * Returns false when the token is unknown, already used or expired.
+   */
+  public revokeQRSession(token: string): boolean {
+    const sessions = this.getSessions();
+    const session = sessions.find(s => s.token === token);
+    if (!session || session.status !== 'active') {
+      return false;
+    }
+
+    session.status = 'revoked';
+    this.saveSessions(sessions);
+    this.options.logger.info("QR session revoked");
+    return true;
+  }
+
   /**
-   * Parse QR code data from a scanned QR code
+   * QR sessions issued by this device that can still link a device
    */
-  public static parseQRCodeData(qrData: string): QRCodeData | null {
+  public getActiveQRSessions(): QRSession[] {
+    return this.getSessions().filter(s => s.status === 'active');
+  }
+
+  /**
+   * Throw QRCodeError if this device already knows `sessionToken` to be used or revoked.
+   * Only the issuing device knows of a revocation or of use by another device
+   */
+  public assertSessionUsable(sessionToken: string): void {
+    if (this.getConsumedTokens().some(entry => entry.token === sessionToken)) {
+      throw new QRCodeError('already_used', "QR already used");
+    }
+
+    const session = this.getSessions().find(s => s.token === sessionToken);
+    if (session?.status === 'consumed') {
+      throw new QRCodeError('already_used', "QR already used");
+    }
+    if (session?.status === 'revoked') {
+      throw new QRCodeError('revoked', "QR code has been revoked");
+    }
+  }
+
+  /**
+   * Mark the session of a verified QR code as used by `deviceId`.
+   * Tokens issued by this device are checked against the session registry;
+   * every token is also remembered on this device so it cannot be replayed here.
+   * Throws QRCodeError when the token was already used or has been revoked, as far as this device knows.
+   */
+  public consumeSession(qrData: Pick<QRCodeData, 'sessionToken' | 'expiresAt'>, deviceId: string): void {
+    const { sessionToken } = qrData;
+    this.assertSessionUsable(sessionToken);
+
+    const sessions = this.getSessions();
+    const session = sessions.find(s => s.token === sessionToken);
+    if (session) {
+      session.status = 'consumed';
+      session.consumedAt = new Date(this.options.clock.now()).toISOString();
+      session.linkedDeviceId = deviceId;
+      this.saveSessions(sessions);
+    }
+
+    this.saveConsumedTokens([...this.getConsumedTokens(), { token: sessionToken, expiresAt: qrData.expiresAt }]);
+  }
+
+  /**
+   * Parse QR code data from a scanned QR code, decrypting it if needed.
+   * The signature is returned alongside the data for the caller to verify.
+   * Throws QRCodeError when the code is malformed, unsigned, unreadable or expired,
+   * or claims a validity period this SDK would not issue.
+   */
+  public async parseQRCodeData(qrData: string): Promise<SignedQRCodeData> {
+    const { logger } = this.options;
+    logger.debug("Attempting to parse QR code data");
+
+    let envelope: QRCodeEnvelope;
     try {
-      console.log("Attempting to parse QR code data");
-      const decoded = JSON.parse(atob(qrData));
-      console.log("Decoded QR data:", decoded);
-      
-      // Verify the QR code hasn't expired
-      if (new Date(decoded.expiresAt) < new Date()) {
-        console.error("QR code has expired");
-        return null;
-      }
-      
-      return decoded;
+      envelope = JSON.parse(atob(qrData));
     } catch (error) {
-      console.error("Failed to parse QR code data:", error);
-      return null;
+      logger.error("Failed to parse QR code data:", error);
+      throw new QRCodeError('malformed', "QR code is not a SecurePay linking code");
     }
+
+    const signed = envelope.enc ? await this.decrypt(envelope.enc) : envelope;
+    if (!signed.payload || !signed.signature) {
+      throw new QRCodeError('unsigned', "QR code is not signed");
+    }
+
+    let decoded: QRCodeData;
+    try {
+      decoded = JSON.parse(signed.payload);
+    } catch {
+      throw new QRCodeError('malformed', "QR code payload is corrupted");
+    }
+    logger.debug("Decoded QR data:", decoded);
+
+    if (!decoded.deviceInfo || !decoded.publicKeys?.signing || !decoded.sessionToken) {
+      throw new QRCodeError('malformed', "QR code payload is incomplete");
+    }
+
+    // A signature only proves the issuer holds the key, so the validity period is checked on its own
+    const now = this.options.clock.now();
+    const issuedAt = new Date(decoded.issuedAt).getTime();
+    const expiresAt = new Date(decoded.expiresAt).getTime();
+    if (!(issuedAt <= now + QR_CLOCK_SKEW_MS)) {
+      logger.error("QR code issued in the future");
+      throw new QRCodeError('malformed', "QR code issue time is in the future");
+    }
+    if (!(expiresAt - issuedAt <= this.options.qrExpiryMs)) {
+      logger.error("QR code valid for longer than allowed");
+      throw new QRCodeError('malformed', "QR code is valid for longer than allowed");
+    }
+
+    // Verify the QR code hasn't expired
+    if (!(expiresAt >= now)) {
+      logger.error("QR code has expired");
+      throw new QRCodeError('expired', "QR code has expired");
+    }
+
+    return { data: decoded, payload: signed.payload, signature: signed.signature };
   }
-  
-  private static generateSessionToken(): string {
-    // Generate a random session token
-    // In a real implementation, this would be cryptographically secure
-    return Math.random().toString(36).substring(2, 15) + 
-           Math.random().toString(36).substring(2, 15);
+
+  private async decrypt(enc: NonNullable<QRCodeEnvelope['enc']>): Promise<Partial<SignedQRCodePayload>> {
+    try {
+      const key = await this.deviceKeys.deriveSharedKey(enc.epk, QR_ENCRYPTION_INFO);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(enc.iv) },
+        key,
+        base64ToBytes(enc.ct)
+      );
+      return JSON.parse(utf8Decode(plaintext));
+    } catch (error) {
+      this.options.logger.error("Failed to decrypt QR code data:", error);
+      throw new QRCodeError('decryption_failed', "QR code was not encrypted for this device");
+    }
+  }
+
+  private getSessions(): QRSession[] {
+    return this.readList<QRSession>(QRCodeManager.SESSIONS_KEY);
+  }
+
+  private saveSessions(sessions: QRSession[]): void {
+    // Expired sessions can never be used again, so there is nothing left to track
+    const now = this.options.clock.now();
+    this.storage.setItem(
+      QRCodeManager.SESSIONS_KEY,
+      JSON.stringify(sessions.filter(s => new Date(s.expiresAt).getTime() >= now))
+    );
+  }
+
+  private getConsumedTokens(): ConsumedToken[] {
+    return this.readList<ConsumedToken>(QRCodeManager.CONSUMED_TOKENS_KEY);
+  }
+
+  private saveConsumedTokens(tokens: ConsumedToken[]): void {
+    // An expired code is rejected on expiry alone, so its token no longer needs remembering
+    const now = this.options.clock.now();
+    this.storage.setItem(
+      QRCodeManager.CONSUMED_TOKENS_KEY,
+      JSON.stringify(tokens.filter(t => new Date(t.expiresAt).getTime() >= now))
+    );
+  }
+
+  private readList<T>(key: string): T[] {
+    const stored = this.storage.getItem(key);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.options.logger.error(`Failed to parse ${key}:`, error);
+      return [];
+    }
+  }
+
+  private generateSessionToken(): string {
+    // 128 bits from the platform CSPRNG, hex encoded
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
   }
 }
 
 export interface QRCodeData {
   deviceInfo: DeviceInfo;
+  publicKeys: DevicePublicKeys;
   sessionToken: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export type QRSessionStatus = 'active' | 'consumed' | 'revoked';
+
+/**
+ * A linking session issued by this device
+ */
+export interface QRSession {
+  token: string;
+  issuedAt: string;
   expiresAt: string;
+  status: QRSessionStatus;
+  consumedAt?: string;
+  linkedDeviceId?: string;
+}
+
+export interface IssuedQRCode {
+  qrData: string;
+  session: QRSession;
+}
+
+/**
+ * A decoded QR code together with the exact signed bytes and their signature
+ */
+export interface SignedQRCodeData {
+  data: QRCodeData;
+  payload: string;
+  signature: string;
+}
+
+interface SignedQRCodePayload {
+  payload: string;
+  signature: string;
+}
+
+interface ConsumedToken {
+  token: string;
+  expiresAt: string;
+}
+
+interface QRCodeEnvelope extends Partial<SignedQRCodePayload> {
+  v?: number;
+  enc?: {
+    epk: JsonWebKey;
+    iv: string;
+    ct: string;
+  };
 }
@@ -0,0 +1,620 @@
+/**
+ * RiskRulesEngine.ts
+ * Declarative rules that decide how a transaction is verified
+ */
+import { z } from 'zod';
+import { Money } from './Money';
+import { VelocityScope, VelocityStats } from './TransactionLedger';
+import { PayeeStatus } from './PayeeRegistry';
+import { BiometricFallbackFactor } from './BiometricLockout';
+import { DeviceDrift } from './DeviceSignals';
+
+export type RiskAction = 'allow' | 'step_up' | 'review' | 'block';
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type StepUpMethod = 'biometric' | 'call' | 'totp' | 'passkey';
+
+/**
+ * Where the current device stands with biometrics for the transaction being checked.
+ * unavailable: biometrics are enrolled but locked after failed attempts, or cannot be captured
+ */
+export type BiometricState = 'not_enrolled' | 'pending' | 'verified' | 'failed' | 'unavailable';
+
+/**
+ * Outcome of the liveness check that accompanies face verification.
+ * not_applicable when the transaction was not verified with a face
+ */
+export type LivenessState = 'not_applicable' | 'passed' | 'failed' | 'skipped';
+
+/**
+ * Biometric that proved the user for the transaction being checked; 'none' when none did.
+ * A face counts only when its liveness check passed, as without one it may be a photo
+ */
+export type VerifiedBiometric = 'face' | 'fingerprint' | 'passkey' | 'none';
+
+/**
+ * Facts about a transaction and the device it comes from that rules can test
+ */
+export interface RiskContext {
+  /**
+   * Rules compare money against plain numbers in major units, exactly
+   */
+  amount: Money;
+  currency: string;
+  /**
+   * The amount converted into the configured base currency; null when no rate is known
+   */
+  baseAmount: Money | null;
+  /**
+   * Whether an exchange rate was known, so `baseAmount` is set. Rules on `baseAmount` do not fire without one
+   */
+  baseAmountKnown: boolean;
+  /**
+   * Whether the amount reaches the high-value threshold for its currency
+   */
+  highValue: boolean;
+  recipient: string;
+  payeeStatus: PayeeStatus;
+  /**
+   * True when nothing has been paid to this recipient before
+   */
+  firstPayment: boolean;
+  deviceTrusted: boolean;
+  /**
+   * Whether an authenticator app is enrolled and can supply step-up codes
+   */
+  totpEnrolled: boolean;
+  /**
+   * Whole days since the current device was registered; null when it is not registered
+   */
+  deviceAgeDays: number | null;
+  /**
+   * How far the device's signals have moved from the ones on record; null when either set is missing
+   */
+  deviceDrift: DeviceDrift | null;
+  biometricState: BiometricState;
+  /**
+   * First configured factor the device can use in place of biometrics; 'none' when it has none
+   */
+  biometricFallback: BiometricFallbackFactor | 'none';
+  livenessState: LivenessState;
+  verifiedBy: VerifiedBiometric;
+  /**
+   * How unlike the account holder's usual typing and pointer behaviour the transaction was entered, 0 to 1.
+   * Null when no behaviour was recorded
+   */
+  behaviorScore: number | null;
+  /**
+   * Likelihood, 0 to 1, that the browser is automated, headless or emulating another device.
+   * Null outside a browser
+   */
+  environmentRisk: number | null;
+  /**
+   * Local hour the transaction is checked at, 0-23
+   */
+  hourOfDay: number;
+  /**
+   * Transactions over the last `windowMs` for this device or recipient, including this one.
+   * Totals are in the base currency; while the window holds an amount that could not be
+   * converted, the total is taken to be unbounded
+   */
+  velocity(scope: VelocityScope, windowMs: number): VelocityStats;
+}
+
+export type RiskField = Exclude<keyof RiskContext, 'velocity'>;
+
+const RISK_FIELDS = [
+  'amount',
+  'currency',
+  'baseAmount',
+  'baseAmountKnown',
+  'highValue',
+  'recipient',
+  'payeeStatus',
+  'firstPayment',
+  'deviceTrusted',
+  'totpEnrolled',
+  'deviceAgeDays',
+  'deviceDrift',
+  'biometricState',
+  'biometricFallback',
+  'livenessState',
+  'verifiedBy',
+  'behaviorScore',
+  'environmentRisk',
+  'hourOfDay',
+] as const satisfies readonly RiskField[];
+
+const fieldSchema = z.enum(RISK_FIELDS);
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Count or cumulative base-currency amount of transactions in a rolling window
+ */
+const velocityConditionSchema = z.object({
+  velocity: z.object({
+    scope: z.enum(['device', 'recipient']),
+    windowMs: z.number().int().positive(),
+    measure: z.enum(['count', 'amount']),
+  }),
+  op: z.enum(['gt', 'gte', 'lt', 'lte']),
+  value: z.number(),
+});
+
+export const riskConditionSchema = z.union([
+  z.object({ field: fieldSchema, op: z.enum(['eq', 'neq']), value: scalarSchema }),
+  z.object({ field: fieldSchema, op: z.enum(['gt', 'gte', 'lt', 'lte']), value: z.number() }),
+  z.object({ field: fieldSchema, op: z.enum(['in', 'not_in']), value: z.array(z.union([z.string(), z.number()])) }),
+  // Inclusive range. When min > max the range wraps around, e.g. hours [22, 5]
+  z.object({ field: fieldSchema, op: z.literal('between'), value: z.tuple([z.number(), z.number()]) }),
+  velocityConditionSchema,
+]);
+
+export const riskRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  /**
+   * Every condition must hold for the rule to fire. An empty list always fires
+   */
+  when: z.array(riskConditionSchema),
+  action: z.enum(['allow', 'step_up', 'review', 'block']),
+  /**
+   * Extra factor demanded by a step_up rule
+   */
+  stepUp: z.enum(['biometric', 'call', 'totp', 'passkey']).optional(),
+  riskLevel: z.enum(['low', 'medium', 'high']).optional(),
+  reason: z.string(),
+  recommendation: z.string().optional(),
+  /**
+   * Stop evaluating later rules once this one fires
+   */
+  final: z.boolean().optional(),
+}).refine(rule => rule.action !== 'step_up' || !!rule.stepUp, {
+  message: 'step_up rules must name a stepUp method',
+  path: ['stepUp'],
+});
+
+export type RiskCondition = z.infer<typeof riskConditionSchema>;
+export type VelocityCondition = z.infer<typeof velocityConditionSchema>;
+export type RiskRule = z.infer<typeof riskRuleSchema>;
+
+export interface FiredRule {
+  id: string;
+  action: RiskAction;
+  reason: string;
+}
+
+export interface RiskDecision {
+  action: RiskAction;
+  riskLevel: RiskLevel;
+  reason: string;
+  recommendation: string;
+  stepUps: StepUpMethod[];
+  firedRules: FiredRule[];
+}
+
+const ACTION_SEVERITY: Record<RiskAction, number> = {
+  allow: 0,
+  step_up: 1,
+  review: 2,
+  block: 3,
+};
+
+const RISK_LEVEL_SEVERITY: Record<RiskLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+const DEFAULT_RISK_LEVEL: Record<RiskAction, RiskLevel> = {
+  allow: 'low',
+  step_up: 'medium',
+  review: 'medium',
+  block: 'high',
+};
+
+const DEFAULT_RECOMMENDATION: Record<RiskAction, string> = {
+  allow: 'Allow transaction',
+  step_up: 'Complete additional verification',
+  review: 'Hold transaction for manual review',
+  block: 'Block transaction',
+};
+
+export interface DefaultRiskRulesOptions {
+  /**
+   * Cumulative amount per device per day, in the base currency, above which transfers need a call
+   */
+  dailyLimit: number;
+  /**
+   * Largest amount, in the base currency, that may be sent to a payee still in its cooling-off period
+   */
+  newPayeeLimit: number;
+  /**
+   * Behaviour score from which a transaction needs a call
+   */
+  behaviorAnomalyThreshold: number;
+  /**
+   * Environment risk from which a transaction needs a call
+   */
+  environmentRiskThreshold: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * The rules SecurePay applies when none are configured
+ */
+export function createDefaultRiskRules({
+  dailyLimit,
+  newPayeeLimit,
+  behaviorAnomalyThreshold,
+  environmentRiskThreshold,
+}: DefaultRiskRulesOptions): RiskRule[] {
+  return [
+    {
+      id: 'untrusted-device',
+      description: 'Payments from devices that are not registered are refused',
+      when: [{ field: 'deviceTrusted', op: 'eq', value: false }],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Untrusted device',
+      final: true,
+    },
+    {
+      id: 'biometric-failed',
+      when: [{ field: 'biometricState', op: 'eq', value: 'failed' }],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Biometric verification failed',
+      final: true,
+    },
+    {
+      id: 'liveness-failed',
+      description: 'A face that did not follow the liveness prompts may be a photo or a replayed video',
+      when: [{ field: 'livenessState', op: 'eq', value: 'failed' }],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Liveness check failed',
+      final: true,
+    },
+    {
+      id: 'biometric-required',
+      description: 'Enrolled devices must pass biometrics before anything else is checked',
+      when: [{ field: 'biometricState', op: 'eq', value: 'pending' }],
+      action: 'step_up',
+      stepUp: 'biometric',
+      riskLevel: 'medium',
+      reason: 'Biometric verification required',
+      recommendation: 'Complete biometric verification',
+      final: true,
+    },
+    {
+      id: 'biometric-unavailable',
+      description: 'Biometrics are locked or cannot be captured and nothing can stand in for them',
+      when: [
+        { field: 'biometricState', op: 'eq', value: 'unavailable' },
+        { field: 'biometricFallback', op: 'eq', value: 'none' },
+      ],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Biometric verification unavailable and no fallback factor is set up',
+      recommendation: 'Try again when biometric verification unlocks',
+      final: true,
+    },
+    {
+      id: 'biometric-fallback-passkey',
+      when: [
+        { field: 'biometricState', op: 'eq', value: 'unavailable' },
+        { field: 'biometricFallback', op: 'eq', value: 'passkey' },
+      ],
+      action: 'step_up',
+      stepUp: 'passkey',
+      riskLevel: 'medium',
+      reason: 'Biometric verification unavailable',
+      recommendation: 'Approve with your passkey',
+    },
+    {
+      id: 'biometric-fallback-totp',
+      when: [
+        { field: 'biometricState', op: 'eq', value: 'unavailable' },
+        { field: 'biometricFallback', op: 'eq', value: 'totp' },
+      ],
+      action: 'step_up',
+      stepUp: 'totp',
+      riskLevel: 'medium',
+      reason: 'Biometric verification unavailable',
+      recommendation: 'Enter the code from your authenticator app',
+    },
+    {
+      id: 'biometric-fallback-otp',
+      when: [
+        { field: 'biometricState', op: 'eq', value: 'unavailable' },
+        { field: 'biometricFallback', op: 'eq', value: 'otp' },
+      ],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'medium',
+      reason: 'Biometric verification unavailable',
+      recommendation: 'Verify with a code sent to your phone',
+    },
+    {
+      id: 'liveness-skipped',
+      description: 'A face matched without a liveness check could be a photo, so it needs another factor',
+      when: [{ field: 'livenessState', op: 'eq', value: 'skipped' }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'medium',
+      reason: 'Face verified without a liveness check',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'device-drift',
+      description: 'The device changed more than an update explains; a passkey or a face that passed liveness re-verifies it. '
+        + 'A drawn gesture can be watched and repeated, so it does not',
+      when: [
+        { field: 'deviceDrift', op: 'eq', value: 'suspicious' },
+        { field: 'verifiedBy', op: 'not_in', value: ['face', 'passkey'] },
+      ],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'This device has changed significantly since it was registered',
+      recommendation: 'Verify via phone call to keep trusting this device',
+    },
+    {
+      id: 'environment-risk',
+      description: 'Automated, headless or emulated browsers are how payments are scripted at scale',
+      when: [{ field: 'environmentRisk', op: 'gte', value: environmentRiskThreshold }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'The browser appears to be automated or emulated',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'new-payee-limit',
+      description: 'Reduced limit while a payee is new, the usual pattern of authorised push payment scams',
+      when: [
+        { field: 'payeeStatus', op: 'in', value: ['new', 'cooling_off'] },
+        { field: 'baseAmount', op: 'gt', value: newPayeeLimit },
+      ],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Amount exceeds the limit for new payees',
+      recommendation: 'Send a smaller amount or wait until the cooling-off period ends',
+      final: true,
+    },
+    {
+      id: 'new-payee-unknown-rate',
+      description: 'Without an exchange rate the new payee limit cannot be checked, so the amount could be anything',
+      when: [
+        { field: 'payeeStatus', op: 'in', value: ['new', 'cooling_off'] },
+        { field: 'baseAmountKnown', op: 'eq', value: false },
+      ],
+      action: 'block',
+      riskLevel: 'high',
+      reason: 'Amount in this currency cannot be checked against the limit for new payees',
+      recommendation: 'Pay in a supported currency or wait until the cooling-off period ends',
+      final: true,
+    },
+    {
+      id: 'device-burst',
+      description: 'Many payments from one device in quick succession',
+      when: [{ velocity: { scope: 'device', windowMs: MINUTE, measure: 'count' }, op: 'gt', value: 3 }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'Unusually many transactions from this device in the last minute',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'device-daily-amount',
+      description: 'Catches large amounts split into payments just under the high-value threshold',
+      when: [{ velocity: { scope: 'device', windowMs: 24 * HOUR, measure: 'amount' }, op: 'gte', value: dailyLimit }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'Amount sent from this device in the last 24 hours requires additional verification',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'recipient-velocity',
+      when: [{ velocity: { scope: 'recipient', windowMs: HOUR, measure: 'count' }, op: 'gt', value: 3 }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'Unusually many transactions to this recipient in the last hour',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'behavior-anomaly',
+      description: 'Typing and pointer behaviour unlike the account holder\'s can mean remote control or a coached victim',
+      when: [{ field: 'behaviorScore', op: 'gte', value: behaviorAnomalyThreshold }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'high',
+      reason: 'Transaction entered unlike the account holder usually does',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'first-payment',
+      when: [{ field: 'firstPayment', op: 'eq', value: true }],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'medium',
+      reason: 'First payment to this payee',
+      recommendation: 'Confirm the payee via phone call',
+    },
+    {
+      id: 'high-value-totp',
+      description: 'An enrolled authenticator app replaces the phone call for high-value transactions',
+      when: [
+        { field: 'highValue', op: 'eq', value: true },
+        { field: 'totpEnrolled', op: 'eq', value: true },
+      ],
+      action: 'step_up',
+      stepUp: 'totp',
+      riskLevel: 'medium',
+      reason: 'High-value transaction requires additional verification',
+      recommendation: 'Enter the code from your authenticator app',
+    },
+    {
+      id: 'high-value',
+      when: [
+        { field: 'highValue', op: 'eq', value: true },
+        { field: 'totpEnrolled', op: 'eq', value: false },
+      ],
+      action: 'step_up',
+      stepUp: 'call',
+      riskLevel: 'medium',
+      reason: 'High-value transaction requires additional verification',
+      recommendation: 'Verify via phone call',
+    },
+    {
+      id: 'biometric-verified',
+      when: [{ field: 'biometricState', op: 'eq', value: 'verified' }],
+      action: 'allow',
+      riskLevel: 'low',
+      reason: 'Trusted device with verified biometrics',
+    },
+    {
+      id: 'trusted-device',
+      when: [{ field: 'deviceTrusted', op: 'eq', value: true }],
+      action: 'allow',
+      riskLevel: 'low',
+      reason: 'Trusted device',
+    },
+  ];
+}
+
+/**
+ * Validate rules supplied as JSON, e.g. loaded from a policy file.
+ * Throws a ZodError describing the first invalid rules.
+ */
+export function parseRiskRules(rules: unknown): RiskRule[] {
+  return z.array(riskRuleSchema).parse(rules);
+}
+
+export class RiskRulesEngine {
+  constructor(private readonly rules: RiskRule[]) {}
+
+  public getRules(): RiskRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Run every rule in order and settle on the most severe action among those that fired.
+   * Ties go to the rule that fired first. When nothing but allow rules fire the
+   * transaction is allowed.
+   */
+  public evaluate(context: RiskContext): RiskDecision {
+    const fired: RiskRule[] = [];
+    for (const rule of this.rules) {
+      if (!rule.when.every(condition => this.matches(condition, context))) {
+        continue;
+      }
+      fired.push(rule);
+      if (rule.final) {
+        break;
+      }
+    }
+
+    const decisive = fired.reduce<RiskRule | null>(
+      (worst, rule) => !worst || ACTION_SEVERITY[rule.action] > ACTION_SEVERITY[worst.action] ? rule : worst,
+      null
+    );
+    const action = decisive?.action || 'allow';
+
+    // A blocked or held transaction is not going to be stepped up
+    const stepUps = action === 'step_up'
+      ? [...new Set(fired.filter(rule => rule.action === 'step_up').map(rule => rule.stepUp as StepUpMethod))]
+      : [];
+
+    return {
+      action,
+      // Every rule that fired can raise the risk level, even when another rule picks the action
+      riskLevel: fired
+        .map(rule => rule.riskLevel || DEFAULT_RISK_LEVEL[rule.action])
+        .reduce((highest, level) => RISK_LEVEL_SEVERITY[level] > RISK_LEVEL_SEVERITY[highest] ? level : highest, DEFAULT_RISK_LEVEL[action]),
+      reason: decisive?.reason || 'No risk rules matched',
+      recommendation: decisive?.recommendation || DEFAULT_RECOMMENDATION[action],
+      stepUps,
+      firedRules: fired.map(rule => ({ id: rule.id, action: rule.action, reason: rule.reason })),
+    };
+  }
+
+  private matches(condition: RiskCondition, context: RiskContext): boolean {
+    if (isVelocityCondition(condition)) {
+      const { scope, windowMs, measure } = condition.velocity;
+      const stats = context.velocity(scope, windowMs);
+      // An amount that could not be converted may be any size, so it can push the total over a limit but never keep it under one
+      if (measure === 'amount' && stats.unconverted > 0) {
+        return condition.op === 'gt' || condition.op === 'gte';
+      }
+      return this.compareWith(condition.op, measure === 'count' ? stats.count : stats.total, condition.value);
+    }
+
+    const actual = context[condition.field];
+    // Unknown facts never satisfy a condition
+    if (actual === null || actual === undefined) {
+      return false;
+    }
+
+    switch (condition.op) {
+      case 'eq':
+        return this.equals(actual, condition.value);
+      case 'neq':
+        return !this.equals(actual, condition.value);
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return this.compareWith(condition.op, actual, condition.value);
+      case 'in':
+        return condition.value.some(value => this.equals(actual, value));
+      case 'not_in':
+        return !condition.value.some(value => this.equals(actual, value));
+      case 'between': {
+        const [min, max] = condition.value;
+        const aboveMin = this.compare(actual, min) >= 0;
+        const belowMax = this.compare(actual, max) <= 0;
+        return min <= max ? aboveMin && belowMax : aboveMin || belowMax;
+      }
+    }
+  }
+
+  private compareWith(op: 'gt' | 'gte' | 'lt' | 'lte', actual: RiskContext[RiskField], expected: number): boolean {
+    const order = this.compare(actual, expected);
+    switch (op) {
+      case 'gt':
+        return order > 0;
+      case 'gte':
+        return order >= 0;
+      case 'lt':
+        return order < 0;
+      case 'lte':
+        return order <= 0;
+    }
+  }
+
+  private equals(actual: RiskContext[RiskField], expected: string | number | boolean): boolean {
+    if (actual instanceof Money) {
+      return typeof expected === 'number' && actual.compareToDecimal(expected) === 0;
+    }
+    return actual === expected;
+  }
+
+  /**
+   * Sign of `actual - expected`, or NaN when the two cannot be ordered (NaN fails every comparison)
+   */
+  private compare(actual: RiskContext[RiskField], expected: number): number {
+    if (actual instanceof Money) {
+      return actual.compareToDecimal(expected);
+    }
+    return typeof actual === 'number' ? Math.sign(actual - expected) : NaN;
+  }
+}
+
+function isVelocityCondition(condition: RiskCondition): condition is VelocityCondition {
+  return 'velocity' in condition;
+}
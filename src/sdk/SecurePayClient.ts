@@ -0,0 +1,634 @@
+/**
+ * SecurePayClient.ts
+ * A self-contained SDK instance with its own configuration and state
+ */
+import { DeviceFingerprint, DeviceInfo } from './DeviceFingerprint';
+import { GenerateQRCodeOptions, IssuedQRCode, QRCodeManager, QRSession } from './QRCodeManager';
+import { DeviceKeyManager, DevicePublicKeys } from './DeviceKeyManager';
+import { HostPairingOptions, PairingGuestSession, PairingHostSession, PairingManager, PairingOptions } from './PairingManager';
+import { TrustedDeviceManager, TrustedDevice, Transaction, TransactionVerificationResult, BiometricType, BiometricSample, BiometricEnrollment, BiometricCredential, BiometricEnrollmentOptions, VerifyTransactionOptions } from './TrustedDeviceManager';
+import { NamespacedStorageAdapter, StorageAdapter } from './StorageAdapter';
+import { EncryptedStorageAdapter } from './EncryptedStorageAdapter';
+import { RiskRule, RiskRulesEngine, createDefaultRiskRules } from './RiskRulesEngine';
+import { TransactionThresholds } from './TransactionThresholds';
+import { Money } from './Money';
+import { LedgerEntry, TransactionLedger } from './TransactionLedger';
+import { Payee, PayeeRegistry, PayeeStatus } from './PayeeRegistry';
+import { TotpManager, TotpSetup, TotpVerificationResult } from './TotpManager';
+import { IssuedVerificationCode, OneTimeCodeManager, VerificationCodeResult } from './OneTimeCodeManager';
+import { SendVerificationCodeOptions, SentVerificationCode, VerificationCodeSender } from './VerificationCodeSender';
+import { VerificationChannel } from './VerificationChannelProvider';
+import { DEFAULT_VERIFICATION_TEMPLATES, mergeVerificationTemplates } from './VerificationTemplates';
+import { PasskeyManager } from './PasskeyManager';
+import { createDefaultPasskeyAuthenticator } from './PasskeyAuthenticator';
+import { BiometricMatchResult, FaceFrame, FaceMatcher } from './FaceMatcher';
+import { GestureMatcher } from './GestureMatcher';
+import { LivenessCapture, LivenessChallenge, LivenessDetector, LivenessResult } from './LivenessDetector';
+import { BiometricLockout, BiometricLockoutStatus } from './BiometricLockout';
+import { BehaviorRecorder } from './BehaviorRecorder';
+import { BehaviorBaseline } from './BehaviorBaseline';
+import { DeviceDriftReport } from './DeviceSignals';
+import { EnvironmentIntegrity, EnvironmentRiskReport } from './EnvironmentIntegrity';
+import { ResolvedSecurePayConfig, SecurePayConfig, resolveConfig } from './SecurePayConfig';
+import { isWebCryptoAvailable } from './CryptoUtils';
+import { SecurePayError } from './SecurePayError';
+
+export class SecurePayClient {
+  public readonly config: Readonly<ResolvedSecurePayConfig>;
+  private readonly storage: StorageAdapter;
+  private readonly fingerprint: DeviceFingerprint;
+  private readonly deviceKeys: DeviceKeyManager;
+  private readonly qrCodeManager: QRCodeManager;
+  private readonly deviceManager: TrustedDeviceManager;
+  private readonly riskEngine: RiskRulesEngine;
+  private readonly thresholds: TransactionThresholds;
+  private readonly ledger: TransactionLedger;
+  private readonly payees: PayeeRegistry;
+  private readonly totp: TotpManager;
+  private readonly codes: OneTimeCodeManager;
+  private readonly codeSender: VerificationCodeSender;
+  private readonly passkeys: PasskeyManager;
+  private readonly liveness: LivenessDetector;
+  private readonly behavior: BehaviorBaseline;
+  private readonly environment: EnvironmentIntegrity;
+  private readonly pairingManager: PairingManager;
+  private initialized: Promise<void> | null = null;
+
+  constructor(config: SecurePayConfig = {}) {
+    this.config = resolveConfig(config);
+    const { namespace, qrExpiryMs, clock, logger } = this.config;
+
+    const storage = namespace
+      ? new NamespacedStorageAdapter(this.config.storage, namespace)
+      : this.config.storage;
+    this.storage = this.config.encryptAtRest
+      ? new EncryptedStorageAdapter(
+          storage,
+          this.config.keyStore,
+          `${namespace || 'default'}:storage`,
+          [
+            ...TrustedDeviceManager.SENSITIVE_STORAGE_KEYS,
+            ...QRCodeManager.SENSITIVE_STORAGE_KEYS,
+            ...TransactionLedger.SENSITIVE_STORAGE_KEYS,
+            ...PayeeRegistry.SENSITIVE_STORAGE_KEYS,
+            ...TotpManager.SENSITIVE_STORAGE_KEYS,
+            ...OneTimeCodeManager.SENSITIVE_STORAGE_KEYS,
+            ...BehaviorBaseline.SENSITIVE_STORAGE_KEYS,
+          ],
+          logger
+        )
+      : storage;
+    this.fingerprint = new DeviceFingerprint(this.storage, clock);
+    this.deviceKeys = new DeviceKeyManager(this.config.keyStore, namespace || 'default');
+    this.qrCodeManager = new QRCodeManager(this.fingerprint, this.deviceKeys, this.storage, { qrExpiryMs, clock, logger });
+    this.thresholds = new TransactionThresholds({
+      baseCurrency: this.config.baseCurrency,
+      highValueThreshold: this.config.highValueThreshold,
+      highValueThresholds: this.config.highValueThresholds,
+      exchangeRates: this.config.exchangeRates,
+      logger,
+    });
+    this.ledger = new TransactionLedger(this.storage, {
+      baseCurrency: this.config.baseCurrency,
+      retentionMs: this.config.ledgerRetentionMs,
+      clock,
+      logger,
+    });
+    this.payees = new PayeeRegistry(this.storage, { coolingOffMs: this.config.payeeCoolingOffMs, clock, logger });
+    this.totp = new TotpManager(this.storage, {
+      issuer: this.config.totpIssuer,
+      driftSteps: this.config.totpDriftSteps,
+      maxAttempts: this.config.totpMaxAttempts,
+      lockoutMs: this.config.totpLockoutMs,
+      clock,
+      logger,
+    });
+    this.codes = new OneTimeCodeManager(this.storage, {
+      ttlMs: this.config.verificationCodeTtlMs,
+      maxAttempts: this.config.verificationCodeMaxAttempts,
+      resendIntervalMs: this.config.verificationCodeResendIntervalMs,
+      lockoutMs: this.config.verificationCodeLockoutMs,
+      clock,
+      logger,
+    });
+    this.codeSender = new VerificationCodeSender(this.codes, {
+      providers: this.config.verificationProviders,
+      templates: mergeVerificationTemplates(DEFAULT_VERIFICATION_TEMPLATES, this.config.verificationTemplates),
+      locale: this.config.verificationLocale,
+      clock,
+      logger,
+    });
+    // Outside a page there is no location; configure passkeyRpId and passkeyOrigin explicitly there
+    const location = typeof window !== 'undefined' ? window.location : null;
+    this.passkeys = new PasskeyManager({
+      authenticator: this.config.passkeyAuthenticator || createDefaultPasskeyAuthenticator(),
+      rpId: this.config.passkeyRpId || location?.hostname || 'localhost',
+      rpName: this.config.passkeyRpName,
+      origin: this.config.passkeyOrigin || location?.origin || 'http://localhost',
+      timeoutMs: this.config.passkeyTimeoutMs,
+      clock,
+      logger,
+    });
+    this.behavior = new BehaviorBaseline(this.storage, {
+      minSamples: this.config.behaviorBaselineMinSamples,
+      logger,
+    });
+    this.environment = new EnvironmentIntegrity({ clock, logger });
+    this.liveness = new LivenessDetector({
+      promptCount: this.config.livenessPromptCount,
+      challengeTtlMs: this.config.livenessChallengeTtlMs,
+      clock,
+      logger,
+    });
+    this.riskEngine = new RiskRulesEngine(
+      this.config.riskRules || createDefaultRiskRules({
+        dailyLimit: this.config.highValueThreshold,
+        newPayeeLimit: this.config.newPayeeLimit,
+        behaviorAnomalyThreshold: this.config.behaviorAnomalyThreshold,
+        environmentRiskThreshold: this.config.environmentRiskThreshold,
+      })
+    );
+    this.deviceManager = new TrustedDeviceManager(this.fingerprint, this.deviceKeys, this.storage, {
+      riskEngine: this.riskEngine,
+      thresholds: this.thresholds,
+      ledger: this.ledger,
+      payees: this.payees,
+      totp: this.totp,
+      passkeys: this.passkeys,
+      faceMatcher: new FaceMatcher({ threshold: this.config.faceMatchThreshold }),
+      gestureMatcher: new GestureMatcher({
+        threshold: this.config.gestureMatchThreshold,
+        enrollmentSamples: this.config.gestureEnrollmentSamples,
+      }),
+      liveness: this.liveness,
+      lockout: new BiometricLockout(this.storage, {
+        maxAttempts: this.config.biometricMaxAttempts,
+        lockoutMs: this.config.biometricLockoutMs,
+        clock,
+        logger,
+      }),
+      fallbackFactors: this.config.biometricFallbackFactors,
+      reverificationWindowMs: this.config.reverificationWindowMs,
+      behavior: this.behavior,
+      environment: this.environment,
+      recognitionThreshold: this.config.deviceRecognitionThreshold,
+      driftBenignSimilarity: this.config.deviceDriftBenignSimilarity,
+      driftUntrustSimilarity: this.config.deviceDriftUntrustSimilarity,
+      clock,
+      logger,
+    });
+    this.pairingManager = new PairingManager({
+      fingerprint: this.fingerprint,
+      deviceKeys: this.deviceKeys,
+      qrCodeManager: this.qrCodeManager,
+      deviceManager: this.deviceManager,
+      createTransport: this.config.pairingTransport,
+      clock,
+      logger,
+    });
+  }
+
+  /**
+   * Load persisted state. Safe to call more than once
+   */
+  public init(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = (async () => {
+        if (!isWebCryptoAvailable()) {
+          throw new SecurePayError("SecurePay requires WebCrypto (a secure context)", 'webcrypto_unavailable');
+        }
+        if (this.storage.load) {
+          await this.storage.load(this.config.logger);
+        }
+        await this.deviceKeys.load();
+        await this.fingerprint.load();
+        if (this.config.exchangeRates.refresh) {
+          await this.config.exchangeRates.refresh();
+        }
+        this.config.logger.info(`SecurePaySDK initialized${this.config.namespace ? ` (${this.config.namespace})` : ''}`);
+      })();
+    }
+    return this.initialized;
+  }
+
+  /**
+   * Get device information
+   */
+  public getDeviceInfo(): DeviceInfo {
+    return this.fingerprint.generateFingerprint();
+  }
+
+  /**
+   * Register current device as trusted
+   */
+  public registerCurrentDevice(deviceName?: string, phoneNumber?: string): TrustedDevice {
+    return this.deviceManager.registerCurrentDevice(deviceName || 'My Device', phoneNumber);
+  }
+
+  /**
+   * Check if current device is registered
+   */
+  public isDeviceRegistered(): boolean {
+    return this.deviceManager.isCurrentDeviceRegistered();
+  }
+
+  /**
+   * Get current device information
+   */
+  public getCurrentDevice(): TrustedDevice | null {
+    return this.deviceManager.getCurrentDevice();
+  }
+
+  /**
+   * How far this device's signals have moved from the ones recorded for it
+   */
+  public getDeviceDrift(): DeviceDriftReport | null {
+    return this.deviceManager.getDeviceDrift();
+  }
+
+  /**
+   * Signs that this browser is automated, headless or emulating another device. Null outside a browser
+   */
+  public getEnvironmentReport(): EnvironmentRiskReport | null {
+    return this.environment.getReport();
+  }
+
+  /**
+   * Public keys of this device. Share `agreement` with a device that should
+   * generate an encrypted linking QR code for this one.
+   */
+  public getDevicePublicKeys(): DevicePublicKeys {
+    return this.deviceKeys.getPublicKeys();
+  }
+
+  /**
+   * Generate signed QR code data for linking a new device
+   */
+  public generateQRCodeData(options?: GenerateQRCodeOptions): Promise<string> {
+    return this.qrCodeManager.generateQRCodeData(options);
+  }
+
+  /**
+   * Issue a QR code, returning the session alongside the code so it can be revoked.
+   * Single use and revocation are enforced when the code is used to pair with this device
+   */
+  public issueQRCode(options?: GenerateQRCodeOptions): Promise<IssuedQRCode> {
+    return this.qrCodeManager.issueQRCode(options);
+  }
+
+  /**
+   * Revoke an unused QR session issued by this device, so pairings hosted here refuse its code
+   */
+  public revokeQRSession(token: string): boolean {
+    return this.qrCodeManager.revokeQRSession(token);
+  }
+
+  /**
+   * QR sessions issued by this device that can still link a device
+   */
+  public getActiveQRSessions(): QRSession[] {
+    return this.qrCodeManager.getActiveQRSessions();
+  }
+
+  /**
+   * Process QR code data from scan. Only codes from a device already trusted under the same key
+   * are accepted; new devices are linked with `joinPairing`. The issuer is not consulted, so its
+   * revocations and codes used on other devices are not seen here; a code is only refused once
+   * this device has used it. Throws QRCodeError when the code is rejected
+   */
+  public async processQRCodeData(qrData: string): Promise<TrustedDevice> {
+    const parsedData = await this.qrCodeManager.parseQRCodeData(qrData);
+    return this.deviceManager.linkDeviceFromQR(
+      parsedData,
+      data => this.qrCodeManager.consumeSession(data, data.deviceInfo.deviceId)
+    );
+  }
+
+  /**
+   * Start a two-way pairing on this (primary) device. Show the session's `qrData`
+   * to the other device, compare short authentication strings, then `confirm()`
+   */
+  public hostPairing(options?: HostPairingOptions): Promise<PairingHostSession> {
+    return this.pairingManager.host(options);
+  }
+
+  /**
+   * Answer a pairing QR code scanned from the primary device.
+   * The link completes once the primary device confirms the short authentication string
+   */
+  public joinPairing(qrData: string, options?: PairingOptions): Promise<PairingGuestSession> {
+    return this.pairingManager.join(qrData, options);
+  }
+
+  /**
+   * Get list of trusted devices
+   */
+  public getTrustedDevices(): TrustedDevice[] {
+    return this.deviceManager.getTrustedDevices();
+  }
+
+  /**
+   * Remove trusted device
+   */
+  public removeTrustedDevice(deviceId: string): boolean {
+    return this.deviceManager.removeTrustedDevice(deviceId);
+  }
+
+  /**
+   * Verify transaction security. Pass `biometricUnavailable` when a biometric could not be
+   * captured, e.g. camera access was denied, to be asked for a fallback factor instead
+   */
+  public verifyTransaction(transaction: Transaction, options?: VerifyTransactionOptions): TransactionVerificationResult {
+    return this.deviceManager.verifyTransaction(transaction, options);
+  }
+
+  /**
+   * Start recording how a payment is entered. Observe the form's inputs and attach
+   * `summarize()` to the transaction as `behavior` when it is submitted
+   */
+  public createBehaviorRecorder(): BehaviorRecorder {
+    return new BehaviorRecorder();
+  }
+
+  /**
+   * Forget the account holder's learned typing and pointer behaviour
+   */
+  public resetBehaviorBaseline(): void {
+    this.behavior.reset();
+  }
+
+  /**
+   * Transactions checked on this device within the ledger retention period, oldest first
+   */
+  public getTransactionHistory(): LedgerEntry[] {
+    return this.ledger.getEntries();
+  }
+
+  /**
+   * Add a recipient to this account's payees. It stays in its cooling-off period for `payeeCoolingOffMs`
+   */
+  public addTrustedPayee(name: string): Payee {
+    return this.payees.addTrustedPayee(name);
+  }
+
+  /**
+   * Remove a recipient from this account's payees
+   */
+  public removeTrustedPayee(name: string): boolean {
+    return this.payees.removeTrustedPayee(name);
+  }
+
+  /**
+   * Recipients this account has added or paid
+   */
+  public getPayees(): Payee[] {
+    return this.payees.getPayees();
+  }
+
+  /**
+   * Whether a recipient is new, cooling off or established for this account
+   */
+  public getPayeeStatus(name: string): PayeeStatus {
+    return this.payees.getStatus(name);
+  }
+
+  /**
+   * Whether an amount needs call verification as a high-value transaction
+   */
+  public isHighValueTransaction(amount: Money): boolean {
+    return this.thresholds.isHighValue(amount);
+  }
+
+  /**
+   * The smallest amount in `currency` that counts as high value, or null when no rate is known
+   */
+  public getHighValueThreshold(currency: string): Money | null {
+    return this.thresholds.getHighValueThreshold(currency);
+  }
+
+  /**
+   * Risk rules applied by verifyTransaction, in evaluation order
+   */
+  public getRiskRules(): RiskRule[] {
+    return this.riskEngine.getRules();
+  }
+
+  /**
+   * Issue a verification code for a high-value transaction and send it over `channel`
+   * with the configured providers, to the phone number registered with the current device.
+   * Throws VerificationCodeError while locked out or when requested again too soon, and
+   * VerificationDeliveryError when it cannot be sent or the device has no phone number
+   */
+  public sendVerificationCode(transaction: Transaction, options: SendVerificationCodeOptions): Promise<SentVerificationCode> {
+    return this.codeSender.send(transaction, options, this.getCurrentDevice()?.phoneNumber);
+  }
+
+  /**
+   * Channels the configured verification providers can deliver over
+   */
+  public getVerificationChannels(): VerificationChannel[] {
+    return this.codeSender.getAvailableChannels();
+  }
+
+  /**
+   * Generate a single-use verification code for a high-value transaction, for callers
+   * that deliver it themselves. Throws VerificationCodeError while locked out or when
+   * requested again too soon
+   */
+  public generateVerificationCode(transaction: Transaction): Promise<IssuedVerificationCode> {
+    return this.codes.issue(transaction);
+  }
+
+  /**
+   * Verify a code entered by the user for the transaction it was issued for.
+   * A valid code completes the transaction's call step-up; once no step-ups are left, a device
+   * whose signals have changed is re-verified. A valid code also proves the user for isReverificationRequired
+   */
+  public async verifyCode(code: string, transaction: Transaction): Promise<VerificationCodeResult> {
+    const result = await this.codes.verify(code, transaction);
+    if (result.valid) {
+      this.deviceManager.recordReverification();
+      this.deviceManager.completeStepUp(transaction.id, 'call');
+    }
+    return result;
+  }
+
+  /**
+   * Discard the outstanding verification code
+   */
+  public cancelVerificationCode(): void {
+    this.codes.cancel();
+  }
+
+  /**
+   * Start adding an authenticator app. Show `uri` as a QR code, then confirm with a code from the app
+   */
+  public beginTotpEnrollment(accountName?: string): TotpSetup {
+    return this.totp.beginEnrollment(accountName || this.getCurrentDevice()?.name || 'SecurePay account');
+  }
+
+  /**
+   * Finish adding an authenticator app with the code it currently shows.
+   * Throws ReverificationRequiredError unless the user proved a factor lately (see isReverificationRequired),
+   * and VerificationCodeError while authenticator codes are locked out
+   */
+  public async confirmTotpEnrollment(code: string): Promise<boolean> {
+    this.deviceManager.assertReverified('adding an authenticator app');
+    return this.totp.confirmEnrollment(code);
+  }
+
+  /**
+   * Whether an authenticator app is enrolled
+   */
+  public isTotpEnrolled(): boolean {
+    return this.totp.isEnrolled();
+  }
+
+  /**
+   * Remove the authenticator app; high-value transactions fall back to call verification.
+   * Throws ReverificationRequiredError unless the user proved a factor lately (see isReverificationRequired)
+   */
+  public removeTotpEnrollment(): void {
+    this.deviceManager.assertReverified('removing the authenticator app');
+    this.totp.removeEnrollment();
+  }
+
+  /**
+   * Verify a code from the authenticator app. With `transaction`, a valid code completes its step-up
+   */
+  public async verifyTotp(code: string, transaction?: Transaction): Promise<TotpVerificationResult> {
+    const result = await this.totp.verify(code);
+    if (result.valid && transaction) {
+      this.deviceManager.completeStepUp(transaction.id, 'totp');
+    }
+    return result;
+  }
+
+  /**
+   * Enroll a face or drawn fingerprint gesture on the current device, alongside any already enrolled.
+   * Throws BiometricError when the device is not registered or the capture cannot be enrolled, and
+   * ReverificationRequiredError when others are enrolled and isReverificationRequired
+   */
+  public addBiometric(enrollment: BiometricEnrollment, options?: BiometricEnrollmentOptions): BiometricCredential {
+    this.config.logger.debug(`[SecurePaySDK] Enrolling biometric: ${enrollment.type}`);
+    return this.deviceManager.addBiometric(enrollment, options);
+  }
+
+  /**
+   * Biometrics enrolled on the current device, oldest first
+   */
+  public getBiometrics(): BiometricCredential[] {
+    return this.deviceManager.getBiometrics();
+  }
+
+  /**
+   * Give an enrollment a new label. Throws BiometricError when it does not exist
+   */
+  public renameBiometric(id: string, label: string): BiometricCredential {
+    return this.deviceManager.renameBiometric(id, label);
+  }
+
+  /**
+   * Remove one enrollment from the current device; the others stay usable.
+   * Throws ReverificationRequiredError when isReverificationRequired
+   */
+  public revokeBiometric(id: string): boolean {
+    this.config.logger.debug(`[SecurePaySDK] Revoking biometric: ${id}`);
+    return this.deviceManager.revokeBiometric(id);
+  }
+
+  /**
+   * How many drawings of the fingerprint gesture enrollment needs
+   */
+  public getGestureEnrollmentSamples(): number {
+    return this.config.gestureEnrollmentSamples;
+  }
+
+  /**
+   * Biometric to ask for when verifying on this device: the kind used most recently, or null when none is enrolled
+   */
+  public getBiometricType(): BiometricType | null {
+    const type = this.deviceManager.getPreferredBiometricType();
+    this.config.logger.debug(`[SecurePaySDK] Getting biometric type: ${type || 'null'}`);
+    return type;
+  }
+
+  /**
+   * Compare a captured biometric against those enrolled on this device
+   */
+  public verifyBiometric(sample: BiometricSample): BiometricMatchResult {
+    this.config.logger.debug(`[SecurePaySDK] Verifying biometric data`);
+    return this.deviceManager.verifyBiometric(sample);
+  }
+
+  /**
+   * Start a face liveness check: show each prompt in turn and record frames while it is on screen
+   */
+  public createLivenessChallenge(): LivenessChallenge {
+    return this.liveness.createChallenge();
+  }
+
+  /**
+   * Check frames recorded for a liveness challenge, e.g. to give the user feedback.
+   * The capture stays usable for verifyTransactionWithBiometric until the challenge expires.
+   * Pass the frame the face will be matched on, which must open the capture.
+   * A still image, ignored prompts or a change of face count towards the biometric lockout
+   */
+  public checkLiveness(capture: LivenessCapture, matchedFrame?: FaceFrame): LivenessResult {
+    return this.deviceManager.checkLiveness(capture, matchedFrame);
+  }
+
+  /**
+   * Whether the user must prove a factor before changing the authenticator app or biometrics: a code sent to their
+   * phone for a transaction, a passkey, or a biometric matched with verifyBiometric or for a transaction
+   */
+  public isReverificationRequired(): boolean {
+    return this.deviceManager.isReverificationRequired();
+  }
+
+  /**
+   * Prove the user with the device's passkey, outside any transaction.
+   * Throws PasskeyError when no passkey can be used, e.g. the user cancels the prompt
+   */
+  public reverifyWithPasskey(): Promise<boolean> {
+    return this.deviceManager.reverifyWithPasskey();
+  }
+
+  /**
+   * Whether biometrics are locked on this device after failed attempts, and how many attempts are left
+   */
+  public getBiometricLockout(): BiometricLockoutStatus {
+    return this.deviceManager.getBiometricLockout();
+  }
+
+  /**
+   * Whether this browser has a platform authenticator that can hold a passkey
+   */
+  public isPasskeyAvailable(): Promise<boolean> {
+    return this.passkeys.isAvailable();
+  }
+
+  /**
+   * Create a passkey for the current device and enroll it alongside the device's other biometrics.
+   * Throws PasskeyError when it cannot be created, and ReverificationRequiredError when other
+   * biometrics are enrolled and isReverificationRequired
+   */
+  public registerPasskey(options?: BiometricEnrollmentOptions): Promise<BiometricCredential> {
+    return this.deviceManager.registerPasskey(options);
+  }
+
+  /**
+   * Verify a transaction with the device's passkey, over a challenge bound to the transaction.
+   * Throws PasskeyError when no passkey can be used, e.g. the user cancels the prompt
+   */
+  public verifyTransactionWithPasskey(transaction: Transaction): Promise<TransactionVerificationResult> {
+    return this.deviceManager.verifyTransactionWithPasskey(transaction);
+  }
+
+  /**
+   * Verify transaction with biometric
+   */
+  public verifyTransactionWithBiometric(transaction: Transaction, sample: BiometricSample): TransactionVerificationResult {
+    return this.deviceManager.verifyTransactionWithBiometric(transaction, sample);
+  }
+}
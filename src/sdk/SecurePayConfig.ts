@@ -0,0 +1,333 @@
+/**
+ * SecurePayConfig.ts
+ * Configuration schema and defaults for SecurePay SDK instances
+ */
+import { z } from 'zod';
+import { MemoryStorageAdapter, StorageAdapter, createDefaultStorage } from './StorageAdapter';
+import { KeyStore, MemoryKeyStore, createDefaultKeyStore } from './KeyStore';
+import { SecurePayError } from './SecurePayError';
+import { PairingTransport, createDefaultPairingTransport } from './PairingTransport';
+import { riskRuleSchema } from './RiskRulesEngine';
+import { ExchangeRateProvider, StaticExchangeRateProvider } from './ExchangeRateProvider';
+import { MockVerificationChannelProvider, VERIFICATION_CHANNELS, VerificationChannelProvider } from './VerificationChannelProvider';
+import { VerificationTemplates } from './VerificationTemplates';
+import { PasskeyAuthenticator } from './PasskeyAuthenticator';
+import { BIOMETRIC_FALLBACK_FACTORS } from './BiometricLockout';
+
+/**
+ * Minimal logging surface used by the SDK. `console` satisfies it.
+ */
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Time source used for timestamps and expiries. Override it in tests.
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+const storageSchema = z.custom<StorageAdapter>(
+  (value) => !!value
+    && typeof (value as StorageAdapter).getItem === 'function'
+    && typeof (value as StorageAdapter).setItem === 'function'
+    && typeof (value as StorageAdapter).removeItem === 'function',
+  { message: 'storage must implement getItem, setItem and removeItem' }
+);
+
+const loggerSchema = z.custom<Logger>(
+  (value) => !!value
+    && ['debug', 'info', 'warn', 'error'].every(method => typeof (value as Record<string, unknown>)[method] === 'function'),
+  { message: 'logger must implement debug, info, warn and error' }
+);
+
+const keyStoreSchema = z.custom<KeyStore>(
+  (value) => !!value
+    && ['getKey', 'saveKey', 'deleteKey'].every(method => typeof (value as Record<string, unknown>)[method] === 'function'),
+  { message: 'keyStore must implement getKey, saveKey and deleteKey' }
+);
+
+const transportFactorySchema = z.custom<() => PairingTransport>(
+  (value) => typeof value === 'function',
+  { message: 'pairingTransport must be a function returning a PairingTransport' }
+);
+
+const exchangeRatesSchema = z.custom<ExchangeRateProvider>(
+  (value) => !!value && typeof (value as ExchangeRateProvider).getRate === 'function',
+  { message: 'exchangeRates must implement getRate(from, to)' }
+);
+
+const verificationProviderSchema = z.custom<VerificationChannelProvider>(
+  (value) => !!value
+    && Array.isArray((value as VerificationChannelProvider).channels)
+    && typeof (value as VerificationChannelProvider).send === 'function',
+  { message: 'verification providers must list their channels and implement send(message)' }
+);
+
+const verificationTemplatesSchema = z.custom<VerificationTemplates>(
+  (value) => !!value && typeof value === 'object'
+    && Object.values(value).every(channels => !!channels && typeof channels === 'object'
+      && Object.entries(channels).every(([channel, template]) =>
+        (VERIFICATION_CHANNELS as readonly string[]).includes(channel)
+        && typeof (template as Record<string, unknown>)?.body === 'string'
+      )
+    ),
+  { message: 'verificationTemplates must map locales to sms, voice, email or push templates with a body' }
+);
+
+const passkeyAuthenticatorSchema = z.custom<PasskeyAuthenticator>(
+  (value) => !!value
+    && ['isAvailable', 'create', 'get'].every(method => typeof (value as Record<string, unknown>)[method] === 'function'),
+  { message: 'passkeyAuthenticator must implement isAvailable, create and get' }
+);
+
+const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, 'currency must be an ISO 4217 code such as "USD"');
+
+const clockSchema = z.custom<Clock>(
+  (value) => !!value && typeof (value as Clock).now === 'function',
+  { message: 'clock must implement now()' }
+);
+
+export const securePayConfigSchema = z.object({
+  /**
+   * Prefix applied to every storage key so several accounts can share one store
+   */
+  namespace: z.string().regex(/^[A-Za-z0-9_-]+$/, 'namespace may only contain letters, digits, "_" and "-"').optional(),
+  /**
+   * Currency that `highValueThreshold` is expressed in
+   */
+  baseCurrency: currencyCodeSchema.default('USD'),
+  /**
+   * Transactions worth at least this much in the base currency require call verification.
+   * The default risk rules also use it as the daily limit per device
+   */
+  highValueThreshold: z.number().positive().default(10000),
+  /**
+   * Per-currency thresholds, in that currency, used instead of converting `highValueThreshold`
+   */
+  highValueThresholds: z.record(currencyCodeSchema, z.number().positive()).default({}),
+  /**
+   * Converts transaction amounts into the base currency. Defaults to a static table of rates
+   */
+  exchangeRates: exchangeRatesSchema.default(() => new StaticExchangeRateProvider()),
+  /**
+   * How long a newly added or first-paid payee stays subject to the new-payee limit
+   */
+  payeeCoolingOffMs: z.number().int().nonnegative().default(24 * 60 * 60 * 1000),
+  /**
+   * Most that can be sent to a payee in its cooling-off period, in the base currency. Used by the default risk rules
+   */
+  newPayeeLimit: z.number().positive().default(1000),
+  /**
+   * Issuer shown in authenticator apps
+   */
+  totpIssuer: z.string().min(1).default('SecurePay'),
+  /**
+   * 30-second time steps an authenticator code may be early or late by
+   */
+  totpDriftSteps: z.number().int().min(0).max(10).default(1),
+  /**
+   * Wrong authenticator codes allowed before authenticator verification locks out
+   */
+  totpMaxAttempts: z.number().int().positive().default(5),
+  /**
+   * How long authenticator verification stays locked after too many wrong codes
+   */
+  totpLockoutMs: z.number().int().positive().default(15 * 60 * 1000),
+  /**
+   * How long a call verification code stays valid
+   */
+  verificationCodeTtlMs: z.number().int().positive().default(5 * 60 * 1000),
+  /**
+   * Wrong verification codes allowed, across resends, before verification locks out
+   */
+  verificationCodeMaxAttempts: z.number().int().positive().default(5),
+  /**
+   * Minimum time between two verification codes being sent
+   */
+  verificationCodeResendIntervalMs: z.number().int().nonnegative().default(30 * 1000),
+  /**
+   * How long verification stays locked after too many wrong codes
+   */
+  verificationCodeLockoutMs: z.number().int().positive().default(15 * 60 * 1000),
+  /**
+   * Deliver verification codes by SMS, voice call, email or push. The first provider supporting
+   * the requested channel sends it. Defaults to a mock provider that only records messages
+   */
+  verificationProviders: z.array(verificationProviderSchema).default(() => [new MockVerificationChannelProvider()]),
+  /**
+   * Locale verification messages are rendered in when a request does not name one
+   */
+  verificationLocale: z.string().min(1).default('en'),
+  /**
+   * Message templates by locale and channel, layered over the built-in ones
+   */
+  verificationTemplates: verificationTemplatesSchema.default({}),
+  /**
+   * Performs WebAuthn ceremonies. Defaults to `navigator.credentials` when available;
+   * pass a SoftwarePasskeyAuthenticator in headless tests
+   */
+  passkeyAuthenticator: passkeyAuthenticatorSchema.optional(),
+  /**
+   * WebAuthn relying party ID. Defaults to the page's hostname
+   */
+  passkeyRpId: z.string().min(1).optional(),
+  /**
+   * Relying party name shown in the passkey prompt
+   */
+  passkeyRpName: z.string().min(1).default('SecurePay'),
+  /**
+   * Origin passkey responses must come from. Defaults to the page's origin
+   */
+  passkeyOrigin: z.string().url().optional(),
+  /**
+   * How long the passkey prompt waits for the user
+   */
+  passkeyTimeoutMs: z.number().int().positive().default(60 * 1000),
+  /**
+   * Minimum similarity, between 0 and 1, for a captured face to match the enrolled one.
+   * Raise it to reject more impostors at the cost of more retries
+   */
+  faceMatchThreshold: z.number().min(0).max(1).default(0.82),
+  /**
+   * Minimum similarity, between 0 and 1, for a drawn gesture to match the enrolled one
+   */
+  gestureMatchThreshold: z.number().min(0).max(1).default(0.82),
+  /**
+   * How many times the user draws their gesture to enroll it
+   */
+  gestureEnrollmentSamples: z.number().int().min(2).default(3),
+  /**
+   * Prompts, such as "turn your head left" or "blink", in each face liveness challenge
+   */
+  livenessPromptCount: z.number().int().min(1).max(3).default(2),
+  /**
+   * How long the frames for a liveness challenge may take to arrive
+   */
+  livenessChallengeTtlMs: z.number().int().positive().default(2 * 60 * 1000),
+  /**
+   * Failed face or fingerprint attempts in a row before biometrics lock on a device
+   */
+  biometricMaxAttempts: z.number().int().positive().default(5),
+  /**
+   * How long biometrics stay locked after too many failed attempts
+   */
+  biometricLockoutMs: z.number().int().positive().default(15 * 60 * 1000),
+  /**
+   * Factors asked for, in order of preference, when biometrics are locked or the camera is unavailable.
+   * The first one the device has set up is used; with none, such transactions are blocked
+   */
+  biometricFallbackFactors: z.array(z.enum(BIOMETRIC_FALLBACK_FACTORS)).default(['passkey', 'totp', 'otp']),
+  /**
+   * How long after proving a factor (a call code, passkey or biometric) the user may change the
+   * device's authenticator app or biometrics without proving one again
+   */
+  reverificationWindowMs: z.number().int().positive().default(5 * 60 * 1000),
+  /**
+   * Behaviour score, between 0 and 1, from which the default risk rules ask for a call.
+   * The score rises with pastes, injected input and typing or pointer movement unlike the account holder's
+   */
+  behaviorAnomalyThreshold: z.number().min(0).max(1).default(0.6),
+  /**
+   * Approved transactions to learn from before departures from the account holder's usual behaviour count
+   */
+  behaviorBaselineMinSamples: z.number().int().min(2).default(5),
+  /**
+   * Environment risk, between 0 and 1, from which the default risk rules ask for a call.
+   * It rises as signs of automation (WebDriver, Puppeteer, Playwright), headless browsing or device emulation are found
+   */
+  environmentRiskThreshold: z.number().min(0).max(1).default(0.5),
+  /**
+   * Minimum similarity, between 0 and 1, of the browser and hardware signals for a device whose
+   * stored ID was wiped to be recognised as the trusted device it was registered as
+   */
+  deviceRecognitionThreshold: z.number().min(0).max(1).default(0.85),
+  /**
+   * Minimum similarity, between 0 and 1, to the signals on record for changes that leave the hardware
+   * signals alone to count as a benign update. Benign changes are taken on without asking; others need re-verification
+   */
+  deviceDriftBenignSimilarity: z.number().min(0).max(1).default(0.7),
+  /**
+   * Similarity below which the device is no longer trusted and must be registered again
+   */
+  deviceDriftUntrustSimilarity: z.number().min(0).max(1).default(0.35),
+  /**
+   * How long checked transactions are kept for velocity rules
+   */
+  ledgerRetentionMs: z.number().int().positive().default(30 * 24 * 60 * 60 * 1000),
+  /**
+   * Ordered risk rules applied to every transaction. Replaces the default rules when set
+   */
+  riskRules: z.array(riskRuleSchema).optional(),
+  /**
+   * How long a device-linking QR code stays valid
+   */
+  qrExpiryMs: z.number().int().positive().default(5 * 60 * 1000),
+  storage: storageSchema.optional(),
+  /**
+   * Encrypt trusted devices, biometric material and codes with AES-GCM before they reach storage.
+   * Over persistent storage this needs a persistent keyStore, or the data could not be read after a restart
+   */
+  encryptAtRest: z.boolean().default(true),
+  /**
+   * Where encryption and device signing keys live. Defaults to IndexedDB when available, memory otherwise
+   */
+  keyStore: keyStoreSchema.optional(),
+  /**
+   * Creates the channel used for each device pairing handshake.
+   * Defaults to BroadcastChannel when available, an in-memory channel otherwise
+   */
+  pairingTransport: transportFactorySchema.default(() => createDefaultPairingTransport),
+  logger: loggerSchema.default(console),
+  clock: clockSchema.default(systemClock),
+});
+
+export type SecurePayConfig = z.input<typeof securePayConfigSchema>;
+
+export type ResolvedSecurePayConfig = Omit<z.output<typeof securePayConfigSchema>, 'storage' | 'keyStore'> & {
+  storage: StorageAdapter;
+  keyStore: KeyStore;
+};
+
+export class SecurePayConfigError extends SecurePayError {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid SecurePay configuration: ${issues.join('; ')}`, 'invalid_config');
+    this.name = 'SecurePayConfigError';
+  }
+}
+
+/**
+ * Validate a user supplied configuration and fill in defaults
+ */
+export function resolveConfig(config: SecurePayConfig = {}): ResolvedSecurePayConfig {
+  const parsed = securePayConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new SecurePayConfigError(
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+    );
+  }
+
+  const storage = parsed.data.storage || createDefaultStorage();
+  const keyStore = parsed.data.keyStore || createDefaultKeyStore();
+  // A key held in memory is gone on the next load, taking everything encrypted with it
+  if (parsed.data.encryptAtRest && keyStore instanceof MemoryKeyStore && !(storage instanceof MemoryStorageAdapter)) {
+    throw new SecurePayConfigError([
+      'keyStore: encryptAtRest over persistent storage needs a persistent keyStore, such as IndexedDB; '
+        + 'provide one or set encryptAtRest to false',
+    ]);
+  }
+
+  return {
+    ...parsed.data,
+    storage,
+    keyStore,
+  };
+}
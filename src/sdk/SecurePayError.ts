@@ -0,0 +1,117 @@
+/**
+ * SecurePayError.ts
+ * Error types thrown by the SDK
+ */
+
+/**
+ * Base class for every error the SDK throws on purpose
+ */
+export class SecurePayError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'SecurePayError';
+  }
+}
+
+export type QRCodeErrorReason =
+  | 'malformed'
+  | 'unsigned'
+  | 'invalid_signature'
+  | 'key_mismatch'
+  | 'untrusted_issuer'
+  | 'expired'
+  | 'already_used'
+  | 'revoked'
+  | 'decryption_failed';
+
+/**
+ * Raised when a scanned device-linking QR code is rejected
+ */
+export class QRCodeError extends SecurePayError {
+  constructor(public readonly reason: QRCodeErrorReason, message: string) {
+    super(message, `qr_${reason}`);
+    this.name = 'QRCodeError';
+  }
+}
+
+export type VerificationCodeErrorReason =
+  | 'resend_throttled'
+  | 'locked_out';
+
+/**
+ * Raised when a verification code cannot be issued yet
+ */
+export class VerificationCodeError extends SecurePayError {
+  constructor(
+    public readonly reason: VerificationCodeErrorReason,
+    message: string,
+    /**
+     * Milliseconds until a code can be requested again
+     */
+    public readonly retryAfterMs: number
+  ) {
+    super(message, `verification_code_${reason}`);
+    this.name = 'VerificationCodeError';
+  }
+}
+
+export type VerificationDeliveryErrorReason =
+  | 'no_provider'
+  | 'no_template'
+  | 'no_destination'
+  | 'send_failed';
+
+/**
+ * Raised when a verification code cannot be delivered over the requested channel
+ */
+export class VerificationDeliveryError extends SecurePayError {
+  constructor(public readonly reason: VerificationDeliveryErrorReason, message: string) {
+    super(message, `verification_delivery_${reason}`);
+    this.name = 'VerificationDeliveryError';
+  }
+}
+
+export type PasskeyErrorReason =
+  | 'unavailable'
+  | 'not_registered'
+  | 'already_registered'
+  | 'cancelled'
+  | 'invalid_response';
+
+/**
+ * Raised when a passkey cannot be created or asked for an assertion
+ */
+export class PasskeyError extends SecurePayError {
+  constructor(public readonly reason: PasskeyErrorReason, message: string) {
+    super(message, `passkey_${reason}`);
+    this.name = 'PasskeyError';
+  }
+}
+
+export type BiometricErrorReason =
+  | 'not_registered'
+  | 'not_found'
+  | 'no_face_detected'
+  | 'low_quality'
+  | 'too_few_samples'
+  | 'inconsistent';
+
+/**
+ * Raised when a biometric cannot be enrolled or an enrollment cannot be found
+ */
+export class BiometricError extends SecurePayError {
+  constructor(public readonly reason: BiometricErrorReason, message: string) {
+    super(message, `biometric_${reason}`);
+    this.name = 'BiometricError';
+  }
+}
+
+/**
+ * Raised when the device's factors are changed without the user having recently proved one of them
+ */
+export class ReverificationRequiredError extends SecurePayError {
+  constructor(message: string) {
+    super(message, 'reverification_required');
+    this.name = 'ReverificationRequiredError';
+  }
+}
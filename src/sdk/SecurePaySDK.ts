@@ -2,152 +2,593 @@
  * SecurePaySDK.ts
  * Main entry point for the fraud prevention SDK
  */
-import { DeviceFingerprint, DeviceInfo } from './DeviceFingerprint';
-import { QRCodeManager, QRCodeData } from './QRCodeManager';
-import { TrustedDeviceManager, TrustedDevice, Transaction, TransactionVerificationResult, BiometricType } from './TrustedDeviceManager';
+import { DeviceInfo } from './DeviceFingerprint';
+import { QRCodeData, GenerateQRCodeOptions, IssuedQRCode, QRSession } from './QRCodeManager';
+import { DevicePublicKeys } from './DeviceKeyManager';
+import { HostPairingOptions, PairingGuestSession, PairingHostSession, PairingOptions, PairingSnapshot, PairingState } from './PairingManager';
+import { PairingTransport } from './PairingTransport';
+import { TrustedDevice, Transaction, TransactionVerificationResult, BiometricType, BiometricSample, BiometricEnrollment, BiometricCredential, BiometricEnrollmentOptions, BiometricFallback, VerifyTransactionOptions } from './TrustedDeviceManager';
+import { StorageAdapter } from './StorageAdapter';
+import { KeyStore } from './KeyStore';
+import { SecurePayConfig, Logger, Clock } from './SecurePayConfig';
+import { SecurePayClient } from './SecurePayClient';
+import { BiometricErrorReason, PasskeyErrorReason, QRCodeErrorReason, VerificationCodeErrorReason, VerificationDeliveryErrorReason } from './SecurePayError';
+import { ExchangeRateProvider } from './ExchangeRateProvider';
+import { Money, MoneyJSON } from './Money';
+import { LedgerEntry, VelocityScope } from './TransactionLedger';
+import { Payee, PayeeStatus } from './PayeeRegistry';
+import { TotpFailureReason, TotpSetup, TotpVerificationResult } from './TotpManager';
+import { IssuedVerificationCode, VerificationCodeFailureReason, VerificationCodeResult } from './OneTimeCodeManager';
+import { SendVerificationCodeOptions, SentVerificationCode } from './VerificationCodeSender';
+import { OutboundVerificationMessage, VerificationChannel, VerificationChannelProvider, VerificationMessage } from './VerificationChannelProvider';
+import { VerificationTemplate, VerificationTemplates } from './VerificationTemplates';
+import { PasskeyCredential, PasskeyFailureReason } from './PasskeyManager';
+import { PasskeyAuthenticator } from './PasskeyAuthenticator';
+import { BiometricMatchReason, BiometricMatchResult, FaceFrame, FaceTemplate } from './FaceMatcher';
+import { GesturePoint, GestureStroke, GestureTemplate } from './GestureMatcher';
+import { LivenessCapture, LivenessChallenge, LivenessPrompt, LivenessReason, LivenessResult } from './LivenessDetector';
+import { BiometricFallbackFactor, BiometricFallbackReason, BiometricLockoutStatus } from './BiometricLockout';
+import { BehaviorEvent, BehaviorFeatures, BehaviorRecorder } from './BehaviorRecorder';
+import { BehaviorAssessment, BehaviorSignal, BehaviorSignalType } from './BehaviorBaseline';
+import { DeviceDrift, DeviceDriftReport, DeviceSignalName, DeviceSignals, DeviceSimilarity } from './DeviceSignals';
+import { DeviceDetails, DeviceType } from './DeviceDetails';
+import { EnvironmentCheckCategory, EnvironmentCheckId, EnvironmentCheckResult, EnvironmentRiskReport } from './EnvironmentIntegrity';
+import { FiredRule, LivenessState, RiskAction, RiskCondition, RiskContext, RiskLevel, RiskRule, VelocityCondition, VerifiedBiometric } from './RiskRulesEngine';
 
+/**
+ * Create an independent SDK instance with its own configuration and state.
+ * Call `init()` on the returned instance before using it.
+ */
+export function createSecurePay(config: SecurePayConfig = {}): SecurePayClient {
+  return new SecurePayClient(config);
+}
+
+/**
+ * Static facade over a default SecurePayClient instance
+ */
 export class SecurePaySDK {
+  private static instance: SecurePayClient | null = null;
+
   /**
-   * Initialize the SDK
+   * Initialize the SDK, replacing the default instance with one built from `config`
    */
-  public static init(): void {
-    console.log("SecurePaySDK initialized");
-    // In a real implementation, this would set up necessary configurations,
-    // connect to backend services, initialize analytics, etc.
+  public static async init(config: SecurePayConfig = {}): Promise<void> {
+    const instance = createSecurePay(config);
+    await instance.init();
+    this.instance = instance;
   }
-  
+
+  /**
+   * The instance every static method delegates to
+   */
+  public static getInstance(): SecurePayClient {
+    if (!this.instance) {
+      this.instance = createSecurePay();
+    }
+    return this.instance;
+  }
+
   /**
    * Get device information
    */
   public static getDeviceInfo(): DeviceInfo {
-    return DeviceFingerprint.generateFingerprint();
+    return this.getInstance().getDeviceInfo();
   }
-  
+
   /**
    * Register current device as trusted
    */
   public static registerCurrentDevice(deviceName?: string, phoneNumber?: string): TrustedDevice {
-    return TrustedDeviceManager.registerCurrentDevice(deviceName || 'My Device', phoneNumber);
+    return this.getInstance().registerCurrentDevice(deviceName, phoneNumber);
   }
-  
+
   /**
    * Check if current device is registered
    */
   public static isDeviceRegistered(): boolean {
-    return TrustedDeviceManager.isCurrentDeviceRegistered();
+    return this.getInstance().isDeviceRegistered();
   }
-  
+
   /**
    * Get current device information
    */
   public static getCurrentDevice(): TrustedDevice | null {
-    return TrustedDeviceManager.getCurrentDevice();
+    return this.getInstance().getCurrentDevice();
   }
-  
+
   /**
-   * Generate QR code data for linking a new device
+   * How far this device's signals have moved from the ones recorded for it
    */
-  public static generateQRCodeData(): string {
-    return QRCodeManager.generateQRCodeData();
+  public static getDeviceDrift(): DeviceDriftReport | null {
+    return this.getInstance().getDeviceDrift();
   }
-  
+
   /**
-   * Process QR code data from scan
+   * Signs that this browser is automated, headless or emulating another device. Null outside a browser
    */
-  public static processQRCodeData(qrData: string): TrustedDevice | null {
-    const parsedData = QRCodeManager.parseQRCodeData(qrData);
-    if (!parsedData) {
-      return null;
-    }
-    
-    return TrustedDeviceManager.linkDeviceFromQR(parsedData);
+  public static getEnvironmentReport(): EnvironmentRiskReport | null {
+    return this.getInstance().getEnvironmentReport();
   }
-  
+
+  /**
+   * Get the public keys of this device
+   */
+  public static getDevicePublicKeys(): DevicePublicKeys {
+    return this.getInstance().getDevicePublicKeys();
+  }
+
+  /**
+   * Generate signed QR code data for linking a new device
+   */
+  public static generateQRCodeData(options?: GenerateQRCodeOptions): Promise<string> {
+    return this.getInstance().generateQRCodeData(options);
+  }
+
+  /**
+   * Issue a QR code together with its session, which pairings hosted on this device enforce
+   */
+  public static issueQRCode(options?: GenerateQRCodeOptions): Promise<IssuedQRCode> {
+    return this.getInstance().issueQRCode(options);
+  }
+
+  /**
+   * Revoke an unused QR session issued by this device, so pairings hosted here refuse its code
+   */
+  public static revokeQRSession(token: string): boolean {
+    return this.getInstance().revokeQRSession(token);
+  }
+
+  /**
+   * Get QR sessions issued by this device that can still link a device
+   */
+  public static getActiveQRSessions(): QRSession[] {
+    return this.getInstance().getActiveQRSessions();
+  }
+
+  /**
+   * Process QR code data from an already trusted device. New devices are linked with `joinPairing`.
+   * The issuer is not consulted, so only a code already used on this device is refused.
+   * Throws QRCodeError when the code is rejected
+   */
+  public static processQRCodeData(qrData: string): Promise<TrustedDevice> {
+    return this.getInstance().processQRCodeData(qrData);
+  }
+
+  /**
+   * Start a two-way pairing on this (primary) device
+   */
+  public static hostPairing(options?: HostPairingOptions): Promise<PairingHostSession> {
+    return this.getInstance().hostPairing(options);
+  }
+
+  /**
+   * Answer a pairing QR code scanned from the primary device
+   */
+  public static joinPairing(qrData: string, options?: PairingOptions): Promise<PairingGuestSession> {
+    return this.getInstance().joinPairing(qrData, options);
+  }
+
   /**
    * Get list of trusted devices
    */
   public static getTrustedDevices(): TrustedDevice[] {
-    return TrustedDeviceManager.getTrustedDevices();
+    return this.getInstance().getTrustedDevices();
   }
-  
+
   /**
    * Remove trusted device
    */
   public static removeTrustedDevice(deviceId: string): boolean {
-    return TrustedDeviceManager.removeTrustedDevice(deviceId);
+    return this.getInstance().removeTrustedDevice(deviceId);
+  }
+
+  /**
+   * Verify transaction security. Pass `biometricUnavailable` when a biometric could not be
+   * captured, e.g. camera access was denied, to be asked for a fallback factor instead
+   */
+  public static verifyTransaction(transaction: Transaction, options?: VerifyTransactionOptions): TransactionVerificationResult {
+    return this.getInstance().verifyTransaction(transaction, options);
+  }
+
+  /**
+   * Start recording how a payment is entered. Observe the form's inputs and attach
+   * `summarize()` to the transaction as `behavior` when it is submitted
+   */
+  public static createBehaviorRecorder(): BehaviorRecorder {
+    return this.getInstance().createBehaviorRecorder();
+  }
+
+  /**
+   * Forget the account holder's learned typing and pointer behaviour
+   */
+  public static resetBehaviorBaseline(): void {
+    this.getInstance().resetBehaviorBaseline();
+  }
+
+  /**
+   * Transactions checked on this device within the ledger retention period, oldest first
+   */
+  public static getTransactionHistory(): LedgerEntry[] {
+    return this.getInstance().getTransactionHistory();
+  }
+
+  /**
+   * Add a recipient to this account's payees. It stays in its cooling-off period for `payeeCoolingOffMs`
+   */
+  public static addTrustedPayee(name: string): Payee {
+    return this.getInstance().addTrustedPayee(name);
+  }
+
+  /**
+   * Remove a recipient from this account's payees
+   */
+  public static removeTrustedPayee(name: string): boolean {
+    return this.getInstance().removeTrustedPayee(name);
+  }
+
+  /**
+   * Recipients this account has added or paid
+   */
+  public static getPayees(): Payee[] {
+    return this.getInstance().getPayees();
+  }
+
+  /**
+   * Whether a recipient is new, cooling off or established for this account
+   */
+  public static getPayeeStatus(name: string): PayeeStatus {
+    return this.getInstance().getPayeeStatus(name);
+  }
+
+  /**
+   * Whether an amount needs call verification as a high-value transaction
+   */
+  public static isHighValueTransaction(amount: Money): boolean {
+    return this.getInstance().isHighValueTransaction(amount);
   }
-  
+
+  /**
+   * The smallest amount in `currency` that counts as high value, or null when no rate is known
+   */
+  public static getHighValueThreshold(currency: string): Money | null {
+    return this.getInstance().getHighValueThreshold(currency);
+  }
+
+  /**
+   * Risk rules applied by verifyTransaction, in evaluation order
+   */
+  public static getRiskRules(): RiskRule[] {
+    return this.getInstance().getRiskRules();
+  }
+
   /**
-   * Verify transaction security
+   * Issue a verification code for a high-value transaction and send it over `channel`
+   * with the configured providers, to the phone number registered with the current device.
+   * Throws VerificationCodeError while locked out or when requested again too soon, and
+   * VerificationDeliveryError when it cannot be sent or the device has no phone number
    */
-  public static verifyTransaction(transaction: Transaction): TransactionVerificationResult {
-    return TrustedDeviceManager.verifyTransaction(transaction);
+  public static sendVerificationCode(transaction: Transaction, options: SendVerificationCodeOptions): Promise<SentVerificationCode> {
+    return this.getInstance().sendVerificationCode(transaction, options);
   }
-  
+
   /**
-   * Generate verification code for high-value transactions
+   * Channels the configured verification providers can deliver over
    */
-  public static generateVerificationCode(): string {
-    return TrustedDeviceManager.generateVerificationCode();
+  public static getVerificationChannels(): VerificationChannel[] {
+    return this.getInstance().getVerificationChannels();
   }
-  
+
   /**
-   * Verify code entered by user
+   * Generate a single-use verification code for a high-value transaction, for callers
+   * that deliver it themselves. Throws VerificationCodeError while locked out or when
+   * requested again too soon
    */
-  public static verifyCode(code: string): boolean {
-    return TrustedDeviceManager.verifyCode(code);
+  public static generateVerificationCode(transaction: Transaction): Promise<IssuedVerificationCode> {
+    return this.getInstance().generateVerificationCode(transaction);
   }
-  
+
   /**
-   * Register biometric for the current device
+   * Verify a code entered by the user for the transaction it was issued for.
+   * Once the transaction has no step-ups left, a valid code also re-verifies a device whose signals have changed.
+   * A valid code also proves the user for isReverificationRequired
    */
-  public static registerBiometric(biometricData: string, type: BiometricType): boolean {
-    console.log(`[SecurePaySDK] Registering biometric: ${type}`);
-    return TrustedDeviceManager.registerBiometric(biometricData, type);
+  public static verifyCode(code: string, transaction: Transaction): Promise<VerificationCodeResult> {
+    return this.getInstance().verifyCode(code, transaction);
   }
-  
+
+  /**
+   * Discard the outstanding verification code
+   */
+  public static cancelVerificationCode(): void {
+    this.getInstance().cancelVerificationCode();
+  }
+
+  /**
+   * Start adding an authenticator app. Show `uri` as a QR code, then confirm with a code from the app
+   */
+  public static beginTotpEnrollment(accountName?: string): TotpSetup {
+    return this.getInstance().beginTotpEnrollment(accountName);
+  }
+
+  /**
+   * Finish adding an authenticator app with the code it currently shows.
+   * Throws ReverificationRequiredError unless the user proved a factor lately (see isReverificationRequired),
+   * and VerificationCodeError while authenticator codes are locked out
+   */
+  public static confirmTotpEnrollment(code: string): Promise<boolean> {
+    return this.getInstance().confirmTotpEnrollment(code);
+  }
+
+  /**
+   * Whether an authenticator app is enrolled
+   */
+  public static isTotpEnrolled(): boolean {
+    return this.getInstance().isTotpEnrolled();
+  }
+
+  /**
+   * Remove the authenticator app; high-value transactions fall back to call verification.
+   * Throws ReverificationRequiredError unless the user proved a factor lately (see isReverificationRequired)
+   */
+  public static removeTotpEnrollment(): void {
+    this.getInstance().removeTotpEnrollment();
+  }
+
+  /**
+   * Verify a code from the authenticator app. With `transaction`, a valid code completes its step-up
+   */
+  public static verifyTotp(code: string, transaction?: Transaction): Promise<TotpVerificationResult> {
+    return this.getInstance().verifyTotp(code, transaction);
+  }
+
+  /**
+   * Enroll a face or drawn fingerprint gesture on the current device, alongside any already enrolled.
+   * Throws BiometricError when the device is not registered or the capture cannot be enrolled, and
+   * ReverificationRequiredError when others are enrolled and isReverificationRequired
+   */
+  public static addBiometric(enrollment: BiometricEnrollment, options?: BiometricEnrollmentOptions): BiometricCredential {
+    return this.getInstance().addBiometric(enrollment, options);
+  }
+
+  /**
+   * Biometrics enrolled on the current device, oldest first
+   */
+  public static getBiometrics(): BiometricCredential[] {
+    return this.getInstance().getBiometrics();
+  }
+
   /**
-   * Get biometric type for current device
+   * Give an enrollment a new label. Throws BiometricError when it does not exist
+   */
+  public static renameBiometric(id: string, label: string): BiometricCredential {
+    return this.getInstance().renameBiometric(id, label);
+  }
+
+  /**
+   * Remove one enrollment from the current device; the others stay usable.
+   * Throws ReverificationRequiredError when isReverificationRequired
+   */
+  public static revokeBiometric(id: string): boolean {
+    return this.getInstance().revokeBiometric(id);
+  }
+
+  /**
+   * How many drawings of the fingerprint gesture enrollment needs
+   */
+  public static getGestureEnrollmentSamples(): number {
+    return this.getInstance().getGestureEnrollmentSamples();
+  }
+
+  /**
+   * Biometric to ask for when verifying on this device: the kind used most recently, or null when none is enrolled
    */
   public static getBiometricType(): BiometricType | null {
-    const device = TrustedDeviceManager.getCurrentDevice();
-    console.log(`[SecurePaySDK] Getting biometric type: ${device?.biometricType || 'null'}`);
-    return device?.biometricType || null;
+    return this.getInstance().getBiometricType();
+  }
+
+  /**
+   * Compare a captured biometric against those enrolled on this device
+   */
+  public static verifyBiometric(sample: BiometricSample): BiometricMatchResult {
+    return this.getInstance().verifyBiometric(sample);
+  }
+
+  /**
+   * Start a face liveness check: show each prompt in turn and record frames while it is on screen
+   */
+  public static createLivenessChallenge(): LivenessChallenge {
+    return this.getInstance().createLivenessChallenge();
+  }
+
+  /**
+   * Check frames recorded for a liveness challenge, e.g. to give the user feedback.
+   * The capture stays usable for verifyTransactionWithBiometric until the challenge expires.
+   * Pass the frame the face will be matched on, which must open the capture.
+   * A still image, ignored prompts or a change of face count towards the biometric lockout
+   */
+  public static checkLiveness(capture: LivenessCapture, matchedFrame?: FaceFrame): LivenessResult {
+    return this.getInstance().checkLiveness(capture, matchedFrame);
+  }
+
+  /**
+   * Whether the user must prove a factor before changing the authenticator app or biometrics: a code sent to their
+   * phone for a transaction, a passkey, or a biometric matched with verifyBiometric or for a transaction
+   */
+  public static isReverificationRequired(): boolean {
+    return this.getInstance().isReverificationRequired();
+  }
+
+  /**
+   * Prove the user with the device's passkey, outside any transaction.
+   * Throws PasskeyError when no passkey can be used, e.g. the user cancels the prompt
+   */
+  public static reverifyWithPasskey(): Promise<boolean> {
+    return this.getInstance().reverifyWithPasskey();
+  }
+
+  /**
+   * Whether biometrics are locked on this device after failed attempts, and how many attempts are left
+   */
+  public static getBiometricLockout(): BiometricLockoutStatus {
+    return this.getInstance().getBiometricLockout();
   }
-  
+
   /**
-   * Get stored biometric data for current device
+   * Whether this browser has a platform authenticator that can hold a passkey
    */
-  public static getBiometricData(): string | null {
-    const device = TrustedDeviceManager.getCurrentDevice();
-    console.log(`[SecurePaySDK] Getting biometric data, exists: ${!!device?.biometricData}`);
-    return device?.biometricData || null;
+  public static isPasskeyAvailable(): Promise<boolean> {
+    return this.getInstance().isPasskeyAvailable();
   }
-  
+
   /**
-   * Verify biometric data for transaction
+   * Create a passkey for the current device and enroll it alongside the device's other biometrics.
+   * Throws PasskeyError when it cannot be created, and ReverificationRequiredError when other
+   * biometrics are enrolled and isReverificationRequired
    */
-  public static verifyBiometric(biometricData: string): boolean {
-    console.log(`[SecurePaySDK] Verifying biometric data`);
-    return TrustedDeviceManager.verifyBiometric(biometricData);
+  public static registerPasskey(options?: BiometricEnrollmentOptions): Promise<BiometricCredential> {
+    return this.getInstance().registerPasskey(options);
   }
-  
+
+  /**
+   * Verify a transaction with the device's passkey, over a challenge bound to the transaction.
+   * Throws PasskeyError when no passkey can be used, e.g. the user cancels the prompt
+   */
+  public static verifyTransactionWithPasskey(transaction: Transaction): Promise<TransactionVerificationResult> {
+    return this.getInstance().verifyTransactionWithPasskey(transaction);
+  }
+
   /**
    * Verify transaction with biometric
    */
-  public static verifyTransactionWithBiometric(transaction: Transaction, biometricData: string): TransactionVerificationResult {
-    return TrustedDeviceManager.verifyTransactionWithBiometric(transaction, biometricData);
+  public static verifyTransactionWithBiometric(transaction: Transaction, sample: BiometricSample): TransactionVerificationResult {
+    return this.getInstance().verifyTransactionWithBiometric(transaction, sample);
   }
 }
 
+export { SecurePayClient } from './SecurePayClient';
+export { SecurePayConfigError } from './SecurePayConfig';
+export { SecurePayError, QRCodeError, VerificationCodeError, VerificationDeliveryError, PasskeyError, BiometricError, ReverificationRequiredError } from './SecurePayError';
+export {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  IndexedDBStorageAdapter
+} from './StorageAdapter';
+export { IndexedDBKeyStore, MemoryKeyStore } from './KeyStore';
+export { PairingHostSession, PairingGuestSession } from './PairingManager';
+export { InMemoryPairingTransport, BroadcastChannelPairingTransport } from './PairingTransport';
+export { RiskRulesEngine, createDefaultRiskRules, parseRiskRules } from './RiskRulesEngine';
+export { StaticExchangeRateProvider, DEFAULT_EXCHANGE_RATES } from './ExchangeRateProvider';
+export { Money, MoneyError, ISO_4217_EXPONENTS, getCurrencyExponent } from './Money';
+export { generateTotp } from './TotpManager';
+export { MockVerificationChannelProvider, VERIFICATION_CHANNELS } from './VerificationChannelProvider';
+export { DEFAULT_VERIFICATION_TEMPLATES, renderVerificationMessage } from './VerificationTemplates';
+export { BrowserPasskeyAuthenticator, SoftwarePasskeyAuthenticator } from './PasskeyAuthenticator';
+export { FaceMatcher } from './FaceMatcher';
+export { GestureMatcher } from './GestureMatcher';
+export { LivenessDetector, LIVENESS_PROMPTS } from './LivenessDetector';
+export { BiometricLockout, BIOMETRIC_FALLBACK_FACTORS } from './BiometricLockout';
+export { BehaviorRecorder } from './BehaviorRecorder';
+export { BehaviorBaseline } from './BehaviorBaseline';
+export { collectDeviceSignals, compareDeviceSignals, classifyDeviceDrift } from './DeviceSignals';
+export { EnvironmentIntegrity } from './EnvironmentIntegrity';
+export { detectDeviceDetails, parseUserAgent } from './DeviceDetails';
+
 // Re-export types for easier consumption
-export type { 
-  DeviceInfo, 
+export type {
+  SecurePayConfig,
+  Logger,
+  Clock,
+  StorageAdapter,
+  KeyStore,
+  DeviceInfo,
+  DeviceDetails,
+  DeviceType,
+  DeviceSignals,
+  DeviceSignalName,
+  DeviceSimilarity,
+  DeviceDrift,
+  DeviceDriftReport,
+  EnvironmentRiskReport,
+  EnvironmentCheckResult,
+  EnvironmentCheckId,
+  EnvironmentCheckCategory,
   QRCodeData,
+  GenerateQRCodeOptions,
+  IssuedQRCode,
+  QRSession,
+  DevicePublicKeys,
+  HostPairingOptions,
+  PairingOptions,
+  PairingSnapshot,
+  PairingState,
+  PairingTransport,
   TrustedDevice,
   Transaction,
   TransactionVerificationResult,
-  BiometricType
+  VerifyTransactionOptions,
+  BiometricType,
+  BiometricSample,
+  BiometricEnrollment,
+  BiometricEnrollmentOptions,
+  BiometricCredential,
+  BiometricErrorReason,
+  BiometricMatchResult,
+  BiometricMatchReason,
+  FaceFrame,
+  FaceTemplate,
+  GesturePoint,
+  GestureStroke,
+  GestureTemplate,
+  LivenessChallenge,
+  LivenessCapture,
+  LivenessPrompt,
+  LivenessReason,
+  LivenessResult,
+  LivenessState,
+  VerifiedBiometric,
+  BiometricFallback,
+  BiometricFallbackFactor,
+  BiometricFallbackReason,
+  BiometricLockoutStatus,
+  BehaviorEvent,
+  BehaviorFeatures,
+  BehaviorAssessment,
+  BehaviorSignal,
+  BehaviorSignalType,
+  QRCodeErrorReason,
+  RiskRule,
+  RiskCondition,
+  VelocityCondition,
+  RiskContext,
+  RiskAction,
+  RiskLevel,
+  FiredRule,
+  ExchangeRateProvider,
+  MoneyJSON,
+  LedgerEntry,
+  VelocityScope,
+  Payee,
+  PayeeStatus,
+  TotpSetup,
+  TotpVerificationResult,
+  TotpFailureReason,
+  IssuedVerificationCode,
+  VerificationCodeResult,
+  VerificationCodeFailureReason,
+  VerificationCodeErrorReason,
+  SendVerificationCodeOptions,
+  SentVerificationCode,
+  VerificationChannel,
+  VerificationChannelProvider,
+  VerificationMessage,
+  OutboundVerificationMessage,
+  VerificationTemplate,
+  VerificationTemplates,
+  VerificationDeliveryErrorReason,
+  PasskeyAuthenticator,
+  PasskeyCredential,
+  PasskeyFailureReason,
+  PasskeyErrorReason
 };
 
 // Export a default instance
@@ -0,0 +1,207 @@
+/**
+ * StorageAdapter.ts
+ * Pluggable key/value storage used by the SDK to persist its state
+ */
+import { Logger } from './SecurePayConfig';
+
+/**
+ * Synchronous key/value store used by every SDK manager.
+ * Adapters backed by asynchronous stores (IndexedDB, remote storage, ...)
+ * keep an in-memory copy and implement `load()` to hydrate it before use.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /**
+   * Hydrate the adapter from its backing store. Called once when an SDK instance is initialized,
+   * with the instance's logger for problems reported after loading
+   */
+  load?(logger?: Logger): Promise<void>;
+}
+
+/**
+ * Stores SDK state in window.localStorage (the historical default)
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  public getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  public removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Keeps SDK state in memory only. Useful for Node, tests and workers
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly items = new Map<string, string>();
+
+  constructor(initialItems: Record<string, string> = {}) {
+    Object.entries(initialItems).forEach(([key, value]) => this.items.set(key, value));
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Persists SDK state in an IndexedDB object store.
+ * Reads are served from an in-memory cache populated by `load()`,
+ * writes update the cache immediately and are flushed to IndexedDB in order.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private readonly cache = new Map<string, string>();
+  private db: IDBDatabase | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private logger: Logger = console;
+
+  constructor(
+    private readonly databaseName: string = 'securepay_sdk',
+    private readonly storeName: string = 'state'
+  ) {}
+
+  public async load(logger?: Logger): Promise<void> {
+    if (logger) {
+      this.logger = logger;
+    }
+    this.db = await this.openDatabase();
+
+    const entries = await new Promise<Array<[string, string]>>((resolve, reject) => {
+      const request = this.db!.transaction(this.storeName, 'readonly').objectStore(this.storeName).openCursor();
+      const result: Array<[string, string]> = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          result.push([String(cursor.key), cursor.value]);
+          cursor.continue();
+        } else {
+          resolve(result);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    this.cache.clear();
+    entries.forEach(([key, value]) => this.cache.set(key, value));
+  }
+
+  public getItem(key: string): string | null {
+    return this.cache.has(key) ? this.cache.get(key)! : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.enqueueWrite(store => store.put(value, key));
+  }
+
+  public removeItem(key: string): void {
+    this.cache.delete(key);
+    this.enqueueWrite(store => store.delete(key));
+  }
+
+  /**
+   * Resolve once every write issued so far has reached IndexedDB
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  private enqueueWrite(operation: (store: IDBObjectStore) => IDBRequest): void {
+    this.pendingWrite = this.pendingWrite.then(() => {
+      if (!this.db) {
+        this.logger.error("IndexedDBStorageAdapter used before load(); write kept in memory only");
+        return;
+      }
+
+      // Always settles, so one failed write cannot stall the writes queued after it
+      return new Promise<void>((resolve) => {
+        const fail = (error: unknown) => {
+          this.logger.error("Failed to persist SDK state to IndexedDB:", error);
+          resolve();
+        };
+        try {
+          const tx = this.db!.transaction(this.storeName, 'readwrite');
+          tx.oncomplete = () => resolve();
+          // A transaction can abort without a failed request, e.g. QuotaExceededError on commit
+          tx.onabort = () => fail(tx.error);
+          operation(tx.objectStore(this.storeName));
+        } catch (error) {
+          fail(error);
+        }
+      });
+    });
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Prefixes every key of an underlying adapter so several SDK instances
+ * (tenants, accounts) can share one store without clobbering each other
+ */
+export class NamespacedStorageAdapter implements StorageAdapter {
+  constructor(
+    private readonly inner: StorageAdapter,
+    private readonly namespace: string
+  ) {}
+
+  public getItem(key: string): string | null {
+    return this.inner.getItem(this.prefixed(key));
+  }
+
+  public setItem(key: string, value: string): void {
+    this.inner.setItem(this.prefixed(key), value);
+  }
+
+  public removeItem(key: string): void {
+    this.inner.removeItem(this.prefixed(key));
+  }
+
+  public async load(logger?: Logger): Promise<void> {
+    if (this.inner.load) {
+      await this.inner.load(logger);
+    }
+  }
+
+  private prefixed(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
+
+/**
+ * Pick the best storage available in the current runtime
+ */
+export function createDefaultStorage(): StorageAdapter {
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageAdapter();
+  }
+  return new MemoryStorageAdapter();
+}
@@ -0,0 +1,285 @@
+/**
+ * TotpManager.ts
+ * RFC 6238 time-based one-time passwords from an authenticator app
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+import { base32ToBytes, bytesToBase32 } from './CryptoUtils';
+import { VerificationCodeError } from './SecurePayError';
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// 160 bits, the secret length RFC 4226 recommends
+const SECRET_BYTES = 20;
+
+export interface TotpManagerOptions {
+  issuer: string;
+  /**
+   * Time steps accepted either side of the current one, to allow for clock drift
+   */
+  driftSteps: number;
+  /**
+   * Wrong codes allowed before verification locks out
+   */
+  maxAttempts: number;
+  lockoutMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+/**
+ * What the user needs to add the account to an authenticator app
+ */
+export interface TotpSetup {
+  /**
+   * Base32 secret, for manual entry
+   */
+  secret: string;
+  /**
+   * otpauth:// URI, for rendering as a QR code
+   */
+  uri: string;
+}
+
+/**
+ * not_enrolled: no authenticator app has been confirmed
+ * incorrect: the code is wrong or already used; `attemptsRemaining` says how many tries are left
+ * locked_out: too many wrong codes; `retryAfterMs` says when codes are accepted again
+ */
+export type TotpFailureReason = 'not_enrolled' | 'incorrect' | 'locked_out';
+
+export interface TotpVerificationResult {
+  valid: boolean;
+  reason?: TotpFailureReason;
+  attemptsRemaining?: number;
+  retryAfterMs?: number;
+}
+
+interface TotpEnrollment {
+  secret: string;
+  accountName: string;
+  createdAt: string;
+  /**
+   * Last time step a code was accepted for; codes cannot be reused
+   */
+  lastUsedStep?: number;
+}
+
+/**
+ * HOTP value (RFC 4226) of `secret` for `counter`
+ */
+export async function generateHotp(secret: Uint8Array, counter: number, digits: number = TOTP_DIGITS): Promise<string> {
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setBigUint64(0, BigInt(counter));
+
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = new DataView(hmac.buffer).getUint32(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * TOTP value (RFC 6238) of a base32 `secret` at `timeMs`
+ */
+export function generateTotp(secret: string, timeMs: number): Promise<string> {
+  return generateHotp(base32ToBytes(secret), Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS));
+}
+
+export class TotpManager {
+  private static readonly ENROLLMENT_KEY = 'totp_enrollment';
+
+  /**
+   * Storage keys holding the shared TOTP secret; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [TotpManager.ENROLLMENT_KEY];
+
+  // Codes are checked one at a time, so parallel guesses cannot share an attempt count or reuse a code
+  private verification: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: TotpManagerOptions
+  ) {}
+
+  /**
+   * Create a new secret. It only protects transactions once confirmed with a code
+   * from the authenticator app; until then any existing enrollment stays active.
+   */
+  public beginEnrollment(accountName: string): TotpSetup {
+    const secret = bytesToBase32(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+
+    // Keep a confirmed enrollment, and any lockout on it, while the replacement is set up
+    this.saveStored({
+      ...this.readStored(),
+      pending: {
+        secret,
+        accountName,
+        createdAt: new Date(this.options.clock.now()).toISOString(),
+      },
+    });
+
+    return { secret, uri: this.buildUri(secret, accountName) };
+  }
+
+  /**
+   * Activate the pending secret if `code` matches it. Throws VerificationCodeError while
+   * verification is locked out, so a new secret cannot be used to get around the lockout
+   */
+  public async confirmEnrollment(code: string): Promise<boolean> {
+    const stored = this.readStored();
+    if (!stored.pending) {
+      this.options.logger.error("No authenticator enrollment in progress");
+      return false;
+    }
+
+    const lockedFor = this.lockedFor(stored);
+    if (lockedFor > 0) {
+      throw new VerificationCodeError('locked_out', "Too many incorrect codes. Try again later", lockedFor);
+    }
+
+    const step = await this.matchStep(stored.pending, code);
+    if (step === null) {
+      return false;
+    }
+
+    this.saveStored({ ...stored, confirmed: { ...stored.pending, lastUsedStep: step }, pending: null });
+    this.options.logger.info("Authenticator app enrolled");
+    return true;
+  }
+
+  /**
+   * Whether a confirmed authenticator app can be asked for codes
+   */
+  public isEnrolled(): boolean {
+    return !!this.getEnrollment();
+  }
+
+  /**
+   * Forget the authenticator app. Wrong codes and any lockout are kept for when one is added again
+   */
+  public removeEnrollment(): void {
+    const { failedAttempts, lockedUntil } = this.readStored();
+    this.saveStored({ confirmed: null, pending: null, failedAttempts, lockedUntil });
+  }
+
+  /**
+   * Check a code from the enrolled authenticator app. Each code is accepted once;
+   * wrong codes count towards a lockout
+   */
+  public verify(code: string): Promise<TotpVerificationResult> {
+    const result = this.verification.then(() => this.checkCode(code));
+    this.verification = result.catch(() => undefined);
+    return result;
+  }
+
+  private async checkCode(code: string): Promise<TotpVerificationResult> {
+    const { clock, maxAttempts, lockoutMs, logger } = this.options;
+    const stored = this.readStored();
+    if (!stored.confirmed) {
+      logger.error("Cannot verify authenticator code: no authenticator enrolled");
+      return { valid: false, reason: 'not_enrolled' };
+    }
+
+    const lockedFor = this.lockedFor(stored);
+    if (lockedFor > 0) {
+      return { valid: false, reason: 'locked_out', retryAfterMs: lockedFor };
+    }
+
+    const step = await this.matchStep(stored.confirmed, code);
+    if (step !== null) {
+      this.saveStored({ confirmed: { ...stored.confirmed, lastUsedStep: step }, pending: stored.pending });
+      return { valid: true };
+    }
+
+    const failedAttempts = (stored.failedAttempts || 0) + 1;
+    if (failedAttempts >= maxAttempts) {
+      logger.warn("Authenticator verification locked out after too many incorrect codes");
+      this.saveStored({
+        confirmed: stored.confirmed,
+        pending: stored.pending,
+        lockedUntil: new Date(clock.now() + lockoutMs).toISOString(),
+      });
+      return { valid: false, reason: 'locked_out', retryAfterMs: lockoutMs };
+    }
+
+    this.saveStored({ ...stored, failedAttempts });
+    return { valid: false, reason: 'incorrect', attemptsRemaining: maxAttempts - failedAttempts };
+  }
+
+  private lockedFor(stored: StoredTotp): number {
+    if (!stored.lockedUntil) {
+      return 0;
+    }
+    return Math.max(0, new Date(stored.lockedUntil).getTime() - this.options.clock.now());
+  }
+
+  private getEnrollment(): TotpEnrollment | null {
+    return this.readStored().confirmed;
+  }
+
+  /**
+   * The time step `code` is valid for within the drift window, or null
+   */
+  private async matchStep(enrollment: TotpEnrollment, code: string): Promise<number | null> {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const secret = base32ToBytes(enrollment.secret);
+    const currentStep = Math.floor(this.options.clock.now() / 1000 / TOTP_PERIOD_SECONDS);
+    for (let drift = -this.options.driftSteps; drift <= this.options.driftSteps; drift++) {
+      const step = currentStep + drift;
+      if (enrollment.lastUsedStep !== undefined && step <= enrollment.lastUsedStep) {
+        continue;
+      }
+      if (await generateHotp(secret, step) === code) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  private buildUri(secret: string, accountName: string): string {
+    const { issuer } = this.options;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private readStored(): StoredTotp {
+    const stored = this.storage.getItem(TotpManager.ENROLLMENT_KEY);
+    if (!stored) {
+      return { confirmed: null, pending: null };
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.options.logger.error("Failed to parse authenticator enrollment:", error);
+      return { confirmed: null, pending: null };
+    }
+  }
+
+  private saveStored(stored: StoredTotp): void {
+    this.storage.setItem(TotpManager.ENROLLMENT_KEY, JSON.stringify(stored));
+  }
+}
+
+interface StoredTotp {
+  confirmed: TotpEnrollment | null;
+  pending: TotpEnrollment | null;
+  /**
+   * Wrong codes entered since the last success or lockout
+   */
+  failedAttempts?: number;
+  lockedUntil?: string;
+}
@@ -0,0 +1,140 @@
+/**
+ * TransactionLedger.ts
+ * Persisted history of checked transactions, used for velocity checks
+ */
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+import { Money, MoneyJSON } from './Money';
+import { RiskAction } from './RiskRulesEngine';
+import { PayeeRegistry } from './PayeeRegistry';
+
+export type VelocityScope = 'device' | 'recipient';
+
+export interface LedgerEntry {
+  transactionId: string;
+  amount: MoneyJSON;
+  /**
+   * The amount in the base currency; null when no exchange rate was known
+   */
+  baseAmount: MoneyJSON | null;
+  /**
+   * The recipient as entered
+   */
+  recipient: string;
+  /**
+   * The recipient normalized as by PayeeRegistry, so spellings of one payee share their velocity
+   */
+  payeeId: string;
+  deviceId: string;
+  /**
+   * When the transaction was checked
+   */
+  checkedAt: string;
+  action: RiskAction;
+}
+
+export interface VelocityStats {
+  count: number;
+  /**
+   * Sum of the base-currency amounts in the window
+   */
+  total: Money;
+  /**
+   * Transactions in the window whose amount could not be converted and is missing from `total`
+   */
+  unconverted: number;
+}
+
+export interface TransactionLedgerOptions {
+  baseCurrency: string;
+  /**
+   * How long entries are kept. Velocity windows longer than this see a partial history
+   */
+  retentionMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+// Upper bound on stored entries so a scripted attack cannot grow storage without limit
+const MAX_ENTRIES = 1000;
+
+export class TransactionLedger {
+  private static readonly LEDGER_KEY = 'transaction_ledger';
+
+  /**
+   * Storage keys holding payment history; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [TransactionLedger.LEDGER_KEY];
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly options: TransactionLedgerOptions
+  ) {}
+
+  /**
+   * Record the outcome of a transaction check. Checking the same transaction
+   * again (e.g. after a biometric step-up) replaces its entry.
+   */
+  public record(entry: LedgerEntry): void {
+    const entries = this.getEntries().filter(e => e.transactionId !== entry.transactionId);
+    entries.push(entry);
+    this.saveEntries(entries);
+  }
+
+  /**
+   * Transactions checked within the retention period, oldest first
+   */
+  public getEntries(): LedgerEntry[] {
+    const stored = this.storage.getItem(TransactionLedger.LEDGER_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      this.options.logger.error("Failed to parse transaction ledger:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Count and total of transactions sharing `key` (a device ID or payee ID) over the
+   * last `windowMs`, optionally leaving out one transaction
+   */
+  public getVelocity(scope: VelocityScope, key: string, windowMs: number, excludeTransactionId?: string): VelocityStats {
+    const since = this.options.clock.now() - windowMs;
+    const matching = this.getEntries().filter(entry =>
+      entry.transactionId !== excludeTransactionId
+      // Entries recorded before payee IDs were kept are normalized here
+      && (scope === 'device' ? entry.deviceId : entry.payeeId ?? PayeeRegistry.normalize(entry.recipient)) === key
+      && new Date(entry.checkedAt).getTime() > since
+    );
+
+    // Entries without a rate, or recorded under another base currency, cannot be added up
+    const converted = matching.filter(entry => entry.baseAmount?.currency === this.options.baseCurrency);
+    return {
+      count: matching.length,
+      total: converted.reduce(
+        (sum, entry) => sum.add(Money.fromJSON(entry.baseAmount!)),
+        Money.zero(this.options.baseCurrency)
+      ),
+      unconverted: matching.length - converted.length,
+    };
+  }
+
+  /**
+   * Forget every recorded transaction
+   */
+  public clear(): void {
+    this.storage.removeItem(TransactionLedger.LEDGER_KEY);
+  }
+
+  private saveEntries(entries: LedgerEntry[]): void {
+    const cutoff = this.options.clock.now() - this.options.retentionMs;
+    const retained = entries
+      .filter(entry => new Date(entry.checkedAt).getTime() > cutoff)
+      .slice(-MAX_ENTRIES);
+    this.storage.setItem(TransactionLedger.LEDGER_KEY, JSON.stringify(retained));
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * TransactionThresholds.ts
+ * Decides which transactions count as high value in any currency
+ */
+import { ExchangeRateProvider } from './ExchangeRateProvider';
+import { Logger } from './SecurePayConfig';
+import { Money, Ratio, toRatio } from './Money';
+
+export interface TransactionThresholdsOptions {
+  baseCurrency: string;
+  /**
+   * High-value threshold expressed in the base currency, in major units
+   */
+  highValueThreshold: number;
+  /**
+   * Thresholds for specific currencies, in that currency's major units. These win over conversion
+   */
+  highValueThresholds: Record<string, number>;
+  exchangeRates: ExchangeRateProvider;
+  logger: Logger;
+}
+
+/**
+ * All comparisons are exact: amounts stay in integer minor units and exchange
+ * rates are applied as fractions, so no amount lands on the wrong side of a
+ * threshold through floating point rounding.
+ */
+export class TransactionThresholds {
+  private readonly threshold: Money;
+  private readonly overrides: Map<string, Money>;
+
+  constructor(private readonly options: TransactionThresholdsOptions) {
+    this.threshold = Money.parse(options.highValueThreshold, options.baseCurrency);
+    this.overrides = new Map(
+      Object.entries(options.highValueThresholds).map(([currency, amount]) => [currency, Money.parse(amount, currency)])
+    );
+  }
+
+  public getBaseCurrency(): string {
+    return this.options.baseCurrency;
+  }
+
+  /**
+   * Convert an amount into the base currency, rounded half away from zero to
+   * the nearest minor unit, or null when no rate is known
+   */
+  public toBaseCurrency(amount: Money): Money | null {
+    const converted = this.convertToBaseMinorUnits(amount);
+    if (!converted) {
+      return null;
+    }
+
+    const { numerator, denominator } = converted;
+    const magnitude = (2n * (numerator < 0n ? -numerator : numerator) + denominator) / (2n * denominator);
+    return Money.of(Number(numerator < 0n ? -magnitude : magnitude), this.options.baseCurrency);
+  }
+
+  /**
+   * The smallest amount in `currency` that counts as high value, or null when it cannot be determined
+   */
+  public getHighValueThreshold(currency: string): Money | null {
+    const override = this.overrides.get(currency);
+    if (override) {
+      return override;
+    }
+
+    const probe = this.convertToBaseMinorUnits(Money.of(1, currency));
+    if (!probe) {
+      return null;
+    }
+
+    // One minor unit of `currency` is worth probe base minor units; round the threshold up
+    const required = BigInt(this.threshold.minorUnits) * probe.denominator;
+    return Money.of(Number((required + probe.numerator - 1n) / probe.numerator), currency);
+  }
+
+  /**
+   * Whether the amount is at or above the high-value threshold for its currency.
+   * Amounts in a currency with neither a threshold nor a rate are treated as high value.
+   */
+  public isHighValue(amount: Money): boolean {
+    const override = this.overrides.get(amount.currency);
+    if (override) {
+      return amount.compare(override) >= 0;
+    }
+
+    const converted = this.convertToBaseMinorUnits(amount);
+    if (!converted) {
+      this.options.logger.warn(`No exchange rate for ${amount.currency}; treating transaction as high value`);
+      return true;
+    }
+    return converted.numerator >= BigInt(this.threshold.minorUnits) * converted.denominator;
+  }
+
+  /**
+   * The exact value of `amount` in base-currency minor units, as a fraction
+   */
+  private convertToBaseMinorUnits(amount: Money): Ratio | null {
+    const rate = this.getRate(amount.currency);
+    if (!rate) {
+      return null;
+    }
+
+    const baseExponent = Money.zero(this.options.baseCurrency).exponent;
+    return {
+      numerator: BigInt(amount.minorUnits) * rate.numerator * 10n ** BigInt(baseExponent),
+      denominator: rate.denominator * 10n ** BigInt(amount.exponent),
+    };
+  }
+
+  /**
+   * Value of one unit of `currency` in the base currency. Rates are looked up per unit of the
+   * base currency, the way they are usually quoted, and inverted exactly
+   */
+  private getRate(currency: string): Ratio | null {
+    if (currency === this.options.baseCurrency) {
+      return { numerator: 1n, denominator: 1n };
+    }
+
+    const rate = this.options.exchangeRates.getRate(this.options.baseCurrency, currency);
+    if (rate === null || !Number.isFinite(rate) || rate <= 0) {
+      return null;
+    }
+    const { numerator, denominator } = toRatio(rate);
+    return { numerator: denominator, denominator: numerator };
+  }
+}
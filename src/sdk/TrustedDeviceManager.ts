@@ -3,35 +3,161 @@
  * Manages the list of trusted devices and verifies transactions
  */
 import { DeviceFingerprint, DeviceInfo } from './DeviceFingerprint';
-import { QRCodeData } from './QRCodeManager';
+import { QRCodeData, SignedQRCodeData } from './QRCodeManager';
+import { DeviceKeyManager, DevicePublicKeys } from './DeviceKeyManager';
+import { BiometricError, PasskeyError, QRCodeError, ReverificationRequiredError } from './SecurePayError';
+import { StorageAdapter } from './StorageAdapter';
+import { Clock, Logger } from './SecurePayConfig';
+import { BiometricState, FiredRule, LivenessState, RiskAction, RiskContext, RiskRulesEngine, StepUpMethod, VerifiedBiometric } from './RiskRulesEngine';
+import { TransactionThresholds } from './TransactionThresholds';
+import { Money } from './Money';
+import { TransactionLedger, VelocityScope, VelocityStats } from './TransactionLedger';
+import { PayeeRegistry } from './PayeeRegistry';
+import { TotpManager } from './TotpManager';
+import { PasskeyAssertionResult, PasskeyCredential, PasskeyManager } from './PasskeyManager';
+import { BiometricMatchResult, FaceFrame, FaceMatcher, FaceTemplate } from './FaceMatcher';
+import { GestureMatcher, GestureStroke, GestureTemplate } from './GestureMatcher';
+import { LivenessCapture, LivenessDetector, LivenessResult } from './LivenessDetector';
+import { BiometricFallbackFactor, BiometricFallbackReason, BiometricLockout, BiometricLockoutStatus } from './BiometricLockout';
+import { BehaviorFeatures } from './BehaviorRecorder';
+import { BehaviorAssessment, BehaviorBaseline } from './BehaviorBaseline';
+import { DeviceDriftReport, classifyDeviceDrift, compareDeviceSignals } from './DeviceSignals';
+import { EnvironmentIntegrity, EnvironmentRiskReport } from './EnvironmentIntegrity';
+import { bytesToBase64Url } from './CryptoUtils';
 
-export type BiometricType = 'face' | 'fingerprint' | 'none';
+/**
+ * 'passkey' is a WebAuthn platform authenticator that verifies the user itself
+ */
+export type BiometricType = 'face' | 'fingerprint' | 'passkey' | 'none';
+
+/**
+ * A biometric captured for verification. The fingerprint modality is a drawn gesture.
+ * Faces should come with the frames recorded during a liveness challenge, the first of which is `frame`
+ */
+export type BiometricSample =
+  | { type: 'face'; frame: FaceFrame; liveness?: LivenessCapture }
+  | { type: 'fingerprint'; stroke: GestureStroke };
+
+/**
+ * What is captured to enroll a biometric: one face frame, or several drawings of the same gesture
+ */
+export type BiometricEnrollment =
+  | { type: 'face'; frame: FaceFrame }
+  | { type: 'fingerprint'; strokes: GestureStroke[] };
+
+export interface VerifyTransactionOptions {
+  /**
+   * Set when the app could not capture a biometric, e.g. because camera access was denied.
+   * The transaction is then routed to a fallback factor
+   */
+  biometricUnavailable?: Exclude<BiometricFallbackReason, 'locked_out'>;
+}
+
+export interface TrustedDeviceManagerOptions {
+  riskEngine: RiskRulesEngine;
+  thresholds: TransactionThresholds;
+  ledger: TransactionLedger;
+  payees: PayeeRegistry;
+  totp: TotpManager;
+  passkeys: PasskeyManager;
+  faceMatcher: FaceMatcher;
+  gestureMatcher: GestureMatcher;
+  liveness: LivenessDetector;
+  lockout: BiometricLockout;
+  /**
+   * Factors tried in order when biometrics are locked or cannot be captured
+   */
+  fallbackFactors: BiometricFallbackFactor[];
+  behavior: BehaviorBaseline;
+  environment: EnvironmentIntegrity;
+  /**
+   * Signal similarity from which a device without its stored ID is recognised
+   */
+  recognitionThreshold: number;
+  /**
+   * Similarity to the signals on record from which changes count as a benign update
+   */
+  driftBenignSimilarity: number;
+  /**
+   * Similarity below which the device loses its trust until registered again
+   */
+  driftUntrustSimilarity: number;
+  /**
+   * How long a proved factor allows the device's factors to be changed
+   */
+  reverificationWindowMs: number;
+  clock: Clock;
+  logger: Logger;
+}
+
+/**
+ * Step-ups completed by entering a code after the transaction was checked
+ */
+type CodeStepUp = Extract<StepUpMethod, 'call' | 'totp'>;
+
+/**
+ * A transaction whose device checks passed but that still awaits codes
+ */
+interface PendingApproval {
+  recipient: string;
+  remaining: CodeStepUp[];
+  /**
+   * Whether the device's changed signals go on record once the transaction is approved
+   */
+  acceptDrift: boolean;
+}
+
+// Matching signals needed to recognise a device, so a runtime exposing only a few (e.g. the timezone) is never enough
+const MIN_RECOGNITION_SIGNALS = 4;
+
+const BIOMETRIC_LABELS: Record<BiometricCredential['type'], string> = {
+  face: 'Face',
+  fingerprint: 'Fingerprint',
+  passkey: 'Passkey',
+};
 
 export class TrustedDeviceManager {
   private static readonly TRUSTED_DEVICES_KEY = 'trusted_devices';
   private static readonly CURRENT_DEVICE_KEY = 'current_device_registered';
-  private static readonly HIGH_VALUE_THRESHOLD = 10000; // Threshold for high-value transactions
-  private static readonly VERIFICATION_CODE_KEY = 'verification_code';
+  
+  /**
+   * Storage keys holding device records or biometric material; encrypted at rest
+   */
+  public static readonly SENSITIVE_STORAGE_KEYS = [
+    TrustedDeviceManager.TRUSTED_DEVICES_KEY,
+  ];
+  
+  private readonly pendingApprovals = new Map<string, PendingApproval>();
+  // When the user last proved a factor on this device; kept in memory, so a reload asks again
+  private reverifiedAt: number | null = null;
+  
+  constructor(
+    private readonly fingerprint: DeviceFingerprint,
+    private readonly deviceKeys: DeviceKeyManager,
+    private readonly storage: StorageAdapter,
+    private readonly options: TrustedDeviceManagerOptions
+  ) {}
   
   /**
    * Register the current device as trusted
    */
-  public static registerCurrentDevice(deviceName: string, phoneNumber?: string): TrustedDevice {
-    const deviceInfo = DeviceFingerprint.generateFingerprint();
+  public registerCurrentDevice(deviceName: string, phoneNumber?: string): TrustedDevice {
+    const deviceInfo = this.fingerprint.generateFingerprint();
     
     const trustedDevice: TrustedDevice = {
       ...deviceInfo,
       name: deviceName || deviceInfo.deviceName,
       isCurrentDevice: true,
-      lastVerified: new Date().toISOString(),
+      lastVerified: this.now(),
+      registeredAt: this.now(),
       phoneNumber: phoneNumber || '',
-      biometricType: 'none',
-      biometricData: null,
+      publicKeys: this.deviceKeys.getPublicKeys(),
+      biometrics: [],
       biometricVerified: false
     };
     
     // Save current device status
-    localStorage.setItem(this.CURRENT_DEVICE_KEY, 'true');
+    this.storage.setItem(TrustedDeviceManager.CURRENT_DEVICE_KEY, 'true');
     
     // Add to trusted devices
     this.addTrustedDevice(trustedDevice);
@@ -40,268 +166,496 @@ export class TrustedDeviceManager {
   }
   
   /**
-   * Register biometric for current device
+   * Biometrics enrolled on the current device, oldest first
    */
-  public static registerBiometric(biometricData: string, type: BiometricType): boolean {
-    console.log(`Registering biometric: ${type}, data length: ${biometricData.length}`);
-    
+  public getBiometrics(): BiometricCredential[] {
+    return this.getCurrentDevice()?.biometrics || [];
+  }
+  
+  /**
+   * Modality to ask for when verifying: that of the most recently used enrollment,
+   * or of the newest when none has been used yet. Null when nothing is enrolled
+   */
+  public getPreferredBiometricType(): BiometricType | null {
+    const lastActivity = (credential: BiometricCredential) => credential.lastUsedAt || credential.createdAt;
+    const preferred = this.getBiometrics().reduce<BiometricCredential | null>(
+      (latest, credential) => !latest || lastActivity(credential) >= lastActivity(latest) ? credential : latest,
+      null
+    );
+    return preferred?.type || null;
+  }
+  
+  /**
+   * Enroll a face or drawn fingerprint gesture on the current device, alongside those already enrolled.
+   * Throws BiometricError when the device is not registered or no template can be built from the capture,
+   * and ReverificationRequiredError when others are enrolled and the user has not proved a factor lately
+   */
+  public addBiometric(enrollment: BiometricEnrollment, options: BiometricEnrollmentOptions = {}): BiometricCredential {
     const currentDevice = this.getCurrentDevice();
     if (!currentDevice) {
-      console.error("Cannot register biometric: No current device found");
-      return false;
+      throw new BiometricError('not_registered', "Register this device before enrolling a biometric");
     }
+    this.assertBiometricsChangeable(currentDevice, 'adding a biometric');
     
-    currentDevice.biometricType = type;
-    currentDevice.biometricData = biometricData;
+    const credential = this.createCredential(currentDevice, enrollment.type, options);
+    if (enrollment.type === 'face') {
+      const result = this.options.faceMatcher.createTemplate(enrollment.frame);
+      if (!result.template) {
+        throw new BiometricError(result.reason, result.reason === 'no_face_detected'
+          ? "No face was found in the capture"
+          : "The face is too dark, flat or small to enroll");
+      }
+      credential.faceTemplate = result.template;
+    } else {
+      const result = this.options.gestureMatcher.createTemplate(enrollment.strokes);
+      if (!result.template) {
+        throw new BiometricError(result.reason, describeGestureFailure(result.reason));
+      }
+      credential.gestureTemplate = result.template;
+    }
     
-    // Update device in storage
-    this.addTrustedDevice(currentDevice);
-    console.log(`Biometric registered: ${type}`);
+    this.saveBiometrics(currentDevice, [...(currentDevice.biometrics || []), credential]);
+    this.options.logger.debug(`Biometric enrolled: ${credential.type} "${credential.label}"`);
     
-    return true;
+    return credential;
   }
   
   /**
-   * Verify biometric data against stored data
+   * Give an enrollment a new label. Throws BiometricError when it does not exist
    */
-  public static verifyBiometric(biometricData: string): boolean {
+  public renameBiometric(id: string, label: string): BiometricCredential {
     const currentDevice = this.getCurrentDevice();
-    console.log("Verifying biometric data against stored data");
-    console.log(`Current device: ${currentDevice?.name || 'None'}`);
-    console.log(`Biometric type: ${currentDevice?.biometricType || 'None'}`);
+    const credential = currentDevice?.biometrics?.find(c => c.id === id);
+    if (!credential) {
+      throw new BiometricError('not_found', "No such biometric is enrolled on this device");
+    }
     
-    if (!currentDevice || !currentDevice.biometricData || currentDevice.biometricType === 'none') {
-      console.error("Cannot verify biometric: No biometric data found");
+    const renamed = { ...credential, label: label.trim() || credential.label };
+    this.saveBiometrics(currentDevice, currentDevice.biometrics.map(c => c.id === id ? renamed : c));
+    return renamed;
+  }
+  
+  /**
+   * Remove one enrollment; the others stay usable. A revoked passkey stays in the
+   * platform authenticator but is no longer accepted.
+   * Throws ReverificationRequiredError when the user has not proved a factor lately
+   */
+  public revokeBiometric(id: string): boolean {
+    const currentDevice = this.getCurrentDevice();
+    const biometrics = currentDevice?.biometrics || [];
+    if (!biometrics.some(c => c.id === id)) {
       return false;
     }
+    this.assertBiometricsChangeable(currentDevice, 'removing a biometric');
+    
+    this.saveBiometrics(currentDevice, biometrics.filter(c => c.id !== id));
+    this.options.logger.debug(`Biometric revoked: ${id}`);
+    return true;
+  }
+  
+  /**
+   * Compare a captured biometric against those of the same modality enrolled on the current device.
+   * A sample that does not match counts towards the lockout. A match proves the user for changes to
+   * the device's factors; a face only with liveness frames that pass and start from it
+   */
+  public verifyBiometric(sample: BiometricSample): BiometricMatchResult {
+    const { result } = this.matchBiometric(sample);
+    if (result.reason === 'no_match') {
+      this.options.lockout.recordFailure(this.fingerprint.getDeviceId());
+    } else if (result.matched && (sample.type === 'fingerprint'
+      || (sample.liveness && this.options.liveness.evaluate(sample.liveness, sample.frame).passed))) {
+      this.recordReverification();
+    }
+    return result;
+  }
+  
+  /**
+   * Whether changing the device's authenticator app or biometrics needs the user to prove a factor
+   * first: the device has a phone number or biometric to prove one with, and none was proved lately
+   */
+  public isReverificationRequired(): boolean {
+    const device = this.getCurrentDevice();
+    const canReverify = !!device?.phoneNumber || (device?.biometrics || []).length > 0;
+    const reverified = this.reverifiedAt !== null
+      && this.options.clock.now() - this.reverifiedAt < this.options.reverificationWindowMs;
+    return canReverify && !reverified;
+  }
+  
+  /**
+   * Throw ReverificationRequiredError when isReverificationRequired. `change` says what is being changed
+   */
+  public assertReverified(change: string): void {
+    if (this.isReverificationRequired()) {
+      throw new ReverificationRequiredError(`Verify with a code sent to your phone, a passkey or a biometric before ${change}`);
+    }
+  }
+  
+  /**
+   * The first enrollment needs no proof. Once one exists, adding the user's own or removing them
+   * all would take over or drop the biometric step-up, so a factor must have been proved
+   */
+  private assertBiometricsChangeable(device: TrustedDevice, change: string): void {
+    if ((device.biometrics || []).length > 0) {
+      this.assertReverified(change);
+    }
+  }
+  
+  /**
+   * Note that the user proved a factor checked elsewhere, such as a code sent to their phone
+   */
+  public recordReverification(): void {
+    this.reverifiedAt = this.options.clock.now();
+  }
+  
+  /**
+   * Prove the user with one of the device's passkeys, outside any transaction.
+   * Throws PasskeyError when no passkey can be used, e.g. the user cancels the prompt
+   */
+  public async reverifyWithPasskey(): Promise<boolean> {
+    const assertion = await this.options.passkeys.verifyUser(getPasskeys(this.getCurrentDevice()));
+    this.recordPasskeyAssertion(assertion);
+    return assertion.verified;
+  }
+  
+  /**
+   * Check frames recorded for a liveness challenge. Frames that show a still image
+   * or ignore the prompts count towards the lockout
+   */
+  public checkLiveness(capture: LivenessCapture, matchedFrame?: FaceFrame): LivenessResult {
+    const result = this.options.liveness.evaluate(capture, matchedFrame);
+    if (isLivenessAttackSign(result)) {
+      this.options.lockout.recordFailure(this.fingerprint.getDeviceId());
+    }
+    return result;
+  }
+  
+  /**
+   * Whether biometrics are locked on the current device and how many attempts are left
+   */
+  public getBiometricLockout(): BiometricLockoutStatus {
+    return this.options.lockout.getStatus(this.fingerprint.getDeviceId());
+  }
+  
+  /**
+   * Create a passkey on this device's platform authenticator and enroll it alongside the device's other biometrics.
+   * Throws PasskeyError when the device is not registered, WebAuthn is unavailable or the user cancels,
+   * and ReverificationRequiredError when other biometrics are enrolled and the user has not proved a factor lately
+   */
+  public async registerPasskey(options: BiometricEnrollmentOptions = {}): Promise<BiometricCredential> {
+    const currentDevice = this.getCurrentDevice();
+    if (!currentDevice) {
+      throw new PasskeyError('not_registered', "Register this device before adding a passkey");
+    }
+    this.assertBiometricsChangeable(currentDevice, 'adding a passkey');
     
-    // In a real implementation, this would use sophisticated biometric comparison algorithms
-    // For this demo implementation, we'll simulate a successful match
+    const passkey = await this.options.passkeys.register(
+      currentDevice.deviceId,
+      currentDevice.name,
+      getPasskeys(currentDevice)
+    );
     
-    console.log("Biometric data provided for verification");
+    // Re-read: the prompt may have been open for a while
+    const device = this.getCurrentDevice() || currentDevice;
+    const credential: BiometricCredential = { ...this.createCredential(device, 'passkey', options), passkey };
+    this.saveBiometrics(device, [...(device.biometrics || []), credential]);
     
-    // For the demo, we'll just return true to simulate successful verification
-    return true;
+    return credential;
+  }
+  
+  /**
+   * Verify a transaction with one of the device's passkeys. The user approves this specific
+   * transaction in the platform authenticator prompt.
+   * Throws PasskeyError when no passkey is registered, WebAuthn is unavailable or the user cancels
+   */
+  public async verifyTransactionWithPasskey(transaction: Transaction): Promise<TransactionVerificationResult> {
+    const currentDevice = this.getCurrentDevice();
+    const assertion = await this.options.passkeys.verifyTransaction(transaction, getPasskeys(currentDevice));
+    this.recordPasskeyAssertion(assertion);
+    return assertion.verified
+      ? this.evaluateTransaction(transaction, 'verified', 'not_applicable', 'passkey')
+      : this.evaluateTransaction(transaction, 'failed');
   }
   
   /**
-   * Verify transaction with biometric authentication
+   * Verify transaction with biometric authentication.
+   * A sample that does not match, or a face that fails liveness, counts towards the lockout;
+   * once locked the transaction is routed to a fallback factor as verifyTransaction does
    */
-  public static verifyTransactionWithBiometric(transaction: Transaction, biometricData: string): TransactionVerificationResult {
-    const isTrustedDevice = this.isCurrentDeviceRegistered();
+  public verifyTransactionWithBiometric(transaction: Transaction, sample: BiometricSample): TransactionVerificationResult {
+    const deviceId = this.fingerprint.getDeviceId();
+    const { result: biometricMatch, credential } = this.matchBiometric(sample);
+    if (biometricMatch.reason === 'locked_out') {
+      return { ...this.verifyTransaction(transaction), biometricMatch };
+    }
     
-    if (!isTrustedDevice) {
-      return {
-        verified: false,
-        riskLevel: 'high',
-        reason: 'Untrusted device',
-        recommendation: 'Block transaction',
-        requiresCallVerification: false,
-      };
+    const biometricState: BiometricState = biometricMatch.matched ? 'verified' : 'failed';
+    if (credential) {
+      const device = this.getCurrentDevice();
+      this.saveBiometrics(device, device.biometrics.map(c => c.id === credential.id ? { ...c, lastUsedAt: this.now() } : c));
     }
     
-    // Check if biometric verification passed
-    const biometricVerified = this.verifyBiometric(biometricData);
-    if (!biometricVerified) {
-      return {
-        verified: false,
-        riskLevel: 'high',
-        reason: 'Biometric verification failed',
-        recommendation: 'Block transaction',
-        requiresCallVerification: false,
-      };
+    let liveness: LivenessResult | undefined;
+    let livenessState: LivenessState = 'not_applicable';
+    if (sample.type === 'face') {
+      if (sample.liveness) {
+        // The liveness frames must start from the matched frame and keep to one face
+        liveness = this.options.liveness.evaluate(sample.liveness, sample.frame);
+        // A capture approves one transaction only
+        this.options.liveness.consume(sample.liveness.challengeId);
+        livenessState = liveness.passed ? 'passed' : 'failed';
+      } else {
+        livenessState = 'skipped';
+      }
     }
     
-    // Check if this is a high-value transaction
-    const isHighValueTransaction = transaction.amount >= this.HIGH_VALUE_THRESHOLD;
+    // A face proves the user only with liveness; a skipped check could be a photo
+    let verifiedBy: VerifiedBiometric = 'none';
+    if (biometricMatch.matched && (livenessState === 'passed' || livenessState === 'not_applicable')) {
+      verifiedBy = sample.type;
+      this.recordReverification();
+    }
     
-    if (isHighValueTransaction) {
-      return {
-        verified: true, // Device is trusted, but amount requires additional verification
-        riskLevel: 'medium',
-        reason: 'High-value transaction requires additional verification',
-        recommendation: 'Verify via phone call',
-        requiresCallVerification: true,
-      };
+    // Only a complete success clears the count, so a photo that matches but fails liveness still locks
+    let biometricLockout: BiometricLockoutStatus;
+    if (biometricMatch.reason === 'no_match' || (liveness && isLivenessAttackSign(liveness))) {
+      biometricLockout = this.options.lockout.recordFailure(deviceId);
+    } else {
+      if (biometricMatch.matched && livenessState !== 'failed') {
+        this.options.lockout.recordSuccess(deviceId);
+      }
+      biometricLockout = this.options.lockout.getStatus(deviceId);
     }
     
     return {
-      verified: true,
-      riskLevel: 'low',
-      reason: 'Trusted device with verified biometrics',
-      recommendation: 'Allow transaction',
-      requiresCallVerification: false,
+      ...this.evaluateTransaction(transaction, biometricState, livenessState, verifiedBy),
+      biometricMatch,
+      liveness,
+      biometricLockout,
     };
   }
   
   /**
-   * Link a new device using QR code data
+   * Refresh a linked device from a QR code it signed.
+   * A QR code is signed with a key it carries itself, so on its own it cannot prove who issued it;
+   * only codes from a device already trusted under the same signing key are accepted here.
+   * New devices are linked through the confirmed pairing handshake instead.
+   * `claimSession` runs once the code is verified and before the device is saved;
+   * throwing from it aborts the link.
    */
-  public static linkDeviceFromQR(qrData: QRCodeData): TrustedDevice | null {
-    console.log("Linking device from QR data:", qrData);
-    if (!qrData || !qrData.deviceInfo) {
-      console.error("Invalid QR data for device linking");
-      return null;
+  public async linkDeviceFromQR(
+    qrCode: SignedQRCodeData,
+    claimSession?: (qrData: QRCodeData) => void
+  ): Promise<TrustedDevice> {
+    const qrData = qrCode.data;
+    this.options.logger.debug("Linking device from QR data:", qrData);
+    
+    await this.verifyLinkingCode(qrCode);
+    const knownDevice = this.getTrustedDevices().find(device => device.deviceId === qrData.deviceInfo.deviceId);
+    if (!knownDevice?.publicKeys) {
+      this.options.logger.error("QR code issued by a device that is not trusted yet");
+      throw new QRCodeError('untrusted_issuer', "QR code is not from a trusted device; pair the devices to link it");
     }
+    claimSession?.(qrData);
     
-    const trustedDevice: TrustedDevice = {
-      ...qrData.deviceInfo,
-      name: `${qrData.deviceInfo.platform} Device`,
-      isCurrentDevice: false,
-      lastVerified: new Date().toISOString(),
-      phoneNumber: '',
-    };
+    return this.addLinkedDevice(qrData.deviceInfo, qrData.publicKeys);
+  }
+  
+  /**
+   * Check that a QR code was signed with the key it carries, proving its issuer holds that key.
+   * This does not establish who the issuer is: anyone can sign a code with a fresh key.
+   * Rejects codes whose signature does not verify, and codes claiming to come from
+   * an already trusted device but signed with a different key.
+   */
+  public async verifyLinkingCode(qrCode: SignedQRCodeData): Promise<void> {
+    const qrData = qrCode.data;
+    if (!qrData || !qrData.deviceInfo || !qrData.publicKeys?.signing) {
+      this.options.logger.error("Invalid QR data for device linking");
+      throw new QRCodeError('malformed', "QR code does not describe a device");
+    }
     
-    this.addTrustedDevice(trustedDevice);
-    console.log("Device linked successfully:", trustedDevice);
+    const signatureValid = await DeviceKeyManager.verify(qrData.publicKeys.signing, qrCode.payload, qrCode.signature);
+    if (!signatureValid) {
+      this.options.logger.error("QR code signature verification failed");
+      throw new QRCodeError('invalid_signature', "QR code signature is invalid");
+    }
     
-    return trustedDevice;
+    if (!this.hasMatchingKeys(qrData.deviceInfo.deviceId, qrData.publicKeys)) {
+      this.options.logger.error("QR code signed with a different key than the trusted device");
+      throw new QRCodeError('key_mismatch', "QR code was not signed by the trusted device it claims to be");
+    }
   }
   
   /**
-   * Generate a verification code for high-value transactions
+   * False when `deviceId` is already trusted under a different signing key
    */
-  public static generateVerificationCode(): string {
-    // Generate a random 6-digit code
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    // Store the code temporarily
-    localStorage.setItem(this.VERIFICATION_CODE_KEY, code);
-    return code;
+  public hasMatchingKeys(deviceId: string, publicKeys: DevicePublicKeys): boolean {
+    const knownDevice = this.getTrustedDevices().find(device => device.deviceId === deviceId);
+    return !knownDevice?.publicKeys || DeviceKeyManager.isSameKey(knownDevice.publicKeys.signing, publicKeys.signing);
   }
   
   /**
-   * Verify the user-entered code against the stored code
+   * Add another device whose identity has already been verified
    */
-  public static verifyCode(userEnteredCode: string): boolean {
-    const storedCode = localStorage.getItem(this.VERIFICATION_CODE_KEY);
-    if (!storedCode) return false;
-    
-    const isValid = storedCode === userEnteredCode;
+  public addLinkedDevice(deviceInfo: DeviceInfo, publicKeys: DevicePublicKeys): TrustedDevice {
+    const trustedDevice: TrustedDevice = {
+      ...deviceInfo,
+      name: deviceInfo.deviceName || `${deviceInfo.platform} Device`,
+      isCurrentDevice: false,
+      lastVerified: this.now(),
+      registeredAt: this.now(),
+      phoneNumber: '',
+      publicKeys,
+    };
     
-    // Clear the code after verification attempt
-    localStorage.removeItem(this.VERIFICATION_CODE_KEY);
+    this.addTrustedDevice(trustedDevice);
+    this.options.logger.debug("Device linked successfully:", trustedDevice);
     
-    return isValid;
+    return trustedDevice;
   }
   
   /**
    * Check if current device is registered as trusted
    */
-  public static isCurrentDeviceRegistered(): boolean {
-    const isRegistered = localStorage.getItem(this.CURRENT_DEVICE_KEY) === 'true';
-    
-    if (isRegistered) {
-      // Verify that device ID exists in trusted devices
-      const currentDeviceId = DeviceFingerprint.getDeviceId();
-      const trustedDevices = this.getTrustedDevices();
-      return trustedDevices.some(device => device.deviceId === currentDeviceId);
-    }
+  public isCurrentDeviceRegistered(): boolean {
+    const isRegistered = this.storage.getItem(TrustedDeviceManager.CURRENT_DEVICE_KEY) === 'true';
     
-    return false;
+    // Verify that the device is among the trusted devices
+    return isRegistered && this.getCurrentDevice() !== null;
   }
   
   /**
    * Get all trusted devices
    */
-  public static getTrustedDevices(): TrustedDevice[] {
-    const storedDevices = localStorage.getItem(this.TRUSTED_DEVICES_KEY);
+  public getTrustedDevices(): TrustedDevice[] {
+    const storedDevices = this.storage.getItem(TrustedDeviceManager.TRUSTED_DEVICES_KEY);
     if (!storedDevices) {
       return [];
     }
     
     try {
-      return JSON.parse(storedDevices);
+      return (JSON.parse(storedDevices) as (TrustedDevice & LegacyBiometricFields)[]).map(migrateBiometrics);
     } catch (error) {
-      console.error("Failed to parse trusted devices:", error);
+      this.options.logger.error("Failed to parse trusted devices:", error);
       return [];
     }
   }
   
   /**
-   * Get current device
+   * Get current device. A device whose stored ID was wiped is recognised by its signals
    */
-  public static getCurrentDevice(): TrustedDevice | null {
-    const currentDeviceId = DeviceFingerprint.getDeviceId();
+  public getCurrentDevice(): TrustedDevice | null {
+    const currentDeviceId = this.fingerprint.getDeviceId();
     const trustedDevices = this.getTrustedDevices();
-    return trustedDevices.find(device => device.deviceId === currentDeviceId) || null;
+    return trustedDevices.find(device => device.deviceId === currentDeviceId) || this.recognizeDevice(trustedDevices);
   }
   
   /**
-   * Verify if a transaction is coming from a trusted device
+   * The device registered here whose signals best match this one's, if similar enough.
+   * Linked devices are other physical devices, so a lookalike is never taken for one of them
    */
-  public static verifyTransaction(transaction: Transaction): TransactionVerificationResult {
-    const isTrustedDevice = this.isCurrentDeviceRegistered();
+  private recognizeDevice(trustedDevices: TrustedDevice[]): TrustedDevice | null {
+    const signals = this.fingerprint.getSignals();
+    if (!signals) {
+      return null;
+    }
     
-    if (!isTrustedDevice) {
-      return {
-        verified: false,
-        riskLevel: 'high',
-        reason: 'Untrusted device',
-        recommendation: 'Block transaction',
-        requiresCallVerification: false,
-      };
+    let best: { device: TrustedDevice; score: number } | null = null;
+    for (const device of trustedDevices) {
+      if (!device.isCurrentDevice || !device.signals) {
+        continue;
+      }
+      const { score, matching } = compareDeviceSignals(signals, device.signals);
+      if (matching.length < MIN_RECOGNITION_SIGNALS || score < this.options.recognitionThreshold) {
+        continue;
+      }
+      if (!best || score > best.score) {
+        best = { device, score };
+      }
+    }
+    if (!best) {
+      return null;
     }
     
+    this.options.logger.info(`Recognised returning device by its signals (similarity ${best.score})`);
+    this.fingerprint.adoptDeviceId(best.device.deviceId);
+    return best.device;
+  }
+  
+  /**
+   * How far the current device's signals have moved from the ones on record; null when either set is missing
+   */
+  public getDeviceDrift(): DeviceDriftReport | null {
     const currentDevice = this.getCurrentDevice();
-    
-    // If device has biometric capability but hasn't been verified for this transaction
-    if (currentDevice?.biometricType !== 'none') {
-      return {
-        verified: false,
-        riskLevel: 'medium',
-        reason: 'Biometric verification required',
-        recommendation: 'Complete biometric verification',
-        requiresCallVerification: false,
-        requiresBiometricVerification: true,
-      };
+    return currentDevice ? this.checkDrift(currentDevice) : null;
+  }
+  
+  /**
+   * Record that a code step-up of a checked transaction passed.
+   * Returns true once the transaction has no step-ups left and is approved
+   */
+  public completeStepUp(transactionId: string, method: CodeStepUp): boolean {
+    const pending = this.pendingApprovals.get(transactionId);
+    if (!pending) {
+      return false;
+    }
+    pending.remaining = pending.remaining.filter(step => step !== method);
+    if (pending.remaining.length > 0) {
+      return false;
+    }
+    this.pendingApprovals.delete(transactionId);
+    this.approveTransaction(pending);
+    return true;
+  }
+  
+  /**
+   * Verify if a transaction is coming from a trusted device.
+   * When the device's biometrics are locked, or the app reports it cannot capture one,
+   * the risk rules ask for the first configured fallback factor the device has instead
+   */
+  public verifyTransaction(transaction: Transaction, options: VerifyTransactionOptions = {}): TransactionVerificationResult {
+    const currentDevice = this.getCurrentDevice();
+    if (!currentDevice?.biometrics?.length) {
+      return this.evaluateTransaction(transaction, 'not_enrolled');
     }
     
-    // Check if this is a high-value transaction
-    const isHighValueTransaction = transaction.amount >= this.HIGH_VALUE_THRESHOLD;
-    
-    if (isHighValueTransaction) {
-      return {
-        verified: true, // Device is trusted, but amount requires additional verification
-        riskLevel: 'medium',
-        reason: 'High-value transaction requires additional verification',
-        recommendation: 'Verify via phone call',
-        requiresCallVerification: true,
-      };
+    const lockout = this.options.lockout.getStatus(currentDevice.deviceId);
+    const reason: BiometricFallbackReason | undefined = lockout.locked ? 'locked_out' : options.biometricUnavailable;
+    if (!reason) {
+      return this.evaluateTransaction(transaction, 'pending');
     }
     
-    return {
-      verified: true,
-      riskLevel: 'low',
-      reason: 'Trusted device',
-      recommendation: 'Allow transaction',
-      requiresCallVerification: false,
+    this.options.logger.info(`Biometric verification unavailable (${reason}); using a fallback factor`);
+    const fallback: BiometricFallback = {
+      reason,
+      factor: this.selectFallbackFactor(currentDevice),
+      ...(lockout.locked ? { retryAfterMs: lockout.retryAfterMs } : {}),
     };
+    return { ...this.evaluateTransaction(transaction, 'unavailable'), fallback, biometricLockout: lockout };
   }
   
   /**
    * Remove a trusted device
    */
-  public static removeTrustedDevice(deviceId: string): boolean {
+  public removeTrustedDevice(deviceId: string): boolean {
     const devices = this.getTrustedDevices().filter(
       device => device.deviceId !== deviceId
     );
     
-    localStorage.setItem(this.TRUSTED_DEVICES_KEY, JSON.stringify(devices));
+    this.storage.setItem(TrustedDeviceManager.TRUSTED_DEVICES_KEY, JSON.stringify(devices));
     
     // If removing current device, update registration status
-    if (deviceId === DeviceFingerprint.getDeviceId()) {
-      localStorage.removeItem(this.CURRENT_DEVICE_KEY);
+    if (deviceId === this.fingerprint.getDeviceId()) {
+      this.storage.removeItem(TrustedDeviceManager.CURRENT_DEVICE_KEY);
     }
     
     // Notify that trusted devices have been updated
-    const event = new CustomEvent('trustedDevicesUpdated');
-    window.dispatchEvent(event);
+    this.notifyTrustedDevicesUpdated();
     
     return true;
   }
   
-  private static addTrustedDevice(device: TrustedDevice): void {
-    console.log("Adding trusted device:", device);
+  private addTrustedDevice(device: TrustedDevice): void {
+    this.options.logger.debug("Adding trusted device:", device);
     const devices = this.getTrustedDevices();
     
     // Check if device already exists, update it if it does
@@ -311,17 +665,284 @@ export class TrustedDeviceManager {
       devices[existingIndex] = {
         ...devices[existingIndex],
         ...device,
-        lastVerified: new Date().toISOString(),
+        // Re-registering refreshes the record but the device keeps its age
+        registeredAt: devices[existingIndex].registeredAt || device.registeredAt,
+        lastVerified: this.now(),
       };
     } else {
       devices.push(device);
     }
     
-    localStorage.setItem(this.TRUSTED_DEVICES_KEY, JSON.stringify(devices));
+    this.storage.setItem(TrustedDeviceManager.TRUSTED_DEVICES_KEY, JSON.stringify(devices));
     
     // Notify that trusted devices have been updated
-    const event = new CustomEvent('trustedDevicesUpdated');
-    window.dispatchEvent(event);
+    this.notifyTrustedDevicesUpdated();
+  }
+  
+  /**
+   * Run the risk rules against the transaction and the current device
+   */
+  private evaluateTransaction(
+    transaction: Transaction,
+    biometricState: BiometricState,
+    livenessState: LivenessState = 'not_applicable',
+    verifiedBy: VerifiedBiometric = 'none'
+  ): TransactionVerificationResult {
+    const deviceTrusted = this.isCurrentDeviceRegistered();
+    const currentDevice = deviceTrusted ? this.getCurrentDevice() : null;
+    const now = this.options.clock.now();
+    const registeredAt = currentDevice ? new Date(currentDevice.registeredAt || currentDevice.timestamp).getTime() : NaN;
+    const deviceId = this.fingerprint.getDeviceId();
+    const baseAmount = this.options.thresholds.toBaseCurrency(transaction.amount);
+    const payeeId = PayeeRegistry.normalize(transaction.recipient);
+    const payee = this.options.payees.getPayee(transaction.recipient);
+    const behavior = transaction.behavior ? this.options.behavior.assess(transaction.behavior) : null;
+    const deviceDrift = currentDevice ? this.checkDrift(currentDevice) : null;
+    const environment = this.options.environment.getReport();
+    // A device that no longer resembles the one registered, e.g. because its ID was copied elsewhere, loses its trust
+    const deviceTrustDowngraded = !!deviceDrift && deviceDrift.score < this.options.driftUntrustSimilarity;
+    if (deviceTrustDowngraded) {
+      this.options.logger.warn(`Device no longer matches its registration (similarity ${deviceDrift.score}); treating it as untrusted`);
+    }
+    
+    const context: RiskContext = {
+      amount: transaction.amount,
+      currency: transaction.amount.currency,
+      baseAmount,
+      baseAmountKnown: !!baseAmount,
+      highValue: this.options.thresholds.isHighValue(transaction.amount),
+      recipient: transaction.recipient,
+      payeeStatus: this.options.payees.getStatus(transaction.recipient),
+      firstPayment: !payee?.lastPaidAt,
+      deviceTrusted: deviceTrusted && !deviceTrustDowngraded,
+      totpEnrolled: this.options.totp.isEnrolled(),
+      deviceAgeDays: Number.isNaN(registeredAt) ? null : Math.floor((now - registeredAt) / (24 * 60 * 60 * 1000)),
+      deviceDrift: deviceDrift ? deviceDrift.drift : null,
+      biometricState,
+      biometricFallback: (currentDevice && this.selectFallbackFactor(currentDevice)) || 'none',
+      livenessState,
+      verifiedBy,
+      behaviorScore: behavior ? behavior.score : null,
+      environmentRisk: environment ? environment.score : null,
+      hourOfDay: new Date(now).getHours(),
+      velocity: (scope: VelocityScope, windowMs: number): VelocityStats => {
+        // Earlier checks of this same transaction are replaced by this one, not added to it
+        const history = this.options.ledger.getVelocity(
+          scope,
+          scope === 'device' ? deviceId : payeeId,
+          windowMs,
+          transaction.id
+        );
+        return {
+          count: history.count + 1,
+          total: baseAmount ? history.total.add(baseAmount) : history.total,
+          unconverted: history.unconverted + (baseAmount ? 0 : 1),
+        };
+      },
+    };
+    
+    const decision = this.options.riskEngine.evaluate(context);
+    this.options.logger.debug("Risk rules fired:", decision.firedRules.map(rule => rule.id));
+    
+    this.options.ledger.record({
+      transactionId: transaction.id,
+      amount: transaction.amount.toJSON(),
+      baseAmount: baseAmount ? baseAmount.toJSON() : null,
+      recipient: transaction.recipient,
+      payeeId,
+      deviceId,
+      checkedAt: new Date(now).toISOString(),
+      action: decision.action,
+    });
+    
+    const requiresBiometricVerification = decision.stepUps.includes('biometric');
+    const requiresPasskeyVerification = decision.stepUps.includes('passkey');
+    // A call step-up follows a device check that passed; a biometric or passkey step-up means the device has not proven itself yet
+    const verified = decision.action === 'allow'
+      || (decision.action === 'step_up' && !requiresBiometricVerification && !requiresPasskeyVerification);
+    // Codes are entered after this check, so until they are the payment has not happened
+    const remaining = decision.stepUps.filter((method): method is CodeStepUp => method === 'call' || method === 'totp');
+    // Bigger changes are taken on with the approval, and only when the user proved themselves with a passkey,
+    // a face that passed liveness or a code sent to their phone. A drawn gesture can be watched and repeated
+    const acceptDrift = deviceDrift?.drift === 'suspicious' && !deviceTrustDowngraded && (remaining.includes('call')
+      || verifiedBy === 'passkey' || verifiedBy === 'face');
+    const approval: PendingApproval = { recipient: transaction.recipient, remaining, acceptDrift };
+    this.pendingApprovals.delete(transaction.id);
+    if (verified && remaining.length === 0) {
+      this.approveTransaction(approval);
+    } else if (verified) {
+      this.pendingApprovals.set(transaction.id, approval);
+    }
+    // Only entries approved without any step-up shape the baseline, so a fraudster's entry never becomes the norm
+    if (decision.action === 'allow' && transaction.behavior) {
+      this.options.behavior.learn(transaction.id, transaction.behavior);
+    }
+    // An update is taken on straight away
+    if (deviceDrift?.drift === 'benign' && !deviceTrustDowngraded && decision.action !== 'block') {
+      this.recordSignals(currentDevice);
+    }
+    
+    return {
+      verified,
+      riskLevel: decision.riskLevel,
+      reason: decision.reason,
+      recommendation: decision.recommendation,
+      requiresCallVerification: decision.stepUps.includes('call'),
+      ...(requiresBiometricVerification ? { requiresBiometricVerification } : {}),
+      ...(decision.stepUps.includes('totp') ? { requiresTotpVerification: true } : {}),
+      ...(requiresPasskeyVerification ? { requiresPasskeyVerification } : {}),
+      action: decision.action,
+      firedRules: decision.firedRules,
+      ...(behavior ? { behavior } : {}),
+      ...(deviceDrift ? { deviceDrift } : {}),
+      ...(deviceTrustDowngraded ? { deviceTrustDowngraded } : {}),
+      ...(environment ? { environment } : {}),
+    };
+  }
+  
+  /**
+   * Best match for `sample` among the current device's enrollments of the same modality.
+   * `credential` is the enrollment that matched, if any
+   */
+  private matchBiometric(sample: BiometricSample): { result: BiometricMatchResult; credential: BiometricCredential | null } {
+    const currentDevice = this.getCurrentDevice();
+    this.options.logger.debug("Verifying biometric data against stored data");
+    this.options.logger.debug(`Current device: ${currentDevice?.name || 'None'}`);
+    
+    const match = (credential: BiometricCredential | null) => sample.type === 'face'
+      ? this.options.faceMatcher.match(credential?.faceTemplate, sample.frame)
+      : this.options.gestureMatcher.match(credential?.gestureTemplate, sample.stroke);
+    
+    if (this.options.lockout.getStatus(this.fingerprint.getDeviceId()).locked) {
+      this.options.logger.warn("Biometric verification is locked after too many failed attempts");
+      return { result: { ...match(null), reason: 'locked_out' }, credential: null };
+    }
+    
+    const candidates = (currentDevice?.biometrics || []).filter(credential => credential.type === sample.type);
+    if (candidates.length === 0) {
+      this.options.logger.error(`Cannot verify biometric: No ${sample.type} biometric enrolled`);
+      return { result: match(null), credential: null };
+    }
+    
+    let best: { result: BiometricMatchResult; credential: BiometricCredential } | null = null;
+    for (const credential of candidates) {
+      const result = match(credential);
+      if (!best || result.score > best.result.score) {
+        best = { result, credential };
+      }
+    }
+    this.options.logger.debug(`Biometric match: ${best.result.reason}, score ${best.result.score} (threshold ${best.result.threshold})`);
+    return { result: best.result, credential: best.result.matched ? best.credential : null };
+  }
+  
+  /**
+   * Keep the signature counter of a passkey that verified; a verified passkey also proves the user
+   */
+  private recordPasskeyAssertion(assertion: PasskeyAssertionResult): void {
+    if (!assertion.verified) {
+      this.options.logger.warn(`Passkey assertion rejected: ${assertion.reason}`);
+      return;
+    }
+    this.recordReverification();
+    
+    // Re-read: the prompt may have been open for a while
+    const device = this.getCurrentDevice();
+    if (device?.biometrics) {
+      this.saveBiometrics(device, device.biometrics.map(credential => credential.passkey?.credentialId === assertion.credentialId
+        ? { ...credential, passkey: { ...credential.passkey, signCount: assertion.signCount }, lastUsedAt: this.now() }
+        : credential
+      ));
+    }
+  }
+  
+  private approveTransaction(approval: PendingApproval): void {
+    this.options.payees.recordPayment(approval.recipient);
+    if (approval.acceptDrift) {
+      this.reverifyCurrentDevice();
+    }
+  }
+  
+  /**
+   * Take on the current device's signals once the user has re-verified, e.g. with a code sent to
+   * their phone. Refused when the device has since drifted too far to be trusted
+   */
+  private reverifyCurrentDevice(): void {
+    const currentDevice = this.getCurrentDevice();
+    const drift = currentDevice ? this.checkDrift(currentDevice) : null;
+    if (drift && drift.drift !== 'none' && drift.score >= this.options.driftUntrustSimilarity) {
+      this.options.logger.info("Device re-verified; its changed signals are now on record");
+      this.recordSignals(currentDevice);
+    }
+  }
+  
+  /**
+   * Compare the device's signals with the ones on record. A device registered before
+   * signals were collected has the current ones put on record instead
+   */
+  private checkDrift(device: TrustedDevice): DeviceDriftReport | null {
+    const signals = this.fingerprint.getSignals();
+    if (!signals) {
+      return null;
+    }
+    if (!device.signals) {
+      this.recordSignals(device);
+      return null;
+    }
+    return classifyDeviceDrift(device.signals, signals, this.options.driftBenignSimilarity);
+  }
+  
+  private recordSignals(device: TrustedDevice): void {
+    // The first signals put on record are not a change
+    if (device.signals) {
+      device.signalsUpdatedAt = this.now();
+    }
+    device.signals = this.fingerprint.getSignals();
+    this.addTrustedDevice(device);
+  }
+  
+  /**
+   * First configured fallback factor the device has set up, or null
+   */
+  private selectFallbackFactor(device: TrustedDevice): BiometricFallbackFactor | null {
+    const available: Record<BiometricFallbackFactor, boolean> = {
+      passkey: getPasskeys(device).length > 0,
+      totp: this.options.totp.isEnrolled(),
+      otp: !!device.phoneNumber,
+    };
+    return this.options.fallbackFactors.find(factor => available[factor]) || null;
+  }
+  
+  private createCredential(
+    device: TrustedDevice,
+    type: BiometricCredential['type'],
+    options: BiometricEnrollmentOptions
+  ): BiometricCredential {
+    const sameType = (device.biometrics || []).filter(credential => credential.type === type).length;
+    return {
+      id: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(12))),
+      type,
+      label: options.label?.trim() || `${BIOMETRIC_LABELS[type]} ${sameType + 1}`,
+      createdAt: this.now(),
+      lastUsedAt: null,
+      ...(options.preview ? { preview: options.preview } : {}),
+    };
+  }
+  
+  private saveBiometrics(device: TrustedDevice, biometrics: BiometricCredential[]): void {
+    device.biometrics = biometrics;
+    this.addTrustedDevice(device);
+  }
+  
+  private now(): string {
+    return new Date(this.options.clock.now()).toISOString();
+  }
+  
+  private notifyTrustedDevicesUpdated(): void {
+    // Outside the browser (Node, workers) there is no window to notify
+    if (typeof window === 'undefined') {
+      return;
+    }
+    window.dispatchEvent(new CustomEvent('trustedDevicesUpdated'));
   }
 }
 
@@ -329,18 +950,58 @@ export interface TrustedDevice extends DeviceInfo {
   name: string;
   isCurrentDevice: boolean;
   lastVerified: string;
+  registeredAt?: string;
   phoneNumber?: string;
-  biometricType?: BiometricType;
-  biometricData?: string | null;
+  publicKeys?: DevicePublicKeys;
   biometricVerified?: boolean;
+  /**
+   * Faces, fingerprint gestures and passkeys enrolled on this device
+   */
+  biometrics?: BiometricCredential[];
+  /**
+   * When the signals on record were last replaced after the device changed
+   */
+  signalsUpdatedAt?: string;
+}
+
+/**
+ * One enrolled biometric. Exactly one of the templates or `passkey` is set, matching `type`
+ */
+export interface BiometricCredential {
+  id: string;
+  type: 'face' | 'fingerprint' | 'passkey';
+  label: string;
+  createdAt: string;
+  /**
+   * When it last approved a transaction
+   */
+  lastUsedAt: string | null;
+  /**
+   * Image shown when managing enrollments; never used for matching
+   */
+  preview?: string;
+  faceTemplate?: FaceTemplate;
+  gestureTemplate?: GestureTemplate;
+  passkey?: PasskeyCredential;
+}
+
+export interface BiometricEnrollmentOptions {
+  /**
+   * Name shown to the user, e.g. "Left thumb". Defaults to the type and a number
+   */
+  label?: string;
+  preview?: string;
 }
 
 export interface Transaction {
   id: string;
-  amount: number;
-  currency: string;
+  amount: Money;
   timestamp: string;
   recipient: string;
+  /**
+   * Signals recorded by a BehaviorRecorder while the transaction was entered
+   */
+  behavior?: BehaviorFeatures;
 }
 
 export interface TransactionVerificationResult {
@@ -350,4 +1011,127 @@ export interface TransactionVerificationResult {
   recommendation: string;
   requiresCallVerification: boolean;
   requiresBiometricVerification?: boolean;
+  /**
+   * A code from the enrolled authenticator app is needed
+   */
+  requiresTotpVerification?: boolean;
+  /**
+   * Outcome chosen by the risk rules
+   */
+  action: RiskAction;
+  /**
+   * Every rule that fired, in evaluation order
+   */
+  firedRules: FiredRule[];
+  /**
+   * How the captured biometric compared, when one was checked
+   */
+  biometricMatch?: BiometricMatchResult;
+  /**
+   * Outcome of the liveness challenge that came with a face
+   */
+  liveness?: LivenessResult;
+  /**
+   * The device must approve the transaction with one of its passkeys
+   */
+  requiresPasskeyVerification?: boolean;
+  /**
+   * Set when biometrics could not be used and another factor was asked for instead
+   */
+  fallback?: BiometricFallback;
+  /**
+   * Attempts left after a biometric check, or how long biometrics stay locked
+   */
+  biometricLockout?: BiometricLockoutStatus;
+  /**
+   * How the transaction's entry compared with the account holder's usual behaviour, when it was recorded
+   */
+  behavior?: BehaviorAssessment;
+  /**
+   * How far the device has drifted from the signals on record, when both are known
+   */
+  deviceDrift?: DeviceDriftReport;
+  /**
+   * The device changed so much it was treated as untrusted; registering it again restores its trust
+   */
+  deviceTrustDowngraded?: boolean;
+  /**
+   * Signs of automation, headless browsing or emulation found in the browser, when run in one
+   */
+  environment?: EnvironmentRiskReport;
+}
+
+export interface BiometricFallback {
+  reason: BiometricFallbackReason;
+  /**
+   * Factor the risk rules asked for in place of biometrics; null when the device has none set up
+   */
+  factor: BiometricFallbackFactor | null;
+  /**
+   * When locked out, how long until biometrics can be tried again
+   */
+  retryAfterMs?: number;
+}
+
+/**
+ * How devices stored before multiple enrollments held their single biometric
+ */
+interface LegacyBiometricFields {
+  biometricType?: BiometricType;
+  biometricData?: string | null;
+  faceTemplate?: FaceTemplate;
+  gestureTemplate?: GestureTemplate;
+  passkeys?: PasskeyCredential[];
+}
+
+function migrateBiometrics(device: TrustedDevice & LegacyBiometricFields): TrustedDevice {
+  const { biometricType, biometricData, faceTemplate, gestureTemplate, passkeys, ...rest } = device;
+  if (rest.biometrics || !biometricType) {
+    return rest;
+  }
+  
+  // Faces and fingerprints enrolled before matching existed have no template and cannot be verified, so they are dropped
+  const createdAt = rest.registeredAt || rest.timestamp;
+  const preview = biometricData ? { preview: biometricData } : {};
+  const biometrics: BiometricCredential[] = [];
+  if (biometricType === 'face' && faceTemplate) {
+    biometrics.push({ id: 'legacy-face', type: 'face', label: 'Face 1', createdAt, lastUsedAt: null, ...preview, faceTemplate });
+  }
+  if (biometricType === 'fingerprint' && gestureTemplate) {
+    biometrics.push({ id: 'legacy-fingerprint', type: 'fingerprint', label: 'Fingerprint 1', createdAt, lastUsedAt: null, ...preview, gestureTemplate });
+  }
+  (passkeys || []).forEach((passkey, i) => biometrics.push({
+    id: passkey.credentialId,
+    type: 'passkey',
+    label: `Passkey ${i + 1}`,
+    createdAt: passkey.createdAt,
+    lastUsedAt: null,
+    passkey,
+  }));
+  return { ...rest, biometrics };
+}
+
+function getPasskeys(device: TrustedDevice | null): PasskeyCredential[] {
+  return (device?.biometrics || []).flatMap(credential => credential.passkey ? [credential.passkey] : []);
+}
+
+function describeGestureFailure(reason: 'too_few_samples' | 'low_quality' | 'inconsistent'): string {
+  switch (reason) {
+    case 'too_few_samples':
+      return "Draw the pattern more times to enroll it";
+    case 'low_quality':
+      return "A drawing was too short or too small to enroll";
+    case 'inconsistent':
+      return "The drawings do not look like the same pattern";
+  }
+}
+
+/**
+ * Liveness failures that point to a photo or replayed video rather than a capture problem
+ */
+function isLivenessAttackSign(result: LivenessResult): boolean {
+  return result.reason === 'static_image'
+    || result.reason === 'prompt_not_followed'
+    || result.reason === 'prompt_mismatch'
+    || result.reason === 'face_changed';
 }
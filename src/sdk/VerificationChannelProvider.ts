@@ -0,0 +1,85 @@
+/**
+ * VerificationChannelProvider.ts
+ * Out-of-band delivery of verification codes by SMS, voice call, email or push
+ */
+
+export type VerificationChannel = 'sms' | 'voice' | 'email' | 'push';
+
+export const VERIFICATION_CHANNELS: readonly VerificationChannel[] = ['sms', 'voice', 'email', 'push'];
+
+/**
+ * A rendered message ready to hand to a delivery service
+ */
+export interface VerificationMessage {
+  channel: VerificationChannel;
+  /**
+   * Phone number, email address or push token, depending on the channel
+   */
+  to: string;
+  /**
+   * Locale the message was rendered in
+   */
+  locale: string;
+  subject?: string;
+  body: string;
+  /**
+   * The raw code, for providers that render their own templates server-side
+   */
+  code: string;
+  transactionId: string;
+  expiresAt: string;
+}
+
+/**
+ * Sends verification messages over one or more channels. Register providers
+ * with the `verificationProviders` config option; the first provider supporting
+ * the requested channel is used.
+ */
+export interface VerificationChannelProvider {
+  readonly channels: readonly VerificationChannel[];
+  /**
+   * Deliver the message, rejecting when the delivery service refuses it
+   */
+  send(message: VerificationMessage): Promise<void>;
+}
+
+export interface OutboundVerificationMessage extends VerificationMessage {
+  sentAt: string;
+}
+
+/**
+ * Delivers nothing: records every message in an outbox instead, so QA and
+ * tests can read back the code that would have been sent
+ */
+export class MockVerificationChannelProvider implements VerificationChannelProvider {
+  private readonly outbox: OutboundVerificationMessage[] = [];
+
+  constructor(public readonly channels: readonly VerificationChannel[] = VERIFICATION_CHANNELS) {}
+
+  public async send(message: VerificationMessage): Promise<void> {
+    this.outbox.push({ ...message, sentAt: new Date().toISOString() });
+  }
+
+  /**
+   * Messages sent so far, oldest first
+   */
+  public getOutbox(): OutboundVerificationMessage[] {
+    return [...this.outbox];
+  }
+
+  /**
+   * The most recent message, optionally only those sent to `to`
+   */
+  public getLatestMessage(to?: string): OutboundVerificationMessage | null {
+    for (let i = this.outbox.length - 1; i >= 0; i--) {
+      if (to === undefined || this.outbox[i].to === to) {
+        return this.outbox[i];
+      }
+    }
+    return null;
+  }
+
+  public clear(): void {
+    this.outbox.length = 0;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * VerificationCodeSender.ts
+ * Issues verification codes and delivers them through the configured channel providers
+ */
+import { Clock, Logger } from './SecurePayConfig';
+import { Transaction } from './TrustedDeviceManager';
+import { OneTimeCodeManager } from './OneTimeCodeManager';
+import { VerificationChannel, VerificationChannelProvider } from './VerificationChannelProvider';
+import { VerificationTemplates, renderVerificationMessage } from './VerificationTemplates';
+import { VerificationDeliveryError } from './SecurePayError';
+
+export interface VerificationCodeSenderOptions {
+  providers: VerificationChannelProvider[];
+  templates: VerificationTemplates;
+  /**
+   * Locale used when a request does not name one
+   */
+  locale: string;
+  clock: Clock;
+  logger: Logger;
+}
+
+export interface SendVerificationCodeOptions {
+  /**
+   * The code goes to the phone number registered with the device, so only 'sms' and 'voice' can deliver it
+   */
+  channel: VerificationChannel;
+  locale?: string;
+}
+
+/**
+ * Where a code went, without the code itself
+ */
+export interface SentVerificationCode {
+  transactionId: string;
+  channel: VerificationChannel;
+  /**
+   * The phone number with most of it masked, safe to show on screen
+   */
+  maskedDestination: string;
+  expiresAt: string;
+}
+
+export class VerificationCodeSender {
+  constructor(
+    private readonly codes: OneTimeCodeManager,
+    private readonly options: VerificationCodeSenderOptions
+  ) {}
+
+  /**
+   * Channels at least one registered provider can deliver over
+   */
+  public getAvailableChannels(): VerificationChannel[] {
+    const channels = new Set(this.options.providers.flatMap(provider => provider.channels));
+    return [...channels];
+  }
+
+  /**
+   * Issue a code for `transaction` and send it to `phoneNumber`, the one registered with the device.
+   * The caller never names the destination, so a code cannot be diverted to one the account holder
+   * does not control. Throws VerificationCodeError when no code can be issued yet and
+   * VerificationDeliveryError when it cannot be sent
+   */
+  public async send(transaction: Transaction, request: SendVerificationCodeOptions, phoneNumber: string | undefined): Promise<SentVerificationCode> {
+    const { channel } = request;
+    const { clock, logger } = this.options;
+    const provider = this.options.providers.find(p => p.channels.includes(channel));
+    if (!provider) {
+      throw new VerificationDeliveryError('no_provider', `No verification provider supports "${channel}"`);
+    }
+    if (channel !== 'sms' && channel !== 'voice') {
+      throw new VerificationDeliveryError('no_destination', `No ${channel} destination is registered with this device`);
+    }
+    if (!phoneNumber) {
+      throw new VerificationDeliveryError('no_destination', "No phone number is registered with this device");
+    }
+
+    const issued = await this.codes.issue(transaction);
+    const locale = request.locale || this.options.locale;
+
+    try {
+      const content = renderVerificationMessage(this.options.templates, locale, channel, {
+        code: issued.code,
+        amount: transaction.amount.format(locale),
+        recipient: transaction.recipient,
+        minutes: Math.max(1, Math.round((new Date(issued.expiresAt).getTime() - clock.now()) / 60000)),
+      });
+
+      await provider.send({
+        channel,
+        to: phoneNumber,
+        locale: content.locale,
+        subject: content.subject,
+        body: content.body,
+        code: issued.code,
+        transactionId: transaction.id,
+        expiresAt: issued.expiresAt,
+      });
+    } catch (error) {
+      // An undelivered code must not block the user from asking for another
+      this.codes.withdraw(transaction.id);
+      if (error instanceof VerificationDeliveryError) {
+        throw error;
+      }
+      logger.error(`Failed to send verification code by ${channel}:`, error);
+      throw new VerificationDeliveryError('send_failed', `The verification code could not be sent by ${channel}`);
+    }
+
+    logger.info(`Verification code sent by ${channel}`);
+    return {
+      transactionId: transaction.id,
+      channel,
+      maskedDestination: maskPhoneNumber(phoneNumber),
+      expiresAt: issued.expiresAt,
+    };
+  }
+}
+
+function maskPhoneNumber(to: string): string {
+  return to.length > 7 ? `${to.substring(0, 3)}***${to.slice(-4)}` : `***${to.slice(-2)}`;
+}
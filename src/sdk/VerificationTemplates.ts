@@ -0,0 +1,148 @@
+/**
+ * VerificationTemplates.ts
+ * Localised message bodies for verification codes
+ */
+import { VerificationChannel } from './VerificationChannelProvider';
+import { VerificationDeliveryError } from './SecurePayError';
+
+/**
+ * Placeholders: {code}, {amount}, {recipient} and {minutes} (time left to use the code)
+ */
+export interface VerificationTemplate {
+  /**
+   * Used by the email and push channels
+   */
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Templates by locale (e.g. "en", "pt-BR") and channel
+ */
+export type VerificationTemplates = Record<string, Partial<Record<VerificationChannel, VerificationTemplate>>>;
+
+export const FALLBACK_LOCALE = 'en';
+
+export const DEFAULT_VERIFICATION_TEMPLATES: VerificationTemplates = {
+  en: {
+    sms: {
+      body: "SecurePay: {code} is your code to approve {amount} to {recipient}. It expires in {minutes} min. Never share this code.",
+    },
+    voice: {
+      body: "This is SecurePay. Your code to approve a payment of {amount} to {recipient} is {code}. Again, your code is {code}.",
+    },
+    email: {
+      subject: "Your SecurePay verification code",
+      body: "Use {code} to approve your payment of {amount} to {recipient}. The code expires in {minutes} minutes. If you did not make this payment, do not share the code and contact us.",
+    },
+    push: {
+      subject: "Approve payment",
+      body: "Code {code} approves {amount} to {recipient}. Expires in {minutes} min.",
+    },
+  },
+  es: {
+    sms: {
+      body: "SecurePay: {code} es tu código para aprobar {amount} a {recipient}. Caduca en {minutes} min. No lo compartas con nadie.",
+    },
+    voice: {
+      body: "Le llama SecurePay. Su código para aprobar un pago de {amount} a {recipient} es {code}. Repito, su código es {code}.",
+    },
+    email: {
+      subject: "Tu código de verificación de SecurePay",
+      body: "Usa {code} para aprobar tu pago de {amount} a {recipient}. El código caduca en {minutes} minutos. Si no has hecho este pago, no compartas el código y contáctanos.",
+    },
+    push: {
+      subject: "Aprobar pago",
+      body: "El código {code} aprueba {amount} a {recipient}. Caduca en {minutes} min.",
+    },
+  },
+  fr: {
+    sms: {
+      body: "SecurePay : {code} est votre code pour approuver {amount} à {recipient}. Il expire dans {minutes} min. Ne le partagez jamais.",
+    },
+    voice: {
+      body: "Ici SecurePay. Votre code pour approuver un paiement de {amount} à {recipient} est {code}. Je répète, votre code est {code}.",
+    },
+    email: {
+      subject: "Votre code de vérification SecurePay",
+      body: "Utilisez {code} pour approuver votre paiement de {amount} à {recipient}. Le code expire dans {minutes} minutes. Si vous n'êtes pas à l'origine de ce paiement, ne partagez pas le code et contactez-nous.",
+    },
+    push: {
+      subject: "Approuver le paiement",
+      body: "Le code {code} approuve {amount} à {recipient}. Expire dans {minutes} min.",
+    },
+  },
+  de: {
+    sms: {
+      body: "SecurePay: {code} ist Ihr Code zur Freigabe von {amount} an {recipient}. Gültig für {minutes} Min. Geben Sie ihn niemals weiter.",
+    },
+    voice: {
+      body: "Hier ist SecurePay. Ihr Code zur Freigabe einer Zahlung von {amount} an {recipient} lautet {code}. Ich wiederhole: {code}.",
+    },
+    email: {
+      subject: "Ihr SecurePay-Bestätigungscode",
+      body: "Verwenden Sie {code}, um Ihre Zahlung von {amount} an {recipient} freizugeben. Der Code ist {minutes} Minuten gültig. Wenn Sie diese Zahlung nicht veranlasst haben, geben Sie den Code nicht weiter und kontaktieren Sie uns.",
+    },
+    push: {
+      subject: "Zahlung freigeben",
+      body: "Code {code} gibt {amount} an {recipient} frei. Gültig für {minutes} Min.",
+    },
+  },
+};
+
+export interface VerificationTemplateValues {
+  code: string;
+  amount: string;
+  recipient: string;
+  minutes: number;
+}
+
+export interface RenderedVerificationMessage {
+  locale: string;
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Render the template for `channel` in the closest available locale: the exact
+ * locale, then its language ("pt-BR" → "pt"), then English
+ */
+export function renderVerificationMessage(
+  templates: VerificationTemplates,
+  locale: string,
+  channel: VerificationChannel,
+  values: VerificationTemplateValues
+): RenderedVerificationMessage {
+  const candidates = [locale, locale.split('-')[0], FALLBACK_LOCALE];
+  const resolvedLocale = candidates.find(candidate => templates[candidate]?.[channel]);
+  if (!resolvedLocale) {
+    throw new VerificationDeliveryError('no_template', `No verification template for channel "${channel}"`);
+  }
+
+  const template = templates[resolvedLocale][channel];
+  const rendered: Record<string, string> = {
+    // Read out digit by digit rather than as one large number
+    code: channel === 'voice' ? values.code.split('').join(', ') : values.code,
+    amount: values.amount,
+    recipient: values.recipient,
+    minutes: String(values.minutes),
+  };
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (match, name) => rendered[name] ?? match);
+
+  return {
+    locale: resolvedLocale,
+    subject: template.subject && fill(template.subject),
+    body: fill(template.body),
+  };
+}
+
+/**
+ * Layer `overrides` over `base`, template by template
+ */
+export function mergeVerificationTemplates(base: VerificationTemplates, overrides: VerificationTemplates): VerificationTemplates {
+  const merged: VerificationTemplates = { ...base };
+  Object.entries(overrides).forEach(([locale, channels]) => {
+    merged[locale] = { ...merged[locale], ...channels };
+  });
+  return merged;
+}